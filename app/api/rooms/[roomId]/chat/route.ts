@@ -0,0 +1,71 @@
+import { NextRequest } from 'next/server'
+import { broadcastChatMessage, isConnectedAs } from '@/app/api/socket/route'
+import { roomEngine } from '@/lib/room-engine'
+import { isChatEmote, roomChat, RoomChatError } from '@/lib/room-chat'
+
+// Post a chat message or emote. The sender must hold an open SSE connection to the room
+// that their wallet signed for (see the session route), which is where the message is delivered.
+export async function POST(request: NextRequest, { params }: { params: { roomId: string } }) {
+  const { roomId } = params
+  let body
+  try {
+    body = await request.json()
+  } catch (error) {
+    return new Response(JSON.stringify({ error: 'Request body is not valid JSON' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    })
+  }
+  const { player, connectionId, text, emote } = body || {}
+
+  if (!player || !connectionId || (!text && !emote)) {
+    return new Response(JSON.stringify({ error: 'Missing player, connectionId, or message' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    })
+  }
+
+  if (emote && !isChatEmote(emote)) {
+    return new Response(JSON.stringify({ error: `Unknown emote: ${emote}` }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    })
+  }
+
+  const room = roomEngine.getRoom(roomId)
+  if (!room) {
+    return new Response(JSON.stringify({ error: `Room ${roomId} not found` }), {
+      status: 404,
+      headers: { 'Content-Type': 'application/json' }
+    })
+  }
+
+  if (!isConnectedAs(roomId, connectionId, player)) {
+    return new Response(JSON.stringify({ error: 'Not connected to this room as this player' }), {
+      status: 403,
+      headers: { 'Content-Type': 'application/json' }
+    })
+  }
+
+  try {
+    const chatMessage = roomChat.post(room, player, { text: typeof text === 'string' ? text : undefined, emote })
+    broadcastChatMessage(roomId, chatMessage)
+
+    return new Response(JSON.stringify({ success: true, chatMessage }), {
+      headers: { 'Content-Type': 'application/json' }
+    })
+  } catch (error) {
+    if (error instanceof RoomChatError) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: error.status,
+        headers: { 'Content-Type': 'application/json' }
+      })
+    }
+
+    console.error(`[Rooms] Failed to post chat message in room ${roomId}:`, error)
+    return new Response(JSON.stringify({ error: 'Failed to post chat message' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    })
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest } from 'next/server'
+// Loads the SSE route, which broadcasts forfeits to the room's players
+import '@/app/api/socket/route'
+import { roomEngine } from '@/lib/room-engine'
+
+// Ask the server to enforce the room's clock, e.g. when a player's countdown reaches zero.
+// The clock sweep does this on its own, but it may not run between requests on serverless hosts.
+export async function POST(_request: NextRequest, { params }: { params: { roomId: string } }) {
+  const { roomId } = params
+
+  try {
+    const forfeited = await roomEngine.enforceClock(roomId)
+    const room = roomEngine.getRoom(roomId)
+
+    if (!room) {
+      return new Response(JSON.stringify({ error: `Room ${roomId} not found` }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      })
+    }
+
+    return new Response(JSON.stringify({ success: true, forfeited, room }), {
+      headers: { 'Content-Type': 'application/json' }
+    })
+  } catch (error) {
+    console.error(`[Rooms] Failed to check clock in room ${roomId}:`, error)
+    return new Response(JSON.stringify({ error: 'Failed to check clock' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    })
+  }
+}
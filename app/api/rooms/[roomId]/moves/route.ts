@@ -0,0 +1,50 @@
+import { NextRequest } from 'next/server'
+import { broadcastRoomStateChange } from '@/app/api/socket/route'
+import { roomEngine, RoomEngineError } from '@/lib/room-engine'
+
+export async function POST(request: NextRequest, { params }: { params: { roomId: string } }) {
+  const { roomId } = params
+  let body
+  try {
+    body = await request.json()
+  } catch (error) {
+    return new Response(JSON.stringify({ error: 'Request body is not valid JSON' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    })
+  }
+  // version is the room version the player saw when moving
+  const { seq, position, player, mark, signature, version } = body || {}
+
+  if (typeof seq !== 'number' || typeof position !== 'number' || !player || !signature || typeof version !== 'number') {
+    return new Response(JSON.stringify({ error: 'Missing seq, position, player, signature or version' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    })
+  }
+
+  try {
+    const room = await roomEngine.makeMove({ roomId, seq, position, player, mark, signature }, version)
+
+    // Only the validated state is sent to the other players
+    broadcastRoomStateChange(roomId, room)
+
+    return new Response(JSON.stringify({ success: true, room }), {
+      headers: { 'Content-Type': 'application/json' }
+    })
+  } catch (error) {
+    if (error instanceof RoomEngineError) {
+      console.log(`[Rooms] Rejected move in room ${roomId}: ${error.message}`)
+      return new Response(JSON.stringify({ error: error.message, room: roomEngine.getRoom(roomId) }), {
+        status: error.status,
+        headers: { 'Content-Type': 'application/json' }
+      })
+    }
+
+    console.error(`[Rooms] Failed to process move in room ${roomId}:`, error)
+    return new Response(JSON.stringify({ error: 'Failed to process move' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    })
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest } from 'next/server'
+import { roomEngine } from '@/lib/room-engine'
+import { WinnerVerification } from '@/lib/winner-verification'
+
+// Check a finished room's winner proof against the published oracle key and its signed move log.
+// The proof and the room are public, so anyone can repeat the check with WinnerVerification.verifyGameProof.
+export async function GET(_request: NextRequest, { params }: { params: { roomId: string } }) {
+  const { roomId } = params
+  const room = roomEngine.getRoom(roomId) || roomEngine.getArchivedRoom(roomId)
+
+  if (!room?.winnerProof) {
+    return new Response(JSON.stringify({ error: room ? `Room ${roomId} has no winner proof` : `Room ${roomId} not found` }), {
+      status: 404,
+      headers: { 'Content-Type': 'application/json' }
+    })
+  }
+
+  const valid = await WinnerVerification.verifyGameProof(room.winnerProof, room)
+
+  return new Response(JSON.stringify({ proof: room.winnerProof, valid }), {
+    headers: { 'Content-Type': 'application/json' }
+  })
+}
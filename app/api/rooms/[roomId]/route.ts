@@ -0,0 +1,21 @@
+import { NextRequest } from 'next/server'
+import { roomEngine } from '@/lib/room-engine'
+
+// Read a room as the engine holds it, including its full move log. Anyone may read it,
+// e.g. to replay a finished game from a shared link without a wallet. Rooms closed a while
+// ago are read from the engine's archive.
+export async function GET(_request: NextRequest, { params }: { params: { roomId: string } }) {
+  const { roomId } = params
+  const room = roomEngine.getRoom(roomId) || roomEngine.getArchivedRoom(roomId)
+
+  if (!room) {
+    return new Response(JSON.stringify({ error: `Room ${roomId} not found` }), {
+      status: 404,
+      headers: { 'Content-Type': 'application/json' }
+    })
+  }
+
+  return new Response(JSON.stringify({ room }), {
+    headers: { 'Content-Type': 'application/json' }
+  })
+}
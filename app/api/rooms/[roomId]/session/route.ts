@@ -0,0 +1,46 @@
+import { NextRequest } from 'next/server'
+import { authenticateConnection } from '@/app/api/socket/route'
+import { verifyRoomSession } from '@/lib/move-signing'
+import { issueRoomSessionToken } from '@/lib/room-session'
+
+// Prove a wallet holds an SSE connection to the room by signing the connection's ID.
+// The connection is trusted from then on, and the token returned lets later connections
+// from the same wallet be trusted without signing again.
+export async function POST(request: NextRequest, { params }: { params: { roomId: string } }) {
+  const { roomId } = params
+  let body
+  try {
+    body = await request.json()
+  } catch (error) {
+    return new Response(JSON.stringify({ error: 'Request body is not valid JSON' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    })
+  }
+  const { player, connectionId, signature } = body || {}
+
+  if (!player || !connectionId || !signature) {
+    return new Response(JSON.stringify({ error: 'Missing player, connectionId or signature' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    })
+  }
+
+  if (!(await verifyRoomSession(roomId, player, connectionId, signature))) {
+    return new Response(JSON.stringify({ error: "Signature does not match the player's wallet" }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' }
+    })
+  }
+
+  if (!authenticateConnection(roomId, connectionId, player)) {
+    return new Response(JSON.stringify({ error: 'Not connected to this room' }), {
+      status: 403,
+      headers: { 'Content-Type': 'application/json' }
+    })
+  }
+
+  return new Response(JSON.stringify({ success: true, sessionToken: issueRoomSessionToken(roomId, player) }), {
+    headers: { 'Content-Type': 'application/json' }
+  })
+}
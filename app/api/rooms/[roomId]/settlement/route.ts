@@ -0,0 +1,98 @@
+import { NextRequest } from 'next/server'
+import { broadcastRoomStateChange } from '@/app/api/socket/route'
+import { roomEngine, RoomEngineError } from '@/lib/room-engine'
+
+/**
+ * Settlement coordination for finished rooms
+ * - claim:  ask for the right to submit the settlement transaction
+ * - report: the claiming player sends the transaction digest; the server waits for it on chain
+ * - fail:   the claiming player could not submit, so the settlement can be retried
+ * Each action is signed by the player's wallet (see createSettlementMessage).
+ */
+export async function POST(request: NextRequest, { params }: { params: { roomId: string } }) {
+  const { roomId } = params
+  let body
+  try {
+    body = await request.json()
+  } catch (error) {
+    return new Response(JSON.stringify({ error: 'Request body is not valid JSON' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    })
+  }
+  const { action, player, signature, digest, error } = body || {}
+
+  if (!action || !player || !signature) {
+    return new Response(JSON.stringify({ error: 'Missing action, player or signature' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    })
+  }
+
+  try {
+    switch (action) {
+      case 'claim': {
+        const { granted, room } = await roomEngine.claimSettlement(roomId, player, signature)
+        broadcastRoomStateChange(roomId, room)
+
+        return new Response(JSON.stringify({ success: true, granted, room }), {
+          headers: { 'Content-Type': 'application/json' }
+        })
+      }
+
+      case 'report': {
+        if (!digest) {
+          return new Response(JSON.stringify({ error: 'Missing transaction digest' }), {
+            status: 400,
+            headers: { 'Content-Type': 'application/json' }
+          })
+        }
+
+        const submittedRoom = await roomEngine.reportSettlement(roomId, player, digest, signature)
+        broadcastRoomStateChange(roomId, submittedRoom)
+
+        // Everyone now sees the digest; confirm it on chain before answering
+        const room = await roomEngine.confirmSettlement(roomId, 20000)
+        broadcastRoomStateChange(roomId, room)
+
+        return new Response(JSON.stringify({ success: true, room }), {
+          headers: { 'Content-Type': 'application/json' }
+        })
+      }
+
+      case 'fail': {
+        const room = await roomEngine.failSettlement(
+          roomId,
+          player,
+          error || 'Settlement transaction was not submitted',
+          signature
+        )
+        broadcastRoomStateChange(roomId, room)
+
+        return new Response(JSON.stringify({ success: true, room }), {
+          headers: { 'Content-Type': 'application/json' }
+        })
+      }
+
+      default:
+        return new Response(JSON.stringify({ error: `Unknown settlement action: ${action}` }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        })
+    }
+  } catch (error) {
+    if (error instanceof RoomEngineError) {
+      console.log(`[Rooms] Rejected settlement ${action} in room ${roomId}: ${error.message}`)
+      return new Response(JSON.stringify({ error: error.message, room: roomEngine.getRoom(roomId) }), {
+        status: error.status,
+        headers: { 'Content-Type': 'application/json' }
+      })
+    }
+
+    console.error(`[Rooms] Failed to process settlement ${action} in room ${roomId}:`, error)
+    return new Response(JSON.stringify({ error: 'Failed to process settlement' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    })
+  }
+}
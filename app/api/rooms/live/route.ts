@@ -0,0 +1,22 @@
+import { getSpectatorCount } from '@/app/api/socket/route'
+import { roomEngine } from '@/lib/room-engine'
+import type { LiveRoom } from '@/lib/room'
+
+// Games in progress on this server, with how many spectators each one has, for the lobby's watch list
+export async function GET() {
+  const rooms: LiveRoom[] = roomEngine.listLiveRooms().map((room) => ({
+    roomId: room.roomId,
+    players: room.players,
+    betAmount: room.betAmount,
+    bestOf: room.bestOf,
+    variant: room.variant,
+    gameType: room.gameType,
+    rules: room.rules,
+    createdAt: room.createdAt,
+    spectatorCount: getSpectatorCount(room.roomId),
+  }))
+
+  return new Response(JSON.stringify({ rooms }), {
+    headers: { 'Content-Type': 'application/json' }
+  })
+}
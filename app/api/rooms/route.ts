@@ -0,0 +1,75 @@
+import { NextRequest } from 'next/server'
+import { roomEngine } from '@/lib/room-engine'
+import { roomIndexer } from '@/lib/room-indexer'
+import type { IndexedRoom, RoomListOptions, RoomSortOrder } from '@/lib/room-indexer'
+import { GAME_RULES } from '@/lib/game-logic'
+import { isRoomOpen } from '@/lib/room'
+
+const SORT_ORDERS: RoomSortOrder[] = ['newest', 'oldest', 'bet-asc', 'bet-desc']
+const RULE_FILTERS: string[] = ['classic', ...GAME_RULES]
+
+function parseNumber(value: string | null): number | undefined {
+  if (value === null || value === '') return undefined
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : undefined
+}
+
+// Match settings live off chain, so take them from the engine's copy of each room. Rooms the
+// engine has seen start, get cancelled or settle are left out, even before the chain says so.
+function withEngineSettings(room: IndexedRoom): IndexedRoom | null {
+  const engineRoom = roomEngine.getRoom(room.roomId)
+  if (engineRoom && !isRoomOpen(engineRoom)) return null
+
+  return {
+    ...room,
+    bestOf: engineRoom?.bestOf,
+    variant: engineRoom?.variant,
+    gameType: engineRoom?.gameType,
+    rules: engineRoom?.rules,
+  }
+}
+
+// List open rooms across the network from the on-chain event index
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  const sort = searchParams.get('sort') as RoomSortOrder | null
+  const rule = searchParams.get('rule') as RoomListOptions['rule'] | null
+
+  if (sort && !SORT_ORDERS.includes(sort)) {
+    return new Response(JSON.stringify({ error: `Invalid sort order: ${sort}` }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    })
+  }
+
+  if (rule && !RULE_FILTERS.includes(rule)) {
+    return new Response(JSON.stringify({ error: `Invalid rule: ${rule}` }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    })
+  }
+
+  try {
+    const result = await roomIndexer.listOpenRooms(
+      {
+        page: parseNumber(searchParams.get('page')),
+        pageSize: parseNumber(searchParams.get('pageSize')),
+        minBet: parseNumber(searchParams.get('minBet')),
+        maxBet: parseNumber(searchParams.get('maxBet')),
+        rule: rule || undefined,
+        sort: sort || undefined,
+      },
+      withEngineSettings,
+    )
+
+    return new Response(JSON.stringify(result), {
+      headers: { 'Content-Type': 'application/json' }
+    })
+  } catch (error) {
+    console.error('[Rooms] Failed to list rooms from the event index:', error)
+    return new Response(JSON.stringify({ error: 'Failed to list rooms' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    })
+  }
+}
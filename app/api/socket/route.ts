@@ -1,63 +1,238 @@
 import { NextRequest } from 'next/server'
+import { roomEngine, RoomEngineError } from '@/lib/room-engine'
+import { roomChat, type ChatMessage } from '@/lib/room-chat'
+import { startRoomSocketServer } from '@/lib/room-socket-server'
+import { getRoomPubSub } from '@/lib/room-pubsub'
+import { isRoomClosed } from '@/lib/room'
+import { verifyRoomSessionToken } from '@/lib/room-session'
+import { findStalledConnections, RoomEventBuffer, type StreamWriter } from '@/lib/room-event-stream'
 
-// Store room subscriptions with enhanced tracking
-const roomSubscriptions = new Map<string, Set<{ 
-  writer: any; 
+interface RoomConnection {
+  writer: StreamWriter;
   encoder: TextEncoder;
   connectionId: string;
   connectedAt: number;
   lastActivity: number;
-}>>()
+  address?: string; // Wallet the client says it connected with, if any; only trusted once authenticated
+  authenticated: boolean; // Whether the wallet proved the address, with a session token or a signed challenge
+}
+
+// What goes over pub/sub: an event for every instance to send to its clients in the room
+interface PublishedRoomEvent {
+  roomId: string;
+  event: Record<string, unknown>;
+}
+
+const ROOM_EVENTS_CHANNEL = 'room-events'
+
+// Comment lines keep proxies from closing quiet streams
+const HEARTBEAT_INTERVAL_MS = 15000
+
+// Store room subscriptions with enhanced tracking
+const roomSubscriptions = new Map<string, Set<RoomConnection>>()
+
+// Each room's most recent events, for clients resuming with Last-Event-ID
+const roomEvents = new RoomEventBuffer()
+
+// Write to one connection, heartbeats included, and note when it last accepted a write
+function writeToConnection(connectionData: RoomConnection, chunk: string): boolean {
+  try {
+    connectionData.writer.enqueue(connectionData.encoder.encode(chunk))
+    connectionData.lastActivity = Date.now()
+    return true
+  } catch (error) {
+    return false
+  }
+}
+
+function removeConnection(roomId: string, connectionData: RoomConnection) {
+  const connections = roomSubscriptions.get(roomId)
+  if (!connections || !connections.delete(connectionData)) return
+
+  if (connections.size === 0) {
+    roomSubscriptions.delete(roomId)
+    console.log(`[SSE] Removed empty room subscriptions for room: ${roomId}`)
+  } else {
+    broadcastSpectatorCount(roomId)
+  }
+}
+
+// Connections in a room that are not one of its players. The address in the URL is only a
+// claim, so a connection counts as a player once its wallet proved the address.
+export function getSpectatorCount(roomId: string): number {
+  const connections = roomSubscriptions.get(roomId)
+  if (!connections) return 0
+
+  const players = roomEngine.getRoom(roomId)?.players || []
+  let count = 0
+  connections.forEach((connectionData) => {
+    if (!connectionData.authenticated || !players.includes(connectionData.address || '')) count++
+  })
+  return count
+}
+
+function findConnection(roomId: string, connectionId: string): RoomConnection | undefined {
+  const connections = roomSubscriptions.get(roomId)
+  if (!connections) return undefined
+
+  let found: RoomConnection | undefined
+  connections.forEach((connectionData) => {
+    if (connectionData.connectionId === connectionId) found = connectionData
+  })
+  return found
+}
+
+// Whether a connection in the room belongs to this wallet. The address in the URL is
+// only a claim; it counts once the wallet proved it.
+export function isConnectedAs(roomId: string, connectionId: string, address: string): boolean {
+  const connectionData = findConnection(roomId, connectionId)
+  return !!connectionData && connectionData.address === address && connectionData.authenticated
+}
+
+// Trust a connection's address after its wallet signed the connection's challenge.
+// Returns false when there is no such connection opened with that address.
+export function authenticateConnection(roomId: string, connectionId: string, address: string): boolean {
+  const connectionData = findConnection(roomId, connectionId)
+  if (!connectionData || connectionData.address !== address) return false
+
+  if (!connectionData.authenticated) {
+    connectionData.authenticated = true
+    broadcastSpectatorCount(roomId)
+  }
+  return true
+}
+
+// Send one event to every connection in a room, returning how many it reached. Replayable
+// events carry an ID; the rest, like spectator counts, only matter while they are current.
+function sendToRoom(roomId: string, event: Record<string, unknown>, eventId?: number): number {
+  let chunk: string
+  if (eventId !== undefined) {
+    // Kept for replay even when nobody is connected
+    const { id, message } = roomEvents.record(roomId, eventId, event)
+    chunk = `id: ${id}\ndata: ${message}\n\n`
+  } else {
+    chunk = `data: ${JSON.stringify({ ...event, roomId, timestamp: Date.now() })}\n\n`
+  }
 
-// Broadcast room state change to all subscribers
-export function broadcastRoomStateChange(roomId: string, roomData: any) {
   const connections = roomSubscriptions.get(roomId)
-  if (!connections) {
+  if (!connections) return 0
+
+  let sent = 0
+  connections.forEach((connectionData) => {
+    if (writeToConnection(connectionData, chunk)) {
+      sent++
+    } else {
+      console.log(`[SSE] Could not send ${event.type} to connection: ${connectionData.connectionId}`)
+    }
+  })
+  return sent
+}
+
+// Tell everyone in a room how many spectators are watching
+function broadcastSpectatorCount(roomId: string) {
+  sendToRoom(roomId, { type: 'spectators_changed', spectatorCount: getSpectatorCount(roomId) })
+}
+
+// Hand an event to every server instance, this one included; each delivers it to its own clients
+function publishRoomEvent(roomId: string, event: Record<string, unknown>) {
+  const published: PublishedRoomEvent = { roomId, event }
+  getRoomPubSub()
+    .publish(ROOM_EVENTS_CHANNEL, JSON.stringify(published))
+    .catch((error) => console.error(`[SSE] Failed to publish ${event.type} for room: ${roomId}`, error.message))
+}
+
+// Deliver a chat message or emote to everyone in the room
+export function broadcastChatMessage(roomId: string, chatMessage: ChatMessage) {
+  publishRoomEvent(roomId, { type: 'chat_message', chatMessage })
+}
+
+// Broadcast room state change to all subscribers, on every instance
+export function broadcastRoomStateChange(roomId: string, roomData: any) {
+  publishRoomEvent(roomId, { type: 'room_state_changed', data: roomData })
+}
+
+// Send a room state change to this instance's clients. The event ID is the room version,
+// which every instance reads from the same published state, so a client can resume anywhere.
+function deliverRoomStateChange(roomId: string, roomData: any) {
+  // The instance that closed the room has already dropped its chat; the others do it here
+  if (isRoomClosed(roomData)) roomChat.clearRoom(roomId)
+
+  // WebSocket clients get the same state; they are tracked by the socket server
+  roomSocketServer?.broadcastState(roomId, roomData)
+
+  // Recorded even without connections, so clients that are reconnecting can catch up
+  const activeCount = sendToRoom(roomId, { type: 'room_state_changed', data: roomData }, roomData.version || 0)
+  if (!roomSubscriptions.has(roomId)) {
     console.log(`[SSE] No connections found for room: ${roomId}`)
     return
   }
 
-  const message = JSON.stringify({
-    type: 'room_state_changed',
-    roomId,
-    data: roomData,
-    timestamp: Date.now()
-  })
+  console.log(`[SSE] Broadcasted room state change to ${activeCount} active connections for room: ${roomId}`)
 
-  let activeCount = 0
-  const connectionsToRemove = new Set()
-  
-  connections.forEach(async (connectionData) => {
+  // A join turns a spectator into a player, so the count may have changed too
+  broadcastSpectatorCount(roomId)
+}
+
+// Heartbeat every open connection, and drop the ones whose client stopped reading.
+// Dev reloads evaluate this module again, so the previous interval is replaced.
+const globalForSSE = globalThis as unknown as { sseHeartbeat?: ReturnType<typeof setInterval> }
+if (globalForSSE.sseHeartbeat) clearInterval(globalForSSE.sseHeartbeat)
+globalForSSE.sseHeartbeat = setInterval(() => {
+  const now = Date.now()
+  const stalled = findStalledConnections(roomSubscriptions, (connectionData) =>
+    writeToConnection(connectionData, `: heartbeat ${now}\n\n`)
+  )
+  stalled.forEach(({ roomId, connection: connectionData }) => {
+    console.log(
+      `[SSE] Reaping idle connection: ${connectionData.connectionId} in room: ${roomId}, ` +
+        `last written ${now - connectionData.lastActivity}ms ago`
+    )
     try {
-      // Update last activity time for connection tracking
-      connectionData.lastActivity = Date.now()
-      
-      connectionData.writer.enqueue(connectionData.encoder.encode(`data: ${message}\n\n`))
-      activeCount++
-      console.log(`[SSE] Sent room update to connection: ${connectionData.connectionId}`)
+      connectionData.writer.close()
     } catch (error) {
-      console.log(`[SSE] Connection closed, marking for removal: ${connectionData.connectionId}`)
-      connectionsToRemove.add(connectionData)
+      // Already closed by the client
     }
+    removeConnection(roomId, connectionData)
   })
+}, HEARTBEAT_INTERVAL_MS)
 
-  // Clean up closed connections
-  connectionsToRemove.forEach(connectionData => {
-    connections.delete(connectionData)
-  })
+// Moves made over the WebSocket are fanned out to SSE clients too
+const roomSocketServer = startRoomSocketServer((room) => broadcastRoomStateChange(room.roomId, room))
 
-  console.log(`[SSE] Broadcasted room state change to ${activeCount} active connections for room: ${roomId}`)
-  
-  // Clean up room subscriptions if no active connections
-  if (connections.size === 0) {
-    roomSubscriptions.delete(roomId)
-    console.log(`[SSE] Removed empty room subscriptions for room: ${roomId}`)
+// Deliver published room events to this instance's clients. Dev reloads evaluate this
+// module again, so the previous subscription is ended first.
+const globalForRoomEvents = globalThis as unknown as { unsubscribeRoomEvents?: () => void }
+globalForRoomEvents.unsubscribeRoomEvents?.()
+globalForRoomEvents.unsubscribeRoomEvents = getRoomPubSub().subscribe(ROOM_EVENTS_CHANNEL, (message) => {
+  try {
+    const { roomId, event }: PublishedRoomEvent = JSON.parse(message)
+    if (event.type === 'room_state_changed') {
+      deliverRoomStateChange(roomId, event.data)
+    } else {
+      // Each instance keeps the chat it delivers, so a client can reconnect to any of them
+      if (event.type === 'chat_message') roomChat.record(event.chatMessage as ChatMessage)
+      sendToRoom(roomId, event)
+    }
+  } catch (error) {
+    console.error('[SSE] Failed to deliver published room event:', error)
   }
-}
+})
+
+// Rooms forfeited on time are pushed to their players like any other state change
+roomEngine.onForfeit((room) => broadcastRoomStateChange(room.roomId, room))
+roomEngine.onClose((room) => roomChat.clearRoom(room.roomId))
+roomEngine.startClockSweep()
 
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url)
   const roomId = searchParams.get('roomId')
+  const address = searchParams.get('address') || undefined
+  // Issued by the session route when the wallet signed a challenge on an earlier connection
+  const sessionToken = searchParams.get('sessionToken')
+  // Browsers send the header when EventSource reconnects by itself; the hook passes
+  // it as a parameter when it opens a new EventSource
+  const lastEventIdParam = request.headers.get('last-event-id') || searchParams.get('lastEventId')
+  const lastEventId = lastEventIdParam ? Number(lastEventIdParam) : null
 
   if (!roomId) {
     return new Response(JSON.stringify({ error: 'Missing roomId parameter' }), {
@@ -68,6 +243,7 @@ export async function GET(request: NextRequest) {
 
   const encoder = new TextEncoder()
   const connectionId = `conn_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+  const authenticated = !!address && !!sessionToken && verifyRoomSessionToken(sessionToken, roomId, address)
   
   console.log(`[SSE] New connection attempt for room: ${roomId}, connectionId: ${connectionId}`)
 
@@ -81,12 +257,14 @@ export async function GET(request: NextRequest) {
         roomSubscriptions.set(roomId, new Set())
       }
 
-      const connectionData = { 
+      const connectionData: RoomConnection = { 
         writer: controller, 
         encoder,
         connectionId,
         connectedAt: Date.now(),
-        lastActivity: Date.now()
+        lastActivity: Date.now(),
+        address,
+        authenticated
       }
       roomSubscriptions.get(roomId)!.add(connectionData)
 
@@ -95,10 +273,41 @@ export async function GET(request: NextRequest) {
         type: 'connected',
         roomId,
         connectionId,
+        authenticated,
         message: 'SSE connected to room',
         timestamp: Date.now()
       })}\n\n`))
 
+      // Replay the room's chat so a reconnecting client doesn't lose the conversation
+      controller.enqueue(encoder.encode(`data: ${JSON.stringify({
+        type: 'chat_history',
+        roomId,
+        chatMessages: roomChat.getHistory(roomId),
+        timestamp: Date.now()
+      })}\n\n`))
+
+      // Catch a resuming client up on the room versions it missed while away
+      if (lastEventId !== null && Number.isInteger(lastEventId)) {
+        const missed = roomEvents.getMissedEvents(roomId, lastEventId)
+        const room = roomEngine.getRoom(roomId)
+        if (missed && missed.length > 0) {
+          console.log(`[SSE] Replaying ${missed.length} events after ${lastEventId} to connection: ${connectionId}`)
+          missed.forEach(({ id, message }) => {
+            controller.enqueue(encoder.encode(`id: ${id}\ndata: ${message}\n\n`))
+          })
+        } else if (room && (room.version || 0) > lastEventId) {
+          // Too far behind for the buffer, or this instance never sent those versions, but its room
+          // is newer than the client's copy: resync the client with the whole room
+          console.log(`[SSE] No replay after ${lastEventId} here, sending a snapshot to connection: ${connectionId}`)
+          controller.enqueue(encoder.encode(`id: ${room.version || 0}\ndata: ${JSON.stringify({
+            type: 'room_state_changed',
+            roomId,
+            data: room,
+            timestamp: Date.now()
+          })}\n\n`))
+        }
+      }
+
       // Send current room status if available (for faster initial sync)
       setTimeout(() => {
         try {
@@ -112,19 +321,13 @@ export async function GET(request: NextRequest) {
         } catch (error) {
           console.log(`[SSE] Connection closed before ready signal: ${connectionId}`)
         }
+        broadcastSpectatorCount(roomId)
       }, 100)
 
       // Clean up on close
       request.signal.addEventListener('abort', () => {
         console.log(`[SSE] Client disconnected from room: ${roomId}, connectionId: ${connectionId}`)
-        const connections = roomSubscriptions.get(roomId)
-        if (connections) {
-          connections.delete(connectionData)
-          if (connections.size === 0) {
-            roomSubscriptions.delete(roomId)
-            console.log(`[SSE] Removed empty room subscriptions for room: ${roomId}`)
-          }
-        }
+        removeConnection(roomId, connectionData)
       })
     }
   })
@@ -141,8 +344,16 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: NextRequest) {
-  const body = await request.json()
-  const { roomId, roomData } = body
+  let body
+  try {
+    body = await request.json()
+  } catch (error) {
+    return new Response(JSON.stringify({ error: 'Request body is not valid JSON' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    })
+  }
+  const { roomId, roomData } = body || {}
 
   if (!roomId || !roomData) {
     return new Response(JSON.stringify({ error: 'Missing roomId or roomData' }), {
@@ -151,10 +362,30 @@ export async function POST(request: NextRequest) {
     })
   }
 
-  // Broadcast the room state change
-  broadcastRoomStateChange(roomId, roomData)
+  try {
+    // Clients can announce rooms and joins, but the board is owned by the room engine
+    const room = await roomEngine.syncRoom(roomId, roomData)
 
-  return new Response(JSON.stringify({ success: true }), {
-    headers: { 'Content-Type': 'application/json' }
-  })
+    // Broadcast the canonical room state
+    broadcastRoomStateChange(roomId, room)
+
+    return new Response(JSON.stringify({ success: true, room }), {
+      headers: { 'Content-Type': 'application/json' }
+    })
+  } catch (error) {
+    if (error instanceof RoomEngineError) {
+      // An outdated copy, which the client replaces with the room sent back, or a room the chain can't confirm yet
+      console.log(`[SSE] Rejected room update for room ${roomId}: ${error.message}`)
+      return new Response(JSON.stringify({ error: error.message, room: roomEngine.getRoom(roomId) }), {
+        status: error.status,
+        headers: { 'Content-Type': 'application/json' }
+      })
+    }
+
+    console.error(`[SSE] Failed to sync room ${roomId}:`, error)
+    return new Response(JSON.stringify({ error: 'Failed to sync room' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    })
+  }
 }
\ No newline at end of file
@@ -1,19 +1,56 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useRef } from "react"
 import { useParams, useRouter } from "next/navigation"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog"
 import { GameBoard } from "@/components/game-board"
+import { UltimateGameBoard } from "@/components/ultimate-game-board"
+import { GameClock } from "@/components/game-clock"
+import { SeriesScore } from "@/components/series-score"
+import { GameAnalysis } from "@/components/game-analysis"
+import { RoomChat } from "@/components/room-chat"
 import { WalletConnect } from "@/components/wallet-connect"
-import { ArrowLeft, Coins, Users, Clock, Loader2, Copy, Wifi, WifiOff } from "lucide-react"
+import { ArrowLeft, Coins, Users, Clock, Loader2, Copy, Wifi, WifiOff, Shield, Flag, XCircle, PlayCircle, Eye } from "lucide-react"
 import { simpleRoomManager } from "@/lib/simple-room-manager"
-import type { SimpleRoom } from "@/lib/simple-room-manager"
-import { useCurrentAccount, useSignAndExecuteTransaction } from "@mysten/dapp-kit"
+import {
+  getGameMoveLogs,
+  getPlayerSymbol,
+  isRoomInProgress,
+  isRoomOpen,
+  isRoomOver,
+  isUltimateRoom,
+  toGameState,
+  toUltimateGameState,
+} from "@/lib/room"
+import { isStaleRoom, type Room } from "@/lib/room"
+import type { ChatEmote } from "@/lib/room-chat"
+import { suiContract } from "@/lib/sui-integration"
+import { useCurrentAccount, useSignAndExecuteTransaction, useSignPersonalMessage } from "@mysten/dapp-kit"
 import { useWebSocketRoomSync } from "@/hooks/use-websocket-room"
 import Link from "next/link"
 
+const ROOM_STATUS_LABELS: Record<Room["gameState"], string> = {
+  waiting: "Aguardando",
+  ready: "Pronto para começar",
+  playing: "Em andamento",
+  finished: "Finalizado",
+  settled: "Liquidado",
+  cancelled: "Cancelada",
+}
+
 export default function GamePage() {
   const params = useParams()
   const router = useRouter()
@@ -21,12 +58,17 @@ export default function GamePage() {
   const roomId = params.roomId as string
   const currentAccount = useCurrentAccount()
   const { mutate: signAndExecuteTransaction } = useSignAndExecuteTransaction()
+  const { mutateAsync: signPersonalMessage } = useSignPersonalMessage()
 
-  const [room, setRoom] = useState<SimpleRoom | null>(null)
-  const [playerSymbol, setPlayerSymbol] = useState<"X" | "O">("X")
+  const [room, setRoom] = useState<Room | null>(null)
   const [finishingGame, setFinishingGame] = useState(false)
+  const handledSettlementRef = useRef<string | null>(null)
   const [loading, setLoading] = useState(true)
   const [copiedToClipboard, setCopiedToClipboard] = useState(false)
+  const [escrowBalance, setEscrowBalance] = useState<number | null>(null)
+  const [resigning, setResigning] = useState(false)
+  const [cancelling, setCancelling] = useState(false)
+  const [actionError, setActionError] = useState<string | null>(null)
 
   // WebSocket integration for real-time room sync
   const { 
@@ -35,71 +77,84 @@ export default function GamePage() {
     roomState: wsRoomState, 
     error: wsError,
     connectionId: wsConnectionId,
+    authenticated,
+    authenticate,
+    spectatorCount,
+    chatMessages,
+    transport,
+    presence,
+    pendingUpdates,
+    queueError,
+    submitMove,
     broadcastRoomUpdate 
-  } = useWebSocketRoomSync(roomId)
-
-  // Helper function to convert SimpleRoom to GameState
-  const createGameStateFromRoom = (room: SimpleRoom) => {
-    const moves = room.board.filter(cell => cell !== null).length
-    const currentPlayerSymbol = room.currentPlayer === room.players[0] ? "X" : "O"
-    
-    let winner: "X" | "O" | "draw" | null = null
-    if (room.winner) {
-      winner = room.winner === room.players[0] ? "X" : "O"
-    } else if (room.gameState === "finished" && !room.winner) {
-      winner = "draw"
-    }
-
-    return {
-      board: room.board,
-      currentPlayer: currentPlayerSymbol,
-      gameOver: room.gameState === "finished",
-      winner,
-      moves,
-    }
+  } = useWebSocketRoomSync(roomId, currentAccount?.address)
+
+  // Room states arrive from several sources and out of order; keep the newest version.
+  // A lookup that found nothing doesn't clear this room if another source delivered it.
+  const applyRoom = (incoming: Room | null) => {
+    setRoom((current) => {
+      if (!incoming) return current?.roomId === roomId ? current : null
+      return isStaleRoom(incoming, current) ? current : incoming
+    })
   }
 
   // Update room state when WebSocket receives updates
   useEffect(() => {
     if (wsRoomState && wsRoomState.roomId === roomId) {
       console.log("[v0] WebSocket room state update received:", wsRoomState)
-      setRoom(wsRoomState)
-      
-      // Update player symbol based on position in players array
-      const isPlayerX = wsRoomState.players[0] === currentAccount?.address
-      setPlayerSymbol(isPlayerX ? "X" : "O")
+      applyRoom(wsRoomState)
+      simpleRoomManager.syncRoomState(wsRoomState)
 
-      // Handle automatic game finishing when there's a winner
-      if (wsRoomState.gameState === "finished" && wsRoomState.winner && !finishingGame) {
+      // Handle automatic game finishing (win or draw)
+      if (wsRoomState.gameState === "finished" && !finishingGame) {
         handleGameFinish(wsRoomState)
       }
     }
   }, [wsRoomState, roomId, currentAccount, finishingGame])
 
+  // Without a wallet the room can still be watched as a spectator
   useEffect(() => {
-    if (!currentAccount?.address) {
-      console.log("[v0] No wallet address available, redirecting to home")
-      router.push("/")
-      return
-    }
-
-    console.log("[v0] Wallet address available, loading room:", currentAccount.address)
+    console.log("[v0] Loading room for:", currentAccount?.address || "spectator")
     loadRoom()
   }, [roomId, currentAccount?.address])
 
+  // Players only show as online once their wallet signed in to the room; ask once per visit
+  const askedToSignInRef = useRef(false)
+  const isPlayer = !!currentAccount && !!room?.players.includes(currentAccount.address)
+  useEffect(() => {
+    if (transport !== "websocket" || !isPlayer || !wsConnectionId || authenticated || askedToSignInRef.current) return
+
+    askedToSignInRef.current = true
+    authenticate(signPersonalMessage).then((error) => {
+      if (error) console.warn("[v0] Could not sign in to the room, showing as offline:", error)
+    })
+  }, [transport, isPlayer, wsConnectionId, authenticated, authenticate, signPersonalMessage])
+
+  // Read the stake actually locked in the Room object, refreshed when a player joins
+  const playerCount = room?.players.length
+  useEffect(() => {
+    if (!roomId) return
+
+    suiContract.getRoomInfo(roomId)
+      .then((roomInfo) => setEscrowBalance(roomInfo.escrowBalance))
+      .catch((error) => console.warn("[v0] Could not load room escrow:", error))
+  }, [roomId, playerCount])
+
   const loadRoom = async () => {
     setLoading(true)
     try {
       console.log("[v0] Loading room with WebSocket state - connected:", wsConnected, "ready:", wsConnectionReady, "connectionId:", wsConnectionId)
       
       // Try to get the room using room ID with blockchain fallback
-      const currentRoom = await simpleRoomManager.getOrLoadRoom(roomId)
+      let currentRoom = await simpleRoomManager.getOrLoadRoom(roomId)
+
+      // Spectators have no local copy of the game; the server holds the live board
+      if (!currentRoom || !currentAccount || !currentRoom.players.includes(currentAccount.address)) {
+        currentRoom = (await simpleRoomManager.fetchRoom(roomId)) || currentRoom
+      }
       
       if (currentRoom) {
-        setRoom(currentRoom)
-        // Determine player symbol based on position in players array
-        const isPlayerX = currentRoom.players[0] === currentAccount?.address
-        setPlayerSymbol(isPlayerX ? "X" : "O")
+        applyRoom(currentRoom)
         console.log("[v0] Room loaded successfully")
         
         // If current player is not in the room but room exists, they might need to join
@@ -131,7 +186,7 @@ export default function GamePage() {
           // Use enterRoom to ensure proper state synchronization
           const syncedRoom = await simpleRoomManager.enterRoom(roomId, currentAccount.address)
           if (syncedRoom) {
-            setRoom(syncedRoom)
+            applyRoom(syncedRoom)
             console.log("[v0] Room state synchronized successfully", connectionReady ? "(with WebSocket)" : "(without WebSocket)")
           } else {
             console.warn("[v0] Failed to synchronize room state")
@@ -140,16 +195,16 @@ export default function GamePage() {
       } else {
         // Room not found locally or on blockchain
         console.log("[v0] Room not found anywhere for room ID:", roomId)
-        setRoom(null)
+        applyRoom(null)
       }
 
       // Subscribe to room updates
       const unsubscribe = simpleRoomManager.subscribeToRoom(roomId, (updatedRoom) => {
         console.log("[v0] Room updated via subscription:", updatedRoom)
-        setRoom(updatedRoom)
+        applyRoom(updatedRoom)
 
-        // Handle automatic game finishing when there's a winner
-        if (updatedRoom.gameState === "finished" && updatedRoom.winner && !finishingGame) {
+        // Handle automatic game finishing (win or draw)
+        if (updatedRoom.gameState === "finished" && !finishingGame) {
           handleGameFinish(updatedRoom)
         }
       })
@@ -169,16 +224,29 @@ export default function GamePage() {
     })
   }
 
-  const handleGameFinish = async (gameRoom: SimpleRoom) => {
-    if (!currentAccount || !gameRoom.winner) return
+  const handleGameFinish = async (gameRoom: Room, retry = false) => {
+    // Only the players settle a game; spectators just watch the result arrive
+    if (!currentAccount || !gameRoom.players.includes(currentAccount.address)) return
 
-    setFinishingGame(true)
-    try {
-      console.log("[v0] Finishing game and distributing prize...")
+    // Only pending settlements are started automatically; failed ones wait for an explicit retry
+    const settlement = gameRoom.settlement
+    if (settlement?.status === "confirmed") return
+    if (!retry && settlement && settlement.status !== "pending") return
 
-      await simpleRoomManager.finishGame(roomId, gameRoom.winner, signAndExecuteTransaction)
+    const settlementKey = `${settlement?.status}:${settlement?.attempts ?? 0}`
+    if (!retry && handledSettlementRef.current === settlementKey) return
+    handledSettlementRef.current = settlementKey
 
-      console.log("[v0] Prize distributed successfully!")
+    setFinishingGame(true)
+    try {
+      console.log(gameRoom.winner ? "[v0] Finishing game and distributing prize..." : "[v0] Finishing drawn game and refunding stakes...")
+
+      await simpleRoomManager.finishGame(
+        roomId,
+        currentAccount.address,
+        signAndExecuteTransaction,
+        signPersonalMessage,
+      )
     } catch (error) {
       console.error("[v0] Failed to finish game:", error)
     } finally {
@@ -186,13 +254,13 @@ export default function GamePage() {
     }
   }
 
-  const handleMove = (position: number) => {
-    if (!room || !currentAccount) return
+  const handleMove = async (position: number, mark?: "X" | "O" | null) => {
+    if (!room || !currentAccount || !room.players.includes(currentAccount.address)) return
 
     console.log("[v0] Making move at position:", position)
 
     // Validate move before attempting
-    if (room.gameState !== "playing") {
+    if (!isRoomInProgress(room)) {
       console.log("[v0] Cannot move: Game is not in playing state")
       return
     }
@@ -207,13 +275,68 @@ export default function GamePage() {
       return
     }
 
-    const updatedRoom = simpleRoomManager.makeMove(roomId, position, currentAccount.address)
+    const updatedRoom = await simpleRoomManager.makeMove(
+      roomId,
+      position,
+      currentAccount.address,
+      signPersonalMessage,
+      mark || undefined,
+      submitMove,
+    )
     if (updatedRoom) {
-      setRoom(updatedRoom)
+      applyRoom(updatedRoom)
       console.log("[v0] Move successful, room updated")
-      // The room manager will automatically broadcast the update via WebSocket
+      // The server validated the move and broadcast the new state via SSE
     } else {
-      console.warn("[v0] Move failed - room manager returned null")
+      console.warn("[v0] Move failed or queued - rejected by server or waiting for the connection")
+    }
+  }
+
+  // Returns the reason the message was refused, for the chat box to show
+  const handleSendChat = async (content: { text?: string; emote?: ChatEmote }) => {
+    if (!currentAccount || !wsConnectionId) return "Chat não conectado"
+
+    // The first message on a connection asks the wallet to confirm it's really this player
+    if (!authenticated) {
+      const error = await authenticate(signPersonalMessage)
+      if (error) return error
+    }
+
+    const { error } = await simpleRoomManager.sendChatMessage(roomId, currentAccount.address, wsConnectionId, content)
+    return error
+  }
+
+  const handleResign = async () => {
+    if (!room || !currentAccount) return
+
+    setResigning(true)
+    setActionError(null)
+    try {
+      const updatedRoom = await simpleRoomManager.resign(roomId, currentAccount.address, signPersonalMessage)
+      if (updatedRoom) {
+        applyRoom(updatedRoom)
+      } else {
+        setActionError("Não foi possível desistir da partida.")
+      }
+    } finally {
+      setResigning(false)
+    }
+  }
+
+  const handleCancelRoom = async () => {
+    if (!room || !currentAccount) return
+
+    setCancelling(true)
+    setActionError(null)
+    try {
+      const updatedRoom = await simpleRoomManager.cancelRoom(roomId, currentAccount.address, signAndExecuteTransaction)
+      if (updatedRoom) {
+        applyRoom(updatedRoom)
+      } else {
+        setActionError("Não foi possível cancelar a sala.")
+      }
+    } finally {
+      setCancelling(false)
     }
   }
 
@@ -254,15 +377,23 @@ export default function GamePage() {
     )
   }
 
-  const isWaitingForPlayer = room.gameState === "waiting"
-  const isGameOver = room.gameState === "finished"
+  const isWaitingForPlayer = isRoomOpen(room)
+  const isCancelled = room.gameState === "cancelled"
+  const isGameOver = isRoomOver(room)
   const walletAddress = currentAccount?.address
   const isWinner = room.winner === walletAddress
-  const isDraw = room.winner === null && isGameOver
+  const isDraw = !room.winner && isGameOver
+  const settledOutcome = room.history?.[room.history.length - 1]
+  const settlement = room.settlement
   
   // Check if current user is in the room
   const isPlayerInRoom = room.players.includes(walletAddress || "")
   const hasSecondPlayer = room.players.length === 2
+  const isCreator = room.creator === walletAddress
+  // Anyone else looking at a game that already started is watching it
+  const isSpectator = !isPlayerInRoom && !isWaitingForPlayer
+  // Players swap X and O between the games of a series
+  const playerSymbol = getPlayerSymbol(room, walletAddress || "") || "O"
 
   return (
     <main className="min-h-screen bg-background p-4">
@@ -280,13 +411,21 @@ export default function GamePage() {
               ({roomId.slice(0, 8)}...{roomId.slice(-4)})
             </span>
           </h1>
+
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Eye className="w-4 h-4" />
+            <span>{spectatorCount} {spectatorCount === 1 ? "espectador" : "espectadores"}</span>
+            {isSpectator && <Badge variant="secondary">Assistindo</Badge>}
+          </div>
           
           {/* Real-time connection status */}
           <div className="flex items-center gap-2 text-sm">
             {wsConnected && wsConnectionReady ? (
               <>
                 <Wifi className="w-4 h-4 text-green-500" />
-                <span className="text-green-600">Conectado em tempo real</span>
+                <span className="text-green-600">
+                  Conectado em tempo real{transport === "websocket" ? " (WebSocket)" : ""}
+                </span>
                 {wsConnectionId && (
                   <span className="text-xs text-muted-foreground">({wsConnectionId.slice(-6)})</span>
                 )}
@@ -305,12 +444,33 @@ export default function GamePage() {
             {wsError && (
               <span className="text-red-600 text-xs">({wsError})</span>
             )}
+            {pendingUpdates > 0 && (
+              <Badge variant="outline" className="text-xs border-yellow-500 text-yellow-600">
+                Sincronização pendente ({pendingUpdates})
+              </Badge>
+            )}
+            {queueError && (
+              <span className="text-red-600 text-xs">({queueError})</span>
+            )}
           </div>
         </div>
 
         <div className="grid lg:grid-cols-3 gap-6">
           <div className="lg:col-span-2">
-            {!isPlayerInRoom ? (
+            {isCancelled ? (
+              <Card>
+                <CardContent className="p-8 text-center">
+                  <XCircle className="w-16 h-16 mx-auto mb-4 text-muted-foreground" />
+                  <h3 className="text-xl font-semibold mb-2">Sala Cancelada</h3>
+                  <p className="text-muted-foreground mb-4">
+                    O criador cancelou a sala antes de alguém entrar. A aposta de {room.betAmount} SUI foi devolvida.
+                  </p>
+                  <Button onClick={() => router.push("/")}>
+                    Voltar ao Lobby
+                  </Button>
+                </CardContent>
+              </Card>
+            ) : !isPlayerInRoom && isWaitingForPlayer ? (
               <Card>
                 <CardContent className="p-8 text-center">
                   <Users className="w-16 h-16 mx-auto mb-4 text-muted-foreground" />
@@ -323,10 +483,10 @@ export default function GamePage() {
                     <p className="text-sm font-semibold mb-2">Informações da Sala:</p>
                     <p className="text-sm">Valor da Aposta: {room.betAmount} SUI</p>
                     <p className="text-sm">Jogadores: {room.players.length}/2</p>
-                    <p className="text-sm">Status: {room.gameState === "waiting" ? "Aguardando" : room.gameState === "playing" ? "Em andamento" : "Finalizado"}</p>
+                    <p className="text-sm">Status: {ROOM_STATUS_LABELS[room.gameState]}</p>
                   </div>
                   
-                  {room.gameState === "waiting" && room.players.length < 2 && (
+                  {isWaitingForPlayer && room.players.length < 2 && (
                     <Button 
                       onClick={() => {
                         // Navigate back to home to join via the join interface
@@ -376,6 +536,29 @@ export default function GamePage() {
                           Os jogadores usam este código para entrar na sua sala.
                         </p>
                       </div>
+
+                      {isCreator && (
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="outline" disabled={cancelling}>
+                              {cancelling ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <XCircle className="w-4 h-4 mr-2" />}
+                              Cancelar sala
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Cancelar esta sala?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                A sala será fechada e sua aposta de {room.betAmount} SUI será devolvida pela blockchain.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Voltar</AlertDialogCancel>
+                              <AlertDialogAction onClick={handleCancelRoom}>Cancelar sala</AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      )}
                     </>
                   ) : (
                     <>
@@ -404,9 +587,11 @@ export default function GamePage() {
                             ? 'text-green-600' 
                             : 'text-gray-600'
                         }`}>
-                          {room.currentPlayer === currentAccount?.address 
-                            ? `Sua vez (${playerSymbol})` 
-                            : `Vez do oponente (${playerSymbol === 'X' ? 'O' : 'X'})`
+                          {isSpectator
+                            ? `Vez do ${getPlayerSymbol(room, room.currentPlayer)}`
+                            : room.currentPlayer === currentAccount?.address 
+                              ? `Sua vez (${playerSymbol})` 
+                              : `Vez do oponente (${playerSymbol === 'X' ? 'O' : 'X'})`
                           }
                         </span>
                       </div>
@@ -414,54 +599,202 @@ export default function GamePage() {
                   </Card>
                 )}
                 
-                <GameBoard
-                  gameState={createGameStateFromRoom(room)}
-                  onMove={handleMove}
-                  playerSymbol={playerSymbol}
+                <SeriesScore room={room} playerAddress={walletAddress} />
+
+                <GameClock
+                  room={room}
+                  playerAddress={currentAccount?.address}
+                  onExpire={() => simpleRoomManager.checkClock(roomId)}
                 />
+
+                {isUltimateRoom(room) ? (
+                  <UltimateGameBoard
+                    gameState={toUltimateGameState(room)}
+                    onMove={handleMove}
+                    playerSymbol={isSpectator ? null : playerSymbol}
+                    disabled={isSpectator}
+                  />
+                ) : (
+                  <GameBoard
+                    gameState={toGameState(room)}
+                    onMove={handleMove}
+                    playerSymbol={isSpectator ? null : playerSymbol}
+                    disabled={isSpectator}
+                  />
+                )}
+
+                {isRoomInProgress(room) && !isSpectator && (
+                  <div className="flex justify-center mt-4">
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="outline" disabled={resigning}>
+                          {resigning ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Flag className="w-4 h-4 mr-2" />}
+                          Desistir
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Desistir da partida?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            O adversário vence e recebe o prêmio de {room.betAmount * 2} SUI.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Continuar jogando</AlertDialogCancel>
+                          <AlertDialogAction onClick={handleResign}>Desistir</AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                )}
               </>
             )}
 
+            {actionError && (
+              <p className="text-sm text-destructive text-center mt-4">{actionError}</p>
+            )}
+
             {isGameOver && !isWaitingForPlayer && (
               <Card className="mt-6">
                 <CardContent className="p-6 text-center">
                   <div
                     className={`text-2xl font-bold mb-4 ${
-                      isDraw
+                      isDraw || isSpectator
                         ? "text-muted-foreground"
                         : isWinner
                           ? "text-accent winner-celebration"
                           : "text-destructive"
                     }`}
                   >
-                    {isDraw ? "Empate!" : isWinner ? "Você Ganhou!" : "Você Perdeu!"}
+                    {isDraw
+                      ? "Empate!"
+                      : isSpectator
+                        ? `Vencedor: ${room.winner?.slice(0, 6)}...${room.winner?.slice(-4)}`
+                        : isWinner
+                          ? "Você Ganhou!"
+                          : "Você Perdeu!"}
                   </div>
 
-                  {!isDraw && (
+                  {room.bestOf && room.bestOf > 1 && (
+                    <p className="text-sm text-muted-foreground mb-4">
+                      Série melhor de {room.bestOf} decidida em {room.games?.length || 0} jogos.
+                    </p>
+                  )}
+
+                  {room.forfeit && (
+                    <p className="text-sm text-muted-foreground mb-4">
+                      {isSpectator
+                        ? `${room.forfeit.player.slice(0, 6)}...${room.forfeit.player.slice(-4)} ${
+                            room.forfeit.reason === "resign" ? "desistiu da partida." : "ficou sem tempo."
+                          }`
+                        : room.forfeit.reason === "resign"
+                        ? room.forfeit.player === walletAddress
+                          ? "Você desistiu da partida."
+                          : "O adversário desistiu da partida."
+                        : `${room.forfeit.player === walletAddress ? "Seu tempo esgotou" : "O tempo do adversário esgotou"}${
+                            room.forfeit.reason === "move-timeout" ? " nesta jogada." : " na partida."
+                          }`}
+                    </p>
+                  )}
+
+                  {!isDraw && !isSpectator && (
                     <div className="flex items-center justify-center gap-2 mb-4">
                       <Coins className="w-5 h-5 text-accent" />
                       <span className="text-lg">Prêmio: {isWinner ? room.betAmount * 2 : 0} SUI</span>
                     </div>
                   )}
 
+                  {isDraw && (
+                    <div className="flex flex-col items-center justify-center gap-1 mb-4">
+                      <div className="flex items-center gap-2">
+                        <Coins className="w-5 h-5 text-accent" />
+                        <span className="text-lg">Reembolso: {room.betAmount} SUI</span>
+                      </div>
+                      {settledOutcome?.payout === "refund" && (
+                        <span className="text-sm text-muted-foreground">
+                          As apostas dos dois jogadores foram devolvidas.
+                        </span>
+                      )}
+                    </div>
+                  )}
+
                   {finishingGame && (
                     <div className="flex items-center justify-center gap-2 mb-4">
                       <Loader2 className="w-4 h-4 animate-spin" />
-                      <span className="text-sm">Distribuindo prêmio na blockchain SUI...</span>
+                      <span className="text-sm">
+                        {isDraw ? "Devolvendo apostas na blockchain SUI..." : "Distribuindo prêmio na blockchain SUI..."}
+                      </span>
                     </div>
                   )}
 
+                  {!finishingGame && settlement && settlement.status !== "confirmed" && (
+                    <div className="flex items-center justify-center gap-2 mb-4">
+                      {settlement.status !== "failed" && <Loader2 className="w-4 h-4 animate-spin" />}
+                      <span className="text-sm">
+                        {settlement.status === "pending"
+                          ? "Aguardando liquidação..."
+                          : settlement.status === "submitted"
+                            ? "Aguardando confirmação da transação..."
+                            : "A liquidação falhou."}
+                      </span>
+                    </div>
+                  )}
+
+                  {settlement?.transactionDigest && !settledOutcome?.transactionDigest && (
+                    <p className="text-xs text-muted-foreground mb-4 break-all">
+                      Transação enviada: {settlement.transactionDigest}
+                    </p>
+                  )}
+
+                  {settledOutcome?.transactionDigest && (
+                    <p className="text-xs text-muted-foreground mb-4 break-all">
+                      Transação: {settledOutcome.transactionDigest}
+                    </p>
+                  )}
+
+                  {settlement?.status === "failed" && !finishingGame && !isSpectator && (
+                    <Button variant="outline" onClick={() => handleGameFinish(room, true)} className="w-full mb-2">
+                      Tentar novamente
+                    </Button>
+                  )}
+
+                  <Link href={`/replay/${roomId}`}>
+                    <Button variant="outline" className="w-full mb-2">
+                      <PlayCircle className="w-4 h-4 mr-2" />
+                      Ver replay
+                    </Button>
+                  </Link>
+
                   <Button onClick={() => router.push("/")} className="w-full">
                     Voltar ao Lobby
                   </Button>
                 </CardContent>
               </Card>
             )}
+
+            {/* Review of the last game; only classic-sized boards can be solved */}
+            {isGameOver && !isUltimateRoom(room) && (
+              <GameAnalysis
+                key={`${room.roomId}:${room.moveLog.length}`}
+                moves={getGameMoveLogs(room).slice(-1)[0] || []}
+                variant={room.variant}
+                rules={room.rules}
+                playerSymbol={isSpectator ? undefined : playerSymbol}
+              />
+            )}
           </div>
 
           <div className="space-y-6">
             <WalletConnect />
 
+            {!isCancelled && (
+              <RoomChat
+                messages={chatMessages}
+                playerAddress={walletAddress}
+                onSend={isPlayerInRoom ? handleSendChat : undefined}
+              />
+            )}
+
             <Card>
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
@@ -488,12 +821,27 @@ export default function GamePage() {
                   <span>Prêmio Total: {room.betAmount * 2} SUI</span>
                 </div>
 
+                <div className="flex items-center gap-2">
+                  <Shield className="w-4 h-4 text-muted-foreground" />
+                  <span>
+                    Em custódia: {escrowBalance !== null ? `${escrowBalance} SUI` : "consultando..."}
+                  </span>
+                </div>
+
                 <div className="space-y-2">
                   <p className="text-sm font-semibold">Jogadores:</p>
-                  {room.players.map((playerAddress, index) => (
+                  {room.players.map((playerAddress) => (
                     <div key={playerAddress} className="flex items-center justify-between text-sm">
-                      <span className={index === 0 ? "text-primary" : "text-accent"}>
-                        {index === 0 ? "X" : "O"}: {playerAddress.slice(0, 8)}...{playerAddress.slice(-4)}
+                      <span className={getPlayerSymbol(room, playerAddress) === "X" ? "text-primary" : "text-accent"}>
+                        {presence && (
+                          <span
+                            className={`inline-block w-2 h-2 rounded-full mr-2 ${
+                              presence.includes(playerAddress) ? "bg-green-500" : "bg-gray-400"
+                            }`}
+                            title={presence.includes(playerAddress) ? "Online" : "Offline"}
+                          />
+                        )}
+                        {getPlayerSymbol(room, playerAddress)}: {playerAddress.slice(0, 8)}...{playerAddress.slice(-4)}
                       </span>
                       {playerAddress === walletAddress && (
                         <Badge variant="outline" className="text-xs">
@@ -513,12 +861,14 @@ export default function GamePage() {
                 </div>
 
                 <div className="pt-2 border-t">
-                  <Badge variant={room.gameState === "playing" ? "default" : "secondary"}>
-                    {room.gameState === "waiting"
+                  <Badge variant={isRoomInProgress(room) ? "default" : "secondary"}>
+                    {isWaitingForPlayer
                       ? "Aguardando Jogadores"
-                      : room.gameState === "playing"
+                      : isRoomInProgress(room)
                         ? "Jogo Ativo"
-                        : "Jogo Finalizado"}
+                        : isCancelled
+                          ? "Sala Cancelada"
+                          : "Jogo Finalizado"}
                   </Badge>
                 </div>
               </CardContent>
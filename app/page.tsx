@@ -7,28 +7,62 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Checkbox } from "@/components/ui/checkbox"
 import { WalletConnect } from "@/components/wallet-connect"
-import { Plus, Users, Coins, Trophy, Shield, Loader2, AlertTriangle, Copy } from "lucide-react"
+import { LiveGames } from "@/components/live-games"
+import { Plus, Users, Coins, Trophy, Shield, Loader2, AlertTriangle, Copy, Bot } from "lucide-react"
 import { simpleRoomManager } from "@/lib/simple-room-manager"
+import { suiContract } from "@/lib/sui-integration"
+import { isRoomOpen, SERIES_LENGTHS, TIME_CONTROLS } from "@/lib/room"
+import type { Room, SeriesLength, TimeControlName } from "@/lib/room"
+import { BOARD_VARIANTS, GAME_RULES, isClassicBoard } from "@/lib/game-logic"
+import type { BoardVariantName } from "@/lib/game-logic"
+import type { GameRule } from "@/types/game"
+import type { RoomSortOrder } from "@/lib/room-indexer"
 import Link from "next/link"
 import { useRouter } from "next/navigation"
-import { useCurrentAccount, useSignAndExecuteTransaction } from "@mysten/dapp-kit"
+import { useCurrentAccount, useSignAndExecuteTransaction, useSignPersonalMessage } from "@mysten/dapp-kit"
+
+const RULE_OPTIONS: Record<GameRule, { label: string; description: string; lobbyLabel: string }> = {
+  misere: { label: "Misère", description: "Completing a line loses", lobbyLabel: "Misère" },
+  wild: { label: "Wild", description: "Each move may place X or O", lobbyLabel: "Selvagem" },
+  "random-first-player": {
+    label: "Random first player",
+    description: "Who opens is drawn at random",
+    lobbyLabel: "Início aleatório",
+  },
+}
 
 export default function HomePage() {
   const router = useRouter()
   const currentAccount = useCurrentAccount()
   const { mutate: signAndExecuteTransaction } = useSignAndExecuteTransaction()
+  const { mutateAsync: signPersonalMessage } = useSignPersonalMessage()
   const [newRoomBet, setNewRoomBet] = useState("0.1")
+  const [newRoomTimeControl, setNewRoomTimeControl] = useState<TimeControlName>("standard")
+  const [newRoomBestOf, setNewRoomBestOf] = useState<SeriesLength>(1)
+  const [newRoomRules, setNewRoomRules] = useState<GameRule[]>([])
+  // A board variant, or "ultimate" for the Ultimate TicTacToe game type
+  const [newRoomVariant, setNewRoomVariant] = useState<BoardVariantName | "ultimate">("classic")
   const [joinRoomId, setJoinRoomId] = useState("")
-  const [joinBetAmount, setJoinBetAmount] = useState("0.1")
+  const [joinRoomStake, setJoinRoomStake] = useState<number | null>(null)
+  const [loadingStake, setLoadingStake] = useState(false)
   const [creatingRoom, setCreatingRoom] = useState(false)
   const [joiningRoom, setJoiningRoom] = useState(false)
   const [createdRoomId, setCreatedRoomId] = useState<string | null>(null)
   const [showRoomDialog, setShowRoomDialog] = useState(false)
   const [isContractConfigured, setIsContractConfigured] = useState(true)
   const [copiedRoomId, setCopiedRoomId] = useState(false)
-  const [availableRooms, setAvailableRooms] = useState<any[]>([])
+  const [availableRooms, setAvailableRooms] = useState<Room[]>([])
   const [loadingRooms, setLoadingRooms] = useState(false)
+  const [roomsPage, setRoomsPage] = useState(1)
+  const [roomsTotal, setRoomsTotal] = useState(0)
+  const [roomsHasMore, setRoomsHasMore] = useState(false)
+  const [minBetFilter, setMinBetFilter] = useState("")
+  const [maxBetFilter, setMaxBetFilter] = useState("")
+  const [roomSort, setRoomSort] = useState<RoomSortOrder>("newest")
+  const [ruleFilter, setRuleFilter] = useState<GameRule | "classic" | "all">("all")
 
   const copyRoomId = (roomId: string) => {
     navigator.clipboard.writeText(roomId).then(() => {
@@ -52,9 +86,17 @@ export default function HomePage() {
     
     setLoadingRooms(true)
     try {
-      const rooms = await simpleRoomManager.listAvailableRooms(currentAccount.address)
-      setAvailableRooms(rooms.filter(room => room.gameState === "waiting")) // Only show waiting rooms
-      console.log("[v0] Loaded available rooms:", rooms)
+      const result = await simpleRoomManager.listAvailableRooms(currentAccount.address, {
+        page: roomsPage,
+        minBet: minBetFilter ? Number.parseFloat(minBetFilter) : undefined,
+        maxBet: maxBetFilter ? Number.parseFloat(maxBetFilter) : undefined,
+        rule: ruleFilter === "all" ? undefined : ruleFilter,
+        sort: roomSort,
+      })
+      setAvailableRooms(result.rooms)
+      setRoomsTotal(result.total)
+      setRoomsHasMore(result.hasMore)
+      console.log("[v0] Loaded available rooms:", result)
     } catch (error) {
       console.error("[v0] Failed to load available rooms:", error)
       
@@ -98,7 +140,36 @@ export default function HomePage() {
       setAvailableRooms([])
       setLoadingRooms(false)
     }
-  }, [currentAccount?.address])
+  }, [currentAccount?.address, roomsPage, minBetFilter, maxBetFilter, ruleFilter, roomSort])
+
+  // Go back to the first page whenever the filters change
+  useEffect(() => {
+    setRoomsPage(1)
+  }, [minBetFilter, maxBetFilter, ruleFilter, roomSort])
+
+  // Look up the on-chain stake of the room being joined
+  useEffect(() => {
+    const roomId = joinRoomId.trim()
+    setJoinRoomStake(null)
+    if (!roomId.startsWith("0x") || roomId.length < 10) return
+
+    let cancelled = false
+    setLoadingStake(true)
+    suiContract.getRoomInfo(roomId)
+      .then((roomInfo) => {
+        if (!cancelled) setJoinRoomStake(roomInfo.betAmount)
+      })
+      .catch((error) => {
+        console.warn("[v0] Could not load room stake:", error)
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingStake(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [joinRoomId])
 
   // Refresh rooms periodically when wallet is connected
   useEffect(() => {
@@ -111,7 +182,7 @@ export default function HomePage() {
     }, 30000) // Refresh every 30 seconds
     
     return () => clearInterval(interval)
-  }, [currentAccount?.address])
+  }, [currentAccount?.address, roomsPage, minBetFilter, maxBetFilter, ruleFilter, roomSort])
 
   const createRoom = async () => {
     if (!newRoomBet || !currentAccount) return
@@ -127,6 +198,15 @@ export default function HomePage() {
         currentAccount.address,
         betAmount,
         signAndExecuteTransaction,
+        signPersonalMessage,
+        newRoomVariant === "ultimate"
+          ? { timeControl: TIME_CONTROLS[newRoomTimeControl], bestOf: newRoomBestOf, gameType: "ultimate", rules: newRoomRules }
+          : {
+              timeControl: TIME_CONTROLS[newRoomTimeControl],
+              bestOf: newRoomBestOf,
+              variant: BOARD_VARIANTS[newRoomVariant],
+              rules: newRoomRules,
+            },
       )
       
       // Show room ID dialog for sharing
@@ -148,13 +228,7 @@ export default function HomePage() {
   }
 
   const joinRoom = async () => {
-    if (!joinRoomId.trim() || !currentAccount || !joinBetAmount) return
-
-    const betAmount = Number.parseFloat(joinBetAmount)
-    if (betAmount <= 0) {
-      alert("Bet amount must be greater than 0")
-      return
-    }
+    if (!joinRoomId.trim() || !currentAccount) return
 
     setJoiningRoom(true)
     try {
@@ -163,12 +237,10 @@ export default function HomePage() {
       const room = await simpleRoomManager.joinRoom(
         joinRoomId.trim(),
         currentAccount.address,
-        betAmount,
         signAndExecuteTransaction
       )
       
       setJoinRoomId("")
-      setJoinBetAmount("0.1")
 
       console.log("[v0] Joined room successfully, redirecting...")
       router.push(`/game/${joinRoomId.trim()}`)
@@ -197,12 +269,6 @@ export default function HomePage() {
   }
 
   const joinAvailableRoom = async (roomId: string) => {
-    const betAmount = Number.parseFloat(joinBetAmount)
-    if (betAmount <= 0) {
-      alert("Please set a valid bet amount first")
-      return
-    }
-
     setJoiningRoom(true)
     try {
       console.log("[v0] Joining available room:", roomId)
@@ -210,7 +276,6 @@ export default function HomePage() {
       await simpleRoomManager.joinRoom(
         roomId,
         currentAccount!.address,
-        betAmount,
         signAndExecuteTransaction
       )
 
@@ -243,11 +308,19 @@ export default function HomePage() {
                 Mint Free OG NFT
               </Button>
             </Link>
+            <Link href="/practice">
+              <Button variant="outline" className="flex items-center gap-2">
+                <Bot className="w-4 h-4" />
+                Practice vs AI (free)
+              </Button>
+            </Link>
           </div>
 
           <div className="text-center py-8 text-muted-foreground">
             <p>Connect your wallet to create or join rooms</p>
           </div>
+
+          <LiveGames />
         </div>
       </main>
     )
@@ -268,6 +341,12 @@ export default function HomePage() {
                 Mint Free OG NFT
               </Button>
             </Link>
+            <Link href="/practice">
+              <Button variant="outline" className="flex items-center gap-2">
+                <Bot className="w-4 h-4" />
+                Practice vs AI (free)
+              </Button>
+            </Link>
           </div>
 
           {!isContractConfigured && (
@@ -305,6 +384,84 @@ export default function HomePage() {
                   disabled={creatingRoom}
                 />
               </div>
+              <div>
+                <Label>Turn Timer</Label>
+                <Select
+                  value={newRoomTimeControl}
+                  onValueChange={(value) => setNewRoomTimeControl(value as TimeControlName)}
+                  disabled={creatingRoom}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="blitz">15s per move • 2 min total</SelectItem>
+                    <SelectItem value="standard">30s per move • 5 min total</SelectItem>
+                    <SelectItem value="relaxed">60s per move • 10 min total</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Board</Label>
+                <Select
+                  value={newRoomVariant}
+                  onValueChange={(value) => setNewRoomVariant(value as BoardVariantName | "ultimate")}
+                  disabled={creatingRoom}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="classic">Classic 3×3 • 3 in a row</SelectItem>
+                    <SelectItem value="4x4">4×4 • 4 in a row</SelectItem>
+                    <SelectItem value="5x5">5×5 • 4 in a row</SelectItem>
+                    <SelectItem value="7x7">7×7 • 5 in a row (Gomoku-style)</SelectItem>
+                    <SelectItem value="ultimate">Ultimate TicTacToe • 9 sub-boards</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Match Length</Label>
+                <Select
+                  value={String(newRoomBestOf)}
+                  onValueChange={(value) => setNewRoomBestOf(Number(value) as SeriesLength)}
+                  disabled={creatingRoom}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SERIES_LENGTHS.map((length) => (
+                      <SelectItem key={length} value={String(length)}>
+                        {length === 1 ? "Single game" : `Best of ${length}`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Rules</Label>
+                {GAME_RULES.map((rule) => {
+                  // Ultimate keeps its own win condition, so only the opening rule applies
+                  const unavailable = newRoomVariant === "ultimate" && rule !== "random-first-player"
+                  return (
+                    <div key={rule} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`rule-${rule}`}
+                        checked={newRoomRules.includes(rule) && !unavailable}
+                        onCheckedChange={(checked) =>
+                          setNewRoomRules((rules) => (checked ? [...rules, rule] : rules.filter((r) => r !== rule)))
+                        }
+                        disabled={creatingRoom || unavailable}
+                      />
+                      <Label htmlFor={`rule-${rule}`} className="font-normal">
+                        {RULE_OPTIONS[rule].label}
+                        <span className="text-muted-foreground"> • {RULE_OPTIONS[rule].description}</span>
+                      </Label>
+                    </div>
+                  )
+                })}
+              </div>
               <Button onClick={createRoom} className="w-full" disabled={creatingRoom || !isContractConfigured}>
                 {creatingRoom ? (
                   <>
@@ -350,20 +507,19 @@ export default function HomePage() {
                   Digite o ID da sala que você recebeu do criador
                 </p>
               </div>
-              <div>
-                <Label htmlFor="joinBetAmount">Your Bet Amount (SUI)</Label>
-                <Input
-                  id="joinBetAmount"
-                  type="number"
-                  value={joinBetAmount}
-                  onChange={(e) => setJoinBetAmount(e.target.value)}
-                  placeholder="0.1"
-                  min="0.01"
-                  step="0.01"
-                  disabled={joiningRoom}
-                />
-              </div>
-              <Button onClick={joinRoom} className="w-full" disabled={!joinRoomId.trim() || !joinBetAmount || joiningRoom || !isContractConfigured}>
+              {joinRoomId.trim() && (
+                <div className="flex items-center gap-2 text-sm bg-muted p-3 rounded-lg">
+                  <Coins className="w-4 h-4 text-accent" />
+                  {loadingStake ? (
+                    <span className="text-muted-foreground">Consultando aposta na blockchain...</span>
+                  ) : joinRoomStake !== null ? (
+                    <span>Aposta da sala: <strong>{joinRoomStake} SUI</strong> (valor travado em custódia)</span>
+                  ) : (
+                    <span className="text-muted-foreground">Sala não encontrada na blockchain</span>
+                  )}
+                </div>
+              )}
+              <Button onClick={joinRoom} className="w-full" disabled={!joinRoomId.trim() || joinRoomStake === null || joiningRoom || !isContractConfigured}>
                 {joiningRoom ? (
                   <>
                     <Loader2 className="w-4 h-4 mr-2 animate-spin" />
@@ -387,6 +543,8 @@ export default function HomePage() {
           </Card>
         </div>
 
+        <LiveGames />
+
         {/* Available Rooms Section */}
         <Card className="mb-8">
           <CardHeader>
@@ -398,7 +556,7 @@ export default function HomePage() {
               <Button 
                 variant="outline" 
                 size="sm" 
-                onClick={loadAvailableRooms}
+                onClick={() => loadAvailableRooms()}
                 disabled={loadingRooms}
               >
                 {loadingRooms ? (
@@ -410,6 +568,64 @@ export default function HomePage() {
             </CardTitle>
           </CardHeader>
           <CardContent>
+            <div className="grid grid-cols-4 gap-4 mb-4">
+              <div className="space-y-2">
+                <Label htmlFor="minBet">Aposta mínima (SUI)</Label>
+                <Input
+                  id="minBet"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={minBetFilter}
+                  onChange={(e) => setMinBetFilter(e.target.value)}
+                  placeholder="Qualquer"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="maxBet">Aposta máxima (SUI)</Label>
+                <Input
+                  id="maxBet"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={maxBetFilter}
+                  onChange={(e) => setMaxBetFilter(e.target.value)}
+                  placeholder="Qualquer"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Regras</Label>
+                <Select value={ruleFilter} onValueChange={(value) => setRuleFilter(value as GameRule | "classic" | "all")}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Todas</SelectItem>
+                    <SelectItem value="classic">Clássicas</SelectItem>
+                    {GAME_RULES.map((rule) => (
+                      <SelectItem key={rule} value={rule}>
+                        {RULE_OPTIONS[rule].lobbyLabel}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Ordenar por</Label>
+                <Select value={roomSort} onValueChange={(value) => setRoomSort(value as RoomSortOrder)}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="newest">Mais recentes</SelectItem>
+                    <SelectItem value="oldest">Mais antigas</SelectItem>
+                    <SelectItem value="bet-asc">Menor aposta</SelectItem>
+                    <SelectItem value="bet-desc">Maior aposta</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
             {loadingRooms ? (
               <div className="text-center py-8">
                 <Loader2 className="w-8 h-8 animate-spin mx-auto mb-2" />
@@ -422,19 +638,49 @@ export default function HomePage() {
                     <div className="space-y-1">
                       <p className="font-semibold">Sala criada por: {room.creator.slice(0, 6)}...{room.creator.slice(-4)}</p>
                       <p className="text-sm text-muted-foreground">
-                        Jogadores: {room.players.length}/2 • Estado: {room.gameState === "waiting" ? "Aguardando" : "Jogando"}
+                        Aposta: {room.betAmount} SUI • Jogadores: {room.players.length}/2 • Estado: {isRoomOpen(room) ? "Aguardando" : "Jogando"}
+                        {room.bestOf && room.bestOf > 1 ? ` • Melhor de ${room.bestOf}` : ""}
+                        {room.gameType === "ultimate" ? " • Ultimate" : ""}
+                        {room.rules?.map((rule) => ` • ${RULE_OPTIONS[rule].lobbyLabel}`).join("")}
+                        {room.variant && !isClassicBoard(room.variant)
+                          ? ` • Tabuleiro ${room.variant.width}×${room.variant.height} (${room.variant.k} em linha)`
+                          : ""}
                       </p>
                       <p className="text-xs text-muted-foreground">ID: {room.roomId.slice(0, 8)}...</p>
                     </div>
                     <Button 
                       onClick={() => joinAvailableRoom(room.roomId)}
-                      disabled={joiningRoom || room.gameState !== "waiting"}
+                      disabled={joiningRoom || !isRoomOpen(room)}
                       size="sm"
                     >
-                      {room.gameState === "waiting" ? "Entrar" : "Cheia"}
+                      {isRoomOpen(room) ? "Entrar" : "Cheia"}
                     </Button>
                   </div>
                 ))}
+
+                <div className="flex items-center justify-between pt-2">
+                  <span className="text-sm text-muted-foreground">
+                    Página {roomsPage} • {roomsTotal} {roomsTotal === 1 ? "sala aberta" : "salas abertas"}
+                  </span>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setRoomsPage((page) => page - 1)}
+                      disabled={loadingRooms || roomsPage <= 1}
+                    >
+                      Anterior
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setRoomsPage((page) => page + 1)}
+                      disabled={loadingRooms || !roomsHasMore}
+                    >
+                      Próxima
+                    </Button>
+                  </div>
+                </div>
               </div>
             ) : (
               <div className="text-center py-8 text-muted-foreground">
@@ -0,0 +1,244 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { GameBoard } from "@/components/game-board"
+import { GameAnalysis } from "@/components/game-analysis"
+import { ArrowLeft, Bot, RotateCcw } from "lucide-react"
+import { createInitialGameState, makeMove } from "@/lib/game-logic"
+import {
+  canAvoidLoss,
+  chooseAiMove,
+  getBestMoves,
+  isSolvable,
+  type AiLevel,
+  type AiMove,
+  type SolverMemo,
+} from "@/lib/game-ai"
+import type { GameRule, GameState, Player } from "@/types/game"
+
+const AI_LEVEL_LABELS: Record<AiLevel, string> = {
+  easy: "Easy • random moves",
+  medium: "Medium • makes mistakes",
+  perfect: "Perfect • never loses",
+}
+
+// Shown instead when the solver finds the AI can be beaten from the current position
+const BEATABLE_PERFECT_LABEL = "Perfect • best moves, can still lose"
+
+const PRACTICE_RULES: { rule: GameRule; label: string; description: string }[] = [
+  { rule: "misere", label: "Misère", description: "Completing a line loses" },
+  { rule: "wild", label: "Wild", description: "Each move may place X or O" },
+]
+
+// Short pause before the AI answers so its move doesn't land in the same frame as yours
+const AI_MOVE_DELAY_MS = 400
+
+export default function PracticePage() {
+  const [level, setLevel] = useState<AiLevel>("medium")
+  const [playerSymbol, setPlayerSymbol] = useState<Player>("X")
+  const [rules, setRules] = useState<GameRule[]>([])
+  const [gameState, setGameState] = useState<GameState>(() => createInitialGameState())
+  const [moveHistory, setMoveHistory] = useState<AiMove[]>([])
+  const [showHint, setShowHint] = useState(false)
+  const [score, setScore] = useState({ wins: 0, losses: 0, draws: 0 })
+
+  const aiSymbol: Player = playerSymbol === "X" ? "O" : "X"
+  const isAiTurn = !gameState.gameOver && gameState.currentPlayer === aiSymbol
+  // Solved positions of the current game, shared by the AI, the hint and the level label.
+  // Values depend on the rules, so a new game starts with an empty memo.
+  const solverMemo = useRef<SolverMemo>(new Map())
+
+  // Only search when the answer is shown: the perfect level's label or the hint
+  const perfectCanLose = useMemo(
+    () => level === "perfect" && !canAvoidLoss(gameState, aiSymbol, solverMemo.current),
+    [level, gameState, aiSymbol],
+  )
+  const aiLevelLabels = perfectCanLose ? { ...AI_LEVEL_LABELS, perfect: BEATABLE_PERFECT_LABEL } : AI_LEVEL_LABELS
+  const hint = useMemo(
+    () =>
+      showHint && !isAiTurn && !gameState.gameOver && isSolvable(gameState)
+        ? getBestMoves(gameState, solverMemo.current)[0]
+        : null,
+    [showHint, isAiTurn, gameState],
+  )
+
+  // Apply a move from either side and count the result when it ends the game
+  const playMove = useCallback(
+    (state: GameState, position: number, mark?: Player) => {
+      const next = makeMove(state, position, mark)
+      if (next === state) return
+      setGameState(next)
+      setMoveHistory((current) => [...current, mark ? { position, mark } : { position }])
+
+      if (next.gameOver && !state.gameOver) {
+        setScore((current) => ({
+          wins: current.wins + (next.winner === playerSymbol ? 1 : 0),
+          losses: current.losses + (next.winner === aiSymbol ? 1 : 0),
+          draws: current.draws + (next.winner === "draw" ? 1 : 0),
+        }))
+      }
+    },
+    [playerSymbol, aiSymbol],
+  )
+
+  useEffect(() => {
+    if (!isAiTurn) return
+
+    const timeout = setTimeout(() => {
+      const move = chooseAiMove(gameState, level, Math.random, solverMemo.current)
+      if (move) playMove(gameState, move.position, move.mark)
+    }, AI_MOVE_DELAY_MS)
+    return () => clearTimeout(timeout)
+  }, [isAiTurn, gameState, level, playMove])
+
+  const startNewGame = (nextRules: GameRule[] = rules) => {
+    solverMemo.current = new Map()
+    setGameState(createInitialGameState(undefined, nextRules))
+    setMoveHistory([])
+  }
+
+  const handleMove = (position: number, mark?: Player) => {
+    if (isAiTurn) return
+    playMove(gameState, position, mark)
+  }
+
+  const changePlayerSymbol = (symbol: Player) => {
+    setPlayerSymbol(symbol)
+    startNewGame()
+  }
+
+  const toggleRule = (rule: GameRule, enabled: boolean) => {
+    const nextRules = enabled ? [...rules, rule] : rules.filter((current) => current !== rule)
+    setRules(nextRules)
+    startNewGame(nextRules)
+  }
+
+  return (
+    <main className="min-h-screen bg-background p-4">
+      <div className="max-w-4xl mx-auto">
+        <div className="flex items-center gap-4 mb-6">
+          <Link href="/">
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Lobby
+            </Button>
+          </Link>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <Bot className="w-6 h-6" />
+            Practice
+            <span className="text-lg font-normal text-muted-foreground">No wallet, no bets</span>
+          </h1>
+        </div>
+
+        <div className="grid md:grid-cols-3 gap-6">
+          <div className="md:col-span-2">
+            <GameBoard
+              key={`${playerSymbol}-${rules.join(",")}`}
+              gameState={gameState}
+              onMove={handleMove}
+              playerSymbol={playerSymbol}
+              disabled={isAiTurn}
+              hint={hint}
+            />
+
+            {gameState.gameOver && (
+              <GameAnalysis key={moveHistory.length} moves={moveHistory} rules={rules} playerSymbol={playerSymbol} />
+            )}
+          </div>
+
+          <div className="space-y-4">
+            <Card>
+              <CardHeader>
+                <CardTitle>Settings</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label>AI Level</Label>
+                  <Select value={level} onValueChange={(value) => setLevel(value as AiLevel)}>
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(aiLevelLabels).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Play as</Label>
+                  <Select value={playerSymbol || "X"} onValueChange={(value) => changePlayerSymbol(value as Player)}>
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="X">X • you move first</SelectItem>
+                      <SelectItem value="O">O • the AI moves first</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Rules</Label>
+                  {PRACTICE_RULES.map(({ rule, label, description }) => (
+                    <div key={rule} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`practice-rule-${rule}`}
+                        checked={rules.includes(rule)}
+                        onCheckedChange={(checked) => toggleRule(rule, checked === true)}
+                      />
+                      <Label htmlFor={`practice-rule-${rule}`} className="text-sm font-normal">
+                        {label}
+                        <span className="text-muted-foreground"> • {description}</span>
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="practice-hint">Show hint</Label>
+                  <Switch id="practice-hint" checked={showHint} onCheckedChange={setShowHint} />
+                </div>
+
+                <Button onClick={() => startNewGame()} className="w-full" variant="outline">
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  New Game
+                </Button>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Score</CardTitle>
+              </CardHeader>
+              <CardContent className="grid grid-cols-3 gap-2 text-center">
+                <div>
+                  <p className="text-2xl font-bold text-primary">{score.wins}</p>
+                  <p className="text-xs text-muted-foreground">Wins</p>
+                </div>
+                <div>
+                  <p className="text-2xl font-bold">{score.draws}</p>
+                  <p className="text-xs text-muted-foreground">Draws</p>
+                </div>
+                <div>
+                  <p className="text-2xl font-bold text-destructive">{score.losses}</p>
+                  <p className="text-xs text-muted-foreground">Losses</p>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </main>
+  )
+}
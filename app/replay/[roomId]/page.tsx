@@ -0,0 +1,264 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { useParams } from "next/navigation"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Slider } from "@/components/ui/slider"
+import { GameBoard } from "@/components/game-board"
+import { UltimateGameBoard } from "@/components/ultimate-game-board"
+import {
+  ArrowLeft,
+  ChevronLeft,
+  ChevronRight,
+  ChevronsLeft,
+  ChevronsRight,
+  Copy,
+  ExternalLink,
+  Loader2,
+  Pause,
+  Play,
+} from "lucide-react"
+import { simpleRoomManager } from "@/lib/simple-room-manager"
+import { getGameMoveLogs, getXPlayer, type Room } from "@/lib/room"
+import { isUltimateState, replayPositions } from "@/lib/game-logic"
+import { getTransactionExplorerUrl } from "@/lib/network-config"
+import { WinnerVerification } from "@/lib/winner-verification"
+
+const AUTOPLAY_INTERVAL_MS = 800
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`
+}
+
+export default function ReplayPage() {
+  const params = useParams()
+  const roomId = params.roomId as string
+  const [room, setRoom] = useState<Room | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [gameIndex, setGameIndex] = useState(0)
+  const [step, setStep] = useState(0)
+  const [playing, setPlaying] = useState(false)
+  const [copied, setCopied] = useState(false)
+  const [proofValid, setProofValid] = useState<boolean | null>(null)
+
+  useEffect(() => {
+    simpleRoomManager.fetchRoom(roomId).then((loaded) => {
+      setRoom(loaded)
+      // Open on the last game of a series, where it was decided
+      setGameIndex(Math.max(0, (loaded ? getGameMoveLogs(loaded).length : 1) - 1))
+      setLoading(false)
+    })
+  }, [roomId])
+
+  // Check the oracle's winner proof in the browser against the published key and the signed moves
+  useEffect(() => {
+    if (!room?.winnerProof) return
+    WinnerVerification.verifyGameProof(room.winnerProof, room).then(setProofValid)
+  }, [room])
+
+  const gameLogs = useMemo(() => (room ? getGameMoveLogs(room) : []), [room])
+  const moves = useMemo(() => gameLogs[gameIndex] || [], [gameLogs, gameIndex])
+
+  // Every position of the selected game, from the empty board to the last move
+  const states = useMemo(
+    () => (room ? replayPositions(moves, { gameType: room.gameType, variant: room.variant, rules: room.rules }) : []),
+    [room, moves],
+  )
+
+  const lastStep = Math.max(0, states.length - 1)
+
+  useEffect(() => {
+    setStep(lastStep)
+    setPlaying(false)
+  }, [gameIndex, lastStep])
+
+  useEffect(() => {
+    if (!playing) return
+    if (step >= lastStep) {
+      setPlaying(false)
+      return
+    }
+    const timeout = setTimeout(() => setStep((current) => current + 1), AUTOPLAY_INTERVAL_MS)
+    return () => clearTimeout(timeout)
+  }, [playing, step, lastStep])
+
+  const togglePlaying = () => {
+    // Autoplay from the start when the replay is already at its end
+    if (!playing && step >= lastStep) setStep(0)
+    setPlaying(!playing)
+  }
+
+  const copyPermalink = async () => {
+    await navigator.clipboard.writeText(window.location.href)
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  if (loading) {
+    return (
+      <main className="min-h-screen bg-background p-4 flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin" />
+      </main>
+    )
+  }
+
+  if (!room || states.length === 0) {
+    return (
+      <main className="min-h-screen bg-background p-4">
+        <div className="max-w-md mx-auto text-center space-y-4 pt-16">
+          <h1 className="text-2xl font-bold">Replay not found</h1>
+          <p className="text-muted-foreground">No game was recorded for room {roomId.slice(0, 8)}...</p>
+          <Link href="/">
+            <Button>Back to Lobby</Button>
+          </Link>
+        </div>
+      </main>
+    )
+  }
+
+  const current = states[step]
+  const xPlayer = room.games?.[gameIndex]?.xPlayer || getXPlayer(room)
+  const oPlayer = room.players.find((player) => player !== xPlayer)
+  const settledOutcome = room.history?.[room.history.length - 1]
+
+  return (
+    <main className="min-h-screen bg-background p-4">
+      <div className="max-w-4xl mx-auto">
+        <div className="flex items-center gap-4 mb-6">
+          <Link href="/">
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Lobby
+            </Button>
+          </Link>
+          <h1 className="text-2xl font-bold">
+            Replay
+            <span className="text-lg font-normal text-muted-foreground ml-2">
+              ({roomId.slice(0, 8)}...{roomId.slice(-4)})
+            </span>
+          </h1>
+        </div>
+
+        <div className="grid md:grid-cols-3 gap-6">
+          <div className="md:col-span-2 space-y-4">
+            {gameLogs.length > 1 && (
+              <div className="flex flex-wrap justify-center gap-2">
+                {gameLogs.map((_, index) => (
+                  <Button
+                    key={index}
+                    size="sm"
+                    variant={index === gameIndex ? "default" : "outline"}
+                    onClick={() => setGameIndex(index)}
+                  >
+                    Game {index + 1}
+                  </Button>
+                ))}
+              </div>
+            )}
+
+            {isUltimateState(current) ? (
+              <UltimateGameBoard gameState={current} onMove={() => {}} playerSymbol={null} disabled />
+            ) : (
+              <GameBoard gameState={current} onMove={() => {}} playerSymbol={null} disabled />
+            )}
+
+            <Card className="w-full max-w-md mx-auto">
+              <CardContent className="p-4 space-y-4">
+                <Slider
+                  min={0}
+                  max={lastStep}
+                  step={1}
+                  value={[step]}
+                  onValueChange={([value]) => {
+                    setPlaying(false)
+                    setStep(value)
+                  }}
+                />
+                <div className="flex items-center justify-between">
+                  <div className="flex gap-1">
+                    <Button size="sm" variant="outline" onClick={() => setStep(0)} disabled={step === 0}>
+                      <ChevronsLeft className="w-4 h-4" />
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => setStep(step - 1)} disabled={step === 0}>
+                      <ChevronLeft className="w-4 h-4" />
+                    </Button>
+                    <Button size="sm" onClick={togglePlaying} disabled={lastStep === 0}>
+                      {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => setStep(step + 1)} disabled={step >= lastStep}>
+                      <ChevronRight className="w-4 h-4" />
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => setStep(lastStep)} disabled={step >= lastStep}>
+                      <ChevronsRight className="w-4 h-4" />
+                    </Button>
+                  </div>
+                  <span className="text-sm text-muted-foreground">
+                    Move {step} / {lastStep}
+                  </span>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="space-y-4">
+            <Card>
+              <CardHeader>
+                <CardTitle>Players</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                <p>
+                  <strong className="text-primary">X</strong> <span className="font-mono">{shortAddress(xPlayer)}</span>
+                </p>
+                {oPlayer && (
+                  <p>
+                    <strong className="text-accent">O</strong> <span className="font-mono">{shortAddress(oPlayer)}</span>
+                  </p>
+                )}
+                {room.winner && (
+                  <p className="pt-2">
+                    Winner: <span className="font-mono">{shortAddress(room.winner)}</span>
+                    {room.bestOf && room.bestOf > 1 ? ` (best of ${room.bestOf})` : ""}
+                  </p>
+                )}
+                {room.forfeit && (
+                  <p className="text-muted-foreground">
+                    {shortAddress(room.forfeit.player)} {room.forfeit.reason === "resign" ? "resigned" : "ran out of time"}
+                  </p>
+                )}
+                {room.winnerProof && proofValid !== null && (
+                  <p className={proofValid ? "text-muted-foreground" : "text-destructive"}>
+                    {proofValid ? "Result proof verified" : "Result proof does not match this game"}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Share</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <Button variant="outline" className="w-full" onClick={copyPermalink}>
+                  <Copy className="w-4 h-4 mr-2" />
+                  {copied ? "Link copied" : "Copy replay link"}
+                </Button>
+                {settledOutcome?.transactionDigest ? (
+                  <a href={getTransactionExplorerUrl(settledOutcome.transactionDigest)} target="_blank" rel="noreferrer">
+                    <Button variant="outline" className="w-full">
+                      <ExternalLink className="w-4 h-4 mr-2" />
+                      Settlement transaction
+                    </Button>
+                  </a>
+                ) : (
+                  <p className="text-xs text-muted-foreground">The result has not been settled on chain yet.</p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,123 @@
+"use client"
+import { useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import type { BoardVariant, GameRule, Player } from "@/types/game"
+import { CLASSIC_BOARD } from "@/lib/game-logic"
+import { analyzeGame, type MoveQuality } from "@/lib/game-analysis"
+import { cn } from "@/lib/utils"
+
+interface GameAnalysisProps {
+  moves: { position: number; mark?: Player }[]
+  variant?: BoardVariant
+  rules?: GameRule[]
+  playerSymbol?: Player // Labels the viewer's moves as "You"; everyone else sees X and O
+}
+
+const QUALITY_LABELS: Record<MoveQuality, string> = {
+  best: "Best",
+  inaccuracy: "Inaccuracy",
+  blunder: "Blunder",
+}
+
+const QUALITY_BADGES: Record<MoveQuality, "default" | "secondary" | "destructive"> = {
+  best: "default",
+  inaccuracy: "secondary",
+  blunder: "destructive",
+}
+
+// Cells named like a chess board: column letter, then row number from the top
+function getCellName(position: number, width: number): string {
+  return `${String.fromCharCode(65 + (position % width))}${Math.floor(position / width) + 1}`
+}
+
+export function GameAnalysis({ moves, variant = CLASSIC_BOARD, rules, playerSymbol }: GameAnalysisProps) {
+  // Solving every position is expensive, so the game is analyzed once, when the component
+  // mounts. Callers key it by game and move count so a different game gets a fresh analysis.
+  const [analysis] = useState(() => {
+    try {
+      return analyzeGame(moves, variant, rules)
+    } catch (error) {
+      console.error("[GameAnalysis] Could not analyze game:", error)
+      return null
+    }
+  })
+  const [selected, setSelected] = useState<number | null>(null)
+
+  if (!analysis || analysis.moves.length === 0) return null
+
+  const selectedIndex =
+    selected !== null && selected < analysis.moves.length
+      ? selected
+      : analysis.decidingMove ?? analysis.moves.length - 1
+  const selectedMove = analysis.moves[selectedIndex]
+  const bestPositions = selectedMove.bestMoves.map((move) => move.position)
+  const describePlayer = (player: Player) => (playerSymbol && player === playerSymbol ? `You (${player})` : player)
+
+  const getDecidingMessage = () => {
+    if (analysis.decidingMove === null) {
+      return "Neither side made a decisive mistake."
+    }
+    const move = analysis.moves[analysis.decidingMove]
+    const result = move.outcomeAfter === "loss" ? "a loss" : "a draw"
+    return `Decided at move ${analysis.decidingMove + 1}: ${describePlayer(move.player)} turned ${
+      move.outcomeBefore === "win" ? "a win" : "a draw"
+    } into ${result}.`
+  }
+
+  return (
+    <Card className="w-full max-w-md mx-auto mt-6">
+      <CardHeader>
+        <CardTitle>Game Analysis</CardTitle>
+        <p className="text-sm text-muted-foreground">{getDecidingMessage()}</p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div
+          className="grid gap-1 mx-auto w-fit"
+          style={{ gridTemplateColumns: `repeat(${variant.width}, max-content)` }}
+        >
+          {selectedMove.stateBefore.board.map((cell, index) => (
+            <div
+              key={index}
+              className={cn("w-10 h-10 rounded border border-border flex items-center justify-center font-bold", {
+                "text-primary": cell === "X",
+                "text-accent": cell === "O",
+                "bg-green-500/20": !cell && bestPositions.includes(index),
+                "ring-2 ring-primary": index === selectedMove.position,
+              })}
+            >
+              {index === selectedMove.position ? (
+                <span className="opacity-60">{selectedMove.mark || selectedMove.player}</span>
+              ) : (
+                cell
+              )}
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground text-center">
+          Outlined: the move played • Green: the best moves in this position
+        </p>
+
+        <ol className="space-y-1">
+          {analysis.moves.map((move, index) => (
+            <li key={index}>
+              <button
+                className={cn("w-full flex items-center justify-between rounded px-2 py-1 text-sm hover:bg-muted/50", {
+                  "bg-muted": index === selectedIndex,
+                })}
+                onClick={() => setSelected(index)}
+              >
+                <span>
+                  {index + 1}. {describePlayer(move.player)} {move.mark ? `${move.mark} ` : ""}
+                  {getCellName(move.position, variant.width)}
+                  {index === analysis.decidingMove && <span className="text-muted-foreground"> • deciding move</span>}
+                </span>
+                <Badge variant={QUALITY_BADGES[move.quality]}>{QUALITY_LABELS[move.quality]}</Badge>
+              </button>
+            </li>
+          ))}
+        </ol>
+      </CardContent>
+    </Card>
+  )
+}
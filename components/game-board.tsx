@@ -1,25 +1,38 @@
 "use client"
+import { useState } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
-import type { Player, GameState } from "@/types/game"
-import { getWinningLine } from "@/lib/game-logic"
+import { Button } from "@/components/ui/button"
+import type { Player, GameRule, GameState } from "@/types/game"
+import { CLASSIC_BOARD, getWinningLine, hasRule, isClassicBoard } from "@/lib/game-logic"
 import { cn } from "@/lib/utils"
 
+const RULE_DESCRIPTIONS: Record<GameRule, string> = {
+  misere: "Misère: completing a line loses",
+  wild: "Wild: each move may place X or O",
+  "random-first-player": "Random first player",
+}
+
 interface GameBoardProps {
   gameState: GameState
-  onMove: (position: number) => void
+  onMove: (position: number, mark?: Player) => void
   playerSymbol: Player
   disabled?: boolean
+  hint?: { position: number; mark?: Player } | null // Suggested move, shown faded in its empty cell
 }
 
-export function GameBoard({ gameState, onMove, playerSymbol, disabled = false }: GameBoardProps) {
-  const winningLine = getWinningLine(gameState.board)
+export function GameBoard({ gameState, onMove, playerSymbol, disabled = false, hint }: GameBoardProps) {
+  const variant = gameState.variant || CLASSIC_BOARD
+  const winningLine = getWinningLine(gameState.board, variant)
+  const isClassic = isClassicBoard(variant)
+  const isWild = hasRule(gameState.rules, "wild")
+  const [wildMark, setWildMark] = useState<Player>(playerSymbol)
 
   const handleCellClick = (position: number) => {
     if (disabled || gameState.gameOver || gameState.board[position] || gameState.currentPlayer !== playerSymbol) {
       return
     }
-    onMove(position)
+    onMove(position, isWild ? wildMark : undefined)
   }
 
   const getCellClassName = (index: number) => {
@@ -27,9 +40,12 @@ export function GameBoard({ gameState, onMove, playerSymbol, disabled = false }:
     const hasValue = gameState.board[index]
 
     return cn(
-      "w-20 h-20 border-2 border-border rounded-lg flex items-center justify-center text-2xl font-bold cursor-pointer transition-all duration-200 hover:bg-muted/50",
+      "border-2 border-border rounded-lg flex items-center justify-center font-bold cursor-pointer transition-all duration-200 hover:bg-muted/50",
+      // Shrink the cells as the board grows so every grid fits the card
+      variant.width <= 3 ? "w-20 h-20 text-2xl" : variant.width <= 5 ? "w-14 h-14 text-xl" : "w-10 h-10 text-lg",
       {
         "bg-accent/20 pulse-glow": isWinningCell,
+        "ring-2 ring-green-500": !hasValue && hint?.position === index,
         "hover:scale-105": !hasValue && !gameState.gameOver && gameState.currentPlayer === playerSymbol && !disabled,
         "cursor-not-allowed opacity-50": disabled || gameState.gameOver || gameState.currentPlayer !== playerSymbol,
         "text-primary": gameState.board[index] === "X",
@@ -42,6 +58,10 @@ export function GameBoard({ gameState, onMove, playerSymbol, disabled = false }:
     if (gameState.winner === "draw") {
       return "It's a draw!"
     }
+    // Without a symbol the board is only being watched, so describe it from neither side
+    if (!playerSymbol) {
+      return gameState.winner ? `${gameState.winner} won!` : `${gameState.currentPlayer} to move`
+    }
     if (gameState.winner) {
       return gameState.winner === playerSymbol ? "You won!" : "You lost!"
     }
@@ -52,6 +72,7 @@ export function GameBoard({ gameState, onMove, playerSymbol, disabled = false }:
   }
 
   const getStatusBadgeVariant = () => {
+    if (!playerSymbol) return gameState.winner ? "secondary" : "outline"
     if (gameState.winner === playerSymbol) return "default"
     if (gameState.winner && gameState.winner !== playerSymbol) return "destructive"
     if (gameState.winner === "draw") return "secondary"
@@ -62,12 +83,20 @@ export function GameBoard({ gameState, onMove, playerSymbol, disabled = false }:
     <Card className="w-full max-w-md mx-auto">
       <CardHeader className="text-center">
         <CardTitle className="flex items-center justify-between">
-          <span>TicTacToe</span>
+          <span>{isClassic ? "TicTacToe" : `${variant.width}×${variant.height} • ${variant.k} in a row`}</span>
           <Badge variant={getStatusBadgeVariant()}>{getStatusMessage()}</Badge>
         </CardTitle>
+        {!!gameState.rules?.length && (
+          <p className="text-xs text-muted-foreground">
+            {gameState.rules.map((rule) => RULE_DESCRIPTIONS[rule]).join(" • ")}
+          </p>
+        )}
       </CardHeader>
       <CardContent className="p-6">
-        <div className="grid grid-cols-3 gap-2 mb-6">
+        <div
+          className="grid gap-2 mb-6 justify-center"
+          style={{ gridTemplateColumns: `repeat(${variant.width}, max-content)` }}
+        >
           {gameState.board.map((cell, index) => (
             <button
               key={index}
@@ -75,15 +104,37 @@ export function GameBoard({ gameState, onMove, playerSymbol, disabled = false }:
               onClick={() => handleCellClick(index)}
               disabled={disabled || gameState.gameOver || !!cell || gameState.currentPlayer !== playerSymbol}
             >
-              {cell}
+              {cell || (hint?.position === index && <span className="opacity-40">{hint.mark || playerSymbol}</span>)}
             </button>
           ))}
         </div>
 
+        {isWild && !gameState.gameOver && (
+          <div className="flex items-center justify-center gap-2 mb-4 text-sm">
+            <span className="text-muted-foreground">Place:</span>
+            {(["X", "O"] as const).map((mark) => (
+              <Button
+                key={mark}
+                size="sm"
+                variant={wildMark === mark ? "default" : "outline"}
+                onClick={() => setWildMark(mark)}
+                disabled={disabled}
+              >
+                {mark}
+              </Button>
+            ))}
+          </div>
+        )}
+
         <div className="flex justify-between items-center text-sm text-muted-foreground">
-          <span>
-            You are: <strong className={playerSymbol === "X" ? "text-primary" : "text-accent"}>{playerSymbol}</strong>
-          </span>
+          {playerSymbol ? (
+            <span>
+              {isWild ? "You move " : "You are: "}
+              <strong className={playerSymbol === "X" ? "text-primary" : "text-accent"}>{isWild ? (playerSymbol === "X" ? "first" : "second") : playerSymbol}</strong>
+            </span>
+          ) : (
+            <span>Watching</span>
+          )}
           <span>Moves: {gameState.moves}</span>
         </div>
       </CardContent>
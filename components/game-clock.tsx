@@ -0,0 +1,88 @@
+"use client"
+import { useEffect, useRef, useState } from "react"
+import { Card, CardContent } from "@/components/ui/card"
+import { Progress } from "@/components/ui/progress"
+import { Timer } from "lucide-react"
+import type { Room } from "@/lib/room"
+import { getClockRemaining, getPlayerSymbol, isRoomInProgress } from "@/lib/room"
+import { cn } from "@/lib/utils"
+
+interface GameClockProps {
+  room: Room
+  playerAddress?: string
+  onExpire?: () => void
+}
+
+function formatTime(ms: number): string {
+  const totalSeconds = Math.ceil(ms / 1000)
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`
+}
+
+export function GameClock({ room, playerAddress, onExpire }: GameClockProps) {
+  const [now, setNow] = useState(() => Date.now())
+  const expiredTurnRef = useRef<number | null>(null)
+  const clock = room.clock
+  const running = !!clock?.turnStartedAt && isRoomInProgress(room)
+
+  useEffect(() => {
+    if (!running) return
+    const interval = setInterval(() => setNow(Date.now()), 250)
+    return () => clearInterval(interval)
+  }, [running])
+
+  const remaining = getClockRemaining(room, now)
+
+  // Report an expired clock once per turn; the server decides whether it really ran out
+  useEffect(() => {
+    if (!running || !remaining || !clock?.turnStartedAt) return
+    if ((remaining.moveMs <= 0 || remaining.gameMs <= 0) && expiredTurnRef.current !== clock.turnStartedAt) {
+      expiredTurnRef.current = clock.turnStartedAt
+      onExpire?.()
+    }
+  }, [running, remaining, clock?.turnStartedAt, onExpire])
+
+  if (!clock || !remaining) return null
+
+  return (
+    <Card className="w-full max-w-md mx-auto mb-4">
+      <CardContent className="p-4 space-y-3">
+        <div className="grid grid-cols-2 gap-2">
+          {room.players.map((player) => {
+            const isTurn = running && player === room.currentPlayer
+            const total = isTurn ? remaining.gameMs : clock.remainingMs[player] ?? clock.gameTimeMs
+
+            return (
+              <div
+                key={player}
+                className={cn("flex items-center justify-between rounded-lg border p-2 text-sm", {
+                  "border-primary bg-primary/10": isTurn,
+                  "text-destructive": total <= 10000,
+                })}
+              >
+                <span>
+                  {getPlayerSymbol(room, player)} {player === playerAddress ? "(You)" : ""}
+                </span>
+                <span className="font-mono font-semibold">{formatTime(total)}</span>
+              </div>
+            )
+          })}
+        </div>
+
+        {running && (
+          <div className="space-y-1">
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span className="flex items-center gap-1">
+                <Timer className="w-3 h-3" />
+                {room.currentPlayer === playerAddress ? "Your move" : "Opponent's move"}
+              </span>
+              <span className="font-mono">{formatTime(remaining.moveMs)}</span>
+            </div>
+            <Progress value={(remaining.moveMs / clock.moveTimeMs) * 100} />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,79 @@
+"use client"
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Eye, Loader2, Radio } from "lucide-react"
+import type { LiveRoom } from "@/lib/room"
+import { simpleRoomManager } from "@/lib/simple-room-manager"
+
+// Live games change quickly, so the list refreshes itself
+const REFRESH_INTERVAL_MS = 15000
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`
+}
+
+export function LiveGames() {
+  const [rooms, setRooms] = useState<LiveRoom[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const loadRooms = useCallback(async () => {
+    setLoading(true)
+    setRooms(await simpleRoomManager.listLiveRooms())
+    setLoading(false)
+  }, [])
+
+  useEffect(() => {
+    loadRooms()
+    const interval = setInterval(loadRooms, REFRESH_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [loadRooms])
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <Radio className="w-5 h-5 text-destructive" />
+            Jogos ao Vivo
+          </span>
+          <Button variant="outline" size="sm" onClick={loadRooms} disabled={loading}>
+            {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : "Atualizar"}
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {rooms.length > 0 ? (
+          <div className="space-y-4">
+            {rooms.map((room) => (
+              <div key={room.roomId} className="flex items-center justify-between p-4 border rounded-lg">
+                <div className="space-y-1">
+                  <p className="font-semibold">
+                    {room.players.map(shortAddress).join(" vs ")}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    Aposta: {room.betAmount} SUI
+                    {room.bestOf && room.bestOf > 1 ? ` • Melhor de ${room.bestOf}` : ""}
+                    {room.gameType === "ultimate" ? " • Ultimate" : ""}
+                    {` • ${room.spectatorCount} ${room.spectatorCount === 1 ? "espectador" : "espectadores"}`}
+                  </p>
+                </div>
+                <Link href={`/game/${room.roomId}`}>
+                  <Button size="sm" variant="outline">
+                    <Eye className="w-4 h-4 mr-2" />
+                    Assistir
+                  </Button>
+                </Link>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-4 text-muted-foreground">
+            <p>{loading ? "Carregando jogos..." : "Nenhum jogo em andamento no momento."}</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
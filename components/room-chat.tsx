@@ -0,0 +1,114 @@
+"use client"
+import { useEffect, useRef, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { MessageSquare, Send } from "lucide-react"
+import { CHAT_EMOTES, MAX_CHAT_MESSAGE_LENGTH, type ChatEmote, type ChatMessage } from "@/lib/room-chat"
+import { cn } from "@/lib/utils"
+
+interface RoomChatProps {
+  messages: ChatMessage[]
+  playerAddress?: string
+  // Omitted for spectators, who can read the chat but not post to it
+  onSend?: (content: { text?: string; emote?: ChatEmote }) => Promise<string | undefined>
+}
+
+export function RoomChat({ messages, playerAddress, onSend }: RoomChatProps) {
+  const [draft, setDraft] = useState("")
+  const [sending, setSending] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const scrollRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight })
+  }, [messages.length])
+
+  const send = async (content: { text?: string; emote?: ChatEmote }) => {
+    if (!onSend || sending) return
+
+    setSending(true)
+    setError(null)
+    const sendError = await onSend(content)
+    setSending(false)
+
+    if (sendError) {
+      setError(sendError)
+    } else if (content.text) {
+      setDraft("")
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageSquare className="w-5 h-5" />
+          Chat
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div ref={scrollRef} className="h-48 overflow-y-auto space-y-2 rounded border p-2 text-sm">
+          {messages.length === 0 ? (
+            <p className="text-muted-foreground text-center py-4">No messages yet</p>
+          ) : (
+            messages.map((message) => {
+              const isMine = message.sender === playerAddress
+              return (
+                <div key={message.id} className={cn("flex", isMine ? "justify-end" : "justify-start")}>
+                  <div
+                    className={cn("rounded-lg px-2 py-1 max-w-[85%] break-words", {
+                      "bg-primary text-primary-foreground": isMine,
+                      "bg-muted": !isMine,
+                      "italic font-semibold": message.emote,
+                    })}
+                  >
+                    {!isMine && (
+                      <span className="block text-xs opacity-70">
+                        {message.sender.slice(0, 6)}...{message.sender.slice(-4)}
+                      </span>
+                    )}
+                    {message.text}
+                  </div>
+                </div>
+              )
+            })
+          )}
+        </div>
+
+        {onSend && (
+          <>
+            <div className="flex flex-wrap gap-1">
+              {(Object.keys(CHAT_EMOTES) as ChatEmote[]).map((emote) => (
+                <Button key={emote} size="sm" variant="outline" disabled={sending} onClick={() => send({ emote })}>
+                  {CHAT_EMOTES[emote]}
+                </Button>
+              ))}
+            </div>
+
+            <form
+              className="flex gap-2"
+              onSubmit={(event) => {
+                event.preventDefault()
+                if (draft.trim()) send({ text: draft })
+              }}
+            >
+              <Input
+                value={draft}
+                onChange={(event) => setDraft(event.target.value)}
+                maxLength={MAX_CHAT_MESSAGE_LENGTH}
+                placeholder="Say something..."
+                disabled={sending}
+              />
+              <Button type="submit" size="icon" disabled={sending || !draft.trim()}>
+                <Send className="w-4 h-4" />
+              </Button>
+            </form>
+          </>
+        )}
+
+        {error && <p className="text-xs text-destructive">{error}</p>}
+      </CardContent>
+    </Card>
+  )
+}
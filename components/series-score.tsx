@@ -0,0 +1,63 @@
+"use client"
+import { Card, CardContent } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Trophy } from "lucide-react"
+import type { Room } from "@/lib/room"
+import { getPlayerSymbol, getSeriesScore, isRoomOver } from "@/lib/room"
+import { cn } from "@/lib/utils"
+
+interface SeriesScoreProps {
+  room: Room
+  playerAddress?: string
+}
+
+export function SeriesScore({ room, playerAddress }: SeriesScoreProps) {
+  const bestOf = room.bestOf || 1
+  if (bestOf === 1) return null
+
+  const games = room.games || []
+  const score = getSeriesScore(room)
+  const currentGame = isRoomOver(room) ? games.length : games.length + 1
+
+  return (
+    <Card className="w-full max-w-md mx-auto mb-4">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center justify-between text-sm">
+          <span className="flex items-center gap-1 font-semibold">
+            <Trophy className="w-4 h-4" />
+            Best of {bestOf}
+          </span>
+          <span className="text-muted-foreground">
+            {isRoomOver(room) ? "Series over" : `Game ${currentGame} of up to ${bestOf}`}
+          </span>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          {room.players.map((player) => (
+            <div
+              key={player}
+              className={cn("flex items-center justify-between rounded-lg border p-2 text-sm", {
+                "border-primary bg-primary/10": player === playerAddress,
+              })}
+            >
+              <span>
+                {getPlayerSymbol(room, player)} {player === playerAddress ? "(You)" : ""}
+              </span>
+              <span className="font-mono font-semibold">{score[player] ?? 0}</span>
+            </div>
+          ))}
+        </div>
+
+        {games.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {games.map((game, index) => (
+              <Badge key={index} variant={game.winner === playerAddress ? "default" : "outline"} className="text-xs">
+                {index + 1}: {game.winner ? (game.winner === playerAddress ? "Won" : "Lost") : "Draw"}
+              </Badge>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,140 @@
+"use client"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import type { Player, UltimateGameState } from "@/types/game"
+import { getUltimateMoveError, getWinningLine } from "@/lib/game-logic"
+import { cn } from "@/lib/utils"
+
+interface UltimateGameBoardProps {
+  gameState: UltimateGameState
+  onMove: (position: number) => void
+  playerSymbol: Player
+  disabled?: boolean
+}
+
+const SUB_BOARDS = Array.from({ length: 9 }, (_, index) => index)
+
+export function UltimateGameBoard({ gameState, onMove, playerSymbol, disabled = false }: UltimateGameBoardProps) {
+  const isMyTurn = !disabled && !gameState.gameOver && gameState.currentPlayer === playerSymbol
+  const winningLine = getWinningLine(gameState.subBoardWinners.map((cell) => (cell === "draw" ? null : cell)))
+
+  // Sub-boards the current player may play in: the one the last move points at, or every open one
+  const isAllowedSubBoard = (subBoard: number) =>
+    !gameState.gameOver &&
+    !gameState.subBoardWinners[subBoard] &&
+    (gameState.activeSubBoard === null || gameState.activeSubBoard === subBoard)
+
+  const handleCellClick = (position: number) => {
+    if (!isMyTurn || getUltimateMoveError(gameState, position)) {
+      return
+    }
+    onMove(position)
+  }
+
+  const getStatusMessage = () => {
+    if (gameState.winner === "draw") {
+      return "It's a draw!"
+    }
+    // Without a symbol the board is only being watched, so describe it from neither side
+    if (!playerSymbol) {
+      return gameState.winner ? `${gameState.winner} won!` : `${gameState.currentPlayer} to move`
+    }
+    if (gameState.winner) {
+      return gameState.winner === playerSymbol ? "You won!" : "You lost!"
+    }
+    if (gameState.currentPlayer === playerSymbol) {
+      return gameState.activeSubBoard === null ? "Your turn: any open board" : "Your turn: highlighted board"
+    }
+    return "Opponent's turn"
+  }
+
+  const getStatusBadgeVariant = () => {
+    if (!playerSymbol) return gameState.winner ? "secondary" : "outline"
+    if (gameState.winner === "draw") return "secondary"
+    if (gameState.winner === playerSymbol) return "default"
+    if (gameState.winner) return "destructive"
+    return gameState.currentPlayer === playerSymbol ? "default" : "outline"
+  }
+
+  return (
+    <Card className="w-full max-w-md mx-auto">
+      <CardHeader className="text-center">
+        <CardTitle className="flex items-center justify-between">
+          <span>Ultimate TicTacToe</span>
+          <Badge variant={getStatusBadgeVariant()}>{getStatusMessage()}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-6">
+        <div className="grid grid-cols-3 gap-2 mb-6">
+          {SUB_BOARDS.map((subBoard) => {
+            const subWinner = gameState.subBoardWinners[subBoard]
+            const allowed = isAllowedSubBoard(subBoard)
+
+            return (
+              <div
+                key={subBoard}
+                className={cn("relative grid grid-cols-3 gap-1 rounded-lg border-2 border-border p-1 transition-all", {
+                  "border-primary bg-primary/10": allowed && isMyTurn,
+                  "border-primary/40": allowed && !isMyTurn,
+                  "bg-accent/20 pulse-glow": winningLine?.includes(subBoard),
+                })}
+              >
+                {SUB_BOARDS.map((cellIndex) => {
+                  const position = subBoard * 9 + cellIndex
+                  const cell = gameState.board[position]
+                  const playable = isMyTurn && allowed && !cell
+
+                  return (
+                    <button
+                      key={cellIndex}
+                      className={cn(
+                        "w-8 h-8 rounded border border-border flex items-center justify-center text-sm font-bold transition-all duration-200",
+                        {
+                          "hover:bg-muted/50 hover:scale-105 cursor-pointer": playable,
+                          "cursor-not-allowed": !playable,
+                          "opacity-40": !!subWinner,
+                          "text-primary": cell === "X",
+                          "text-accent": cell === "O",
+                        },
+                      )}
+                      onClick={() => handleCellClick(position)}
+                      disabled={!playable}
+                    >
+                      {cell}
+                    </button>
+                  )
+                })}
+
+                {subWinner && (
+                  <div
+                    className={cn(
+                      "absolute inset-0 flex items-center justify-center text-5xl font-bold pointer-events-none",
+                      {
+                        "text-primary": subWinner === "X",
+                        "text-accent": subWinner === "O",
+                        "text-muted-foreground text-2xl": subWinner === "draw",
+                      },
+                    )}
+                  >
+                    {subWinner === "draw" ? "Draw" : subWinner}
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+
+        <div className="flex justify-between items-center text-sm text-muted-foreground">
+          {playerSymbol ? (
+            <span>
+              You are: <strong className={playerSymbol === "X" ? "text-primary" : "text-accent"}>{playerSymbol}</strong>
+            </span>
+          ) : (
+            <span>Watching</span>
+          )}
+          <span>Moves: {gameState.moves}</span>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
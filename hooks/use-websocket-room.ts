@@ -1,32 +1,66 @@
 import { useEffect, useRef, useState, useCallback } from 'react'
-import type { SimpleRoom } from '@/lib/simple-room-manager'
+import { isStaleRoom, type Room } from '@/lib/room'
+import type { ChatMessage } from '@/lib/room-chat'
+import { outboundQueue, type OutboundResult, type OutboundUpdate } from '@/lib/outbound-queue'
+import { simpleRoomManager } from '@/lib/simple-room-manager'
+import type { RoomClientMessage, RoomServerMessage } from '@/lib/room-socket-protocol'
+import type { SignedMove } from '@/types/game'
 
 export interface SSEMessage {
-  type: 'connected' | 'connection_ready' | 'room_state_changed' | 'error'
+  type:
+    | 'connected'
+    | 'connection_ready'
+    | 'room_state_changed'
+    | 'spectators_changed'
+    | 'chat_history'
+    | 'chat_message'
+    | 'error'
   roomId?: string
   connectionId?: string
-  data?: SimpleRoom
+  authenticated?: boolean
+  data?: Room
+  spectatorCount?: number
+  chatMessages?: ChatMessage[]
+  chatMessage?: ChatMessage
   message?: string
   timestamp?: number
 }
 
-export function useServerSentEventsRoomSync(roomId: string | null) {
+/**
+ * Follow a room over SSE. The wallet address tells the server whether this client is
+ * one of the room's players or a spectator. The server only trusts it, e.g. for chat,
+ * once the wallet signed the connection's challenge (authenticate) or a session token
+ * from an earlier signature came along.
+ */
+export function useServerSentEventsRoomSync(roomId: string | null, address?: string) {
   const [connected, setConnected] = useState(false)
-  const [roomState, setRoomState] = useState<SimpleRoom | null>(null)
+  const [roomState, setRoomState] = useState<Room | null>(null)
   const [error, setError] = useState<string | null>(null)
   const [connectionReady, setConnectionReady] = useState(false)
   const [connectionId, setConnectionId] = useState<string | null>(null)
+  const [authenticated, setAuthenticated] = useState(false)
+  const [spectatorCount, setSpectatorCount] = useState(0)
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([])
   const eventSourceRef = useRef<EventSource | null>(null)
   const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null)
   const reconnectAttempts = useRef(0)
   const maxReconnectAttempts = 5
   const connectionAttemptTimeoutRef = useRef<NodeJS.Timeout | null>(null)
+  // ID of the last room event received (the room version), so a reconnect resumes where we left off
+  const lastEventIdRef = useRef<string | null>(null)
 
   const connect = useCallback(() => {
     if (!roomId || eventSourceRef.current?.readyState === EventSource.OPEN) return
 
     try {
-      const url = `/api/socket?roomId=${encodeURIComponent(roomId)}`
+      const params = new URLSearchParams({ roomId })
+      if (address) {
+        params.set('address', address)
+        const sessionToken = simpleRoomManager.getRoomSessionToken(roomId, address)
+        if (sessionToken) params.set('sessionToken', sessionToken)
+      }
+      if (lastEventIdRef.current) params.set('lastEventId', lastEventIdRef.current)
+      const url = `/api/socket?${params.toString()}`
       console.log(`[SSE] Connecting to ${url}`)
       
       eventSourceRef.current = new EventSource(url)
@@ -63,12 +97,14 @@ export function useServerSentEventsRoomSync(roomId: string | null) {
       eventSourceRef.current.onmessage = (event) => {
         try {
           const message: SSEMessage = JSON.parse(event.data)
+          if (event.lastEventId) lastEventIdRef.current = event.lastEventId
           console.log('[SSE] Received message:', message.type, message.roomId, message.connectionId)
 
           switch (message.type) {
             case 'connected':
               console.log('[SSE] Connection acknowledged for room:', message.roomId)
               setConnectionId(message.connectionId || null)
+              setAuthenticated(!!message.authenticated)
               
               // Clear connection timeout since we received a response
               if (connectionAttemptTimeoutRef.current) {
@@ -84,11 +120,36 @@ export function useServerSentEventsRoomSync(roomId: string | null) {
 
             case 'room_state_changed':
               if (message.data && message.roomId === roomId) {
-                console.log('[SSE] Room state updated:', message.data)
-                setRoomState(message.data)
+                const room = message.data
+                console.log('[SSE] Room state updated:', room)
+                // Updates can arrive out of order, e.g. when replayed after a reconnect
+                setRoomState((current) => (isStaleRoom(room, current) ? current : room))
+              }
+              break
+
+            case 'spectators_changed':
+              if (message.roomId === roomId) {
+                setSpectatorCount(message.spectatorCount || 0)
+              }
+              break
+
+            case 'chat_history':
+              // Sent on every (re)connect, so it replaces whatever we had
+              if (message.roomId === roomId) {
+                setChatMessages(message.chatMessages || [])
               }
               break
 
+            case 'chat_message': {
+              const chatMessage = message.chatMessage
+              if (chatMessage && message.roomId === roomId) {
+                setChatMessages((current) =>
+                  current.some((existing) => existing.id === chatMessage.id) ? current : [...current, chatMessage],
+                )
+              }
+              break
+            }
+
             case 'error':
               console.error('[SSE] Server error:', message.message)
               setError(message.message || 'SSE error')
@@ -125,7 +186,7 @@ export function useServerSentEventsRoomSync(roomId: string | null) {
       console.error('[SSE] Failed to create connection:', error)
       setError('Failed to create SSE connection')
     }
-  }, [roomId])
+  }, [roomId, address])
 
   const disconnect = useCallback(() => {
     if (reconnectTimeoutRef.current) {
@@ -148,42 +209,56 @@ export function useServerSentEventsRoomSync(roomId: string | null) {
     setRoomState(null)
     setError(null)
     setConnectionId(null)
+    setAuthenticated(false)
+    setSpectatorCount(0)
+    setChatMessages([])
+    lastEventIdRef.current = null
     reconnectAttempts.current = 0
   }, [])
 
-  const broadcastRoomUpdate = useCallback(async (roomData: SimpleRoom) => {
-    if (roomId) {
-      try {
-        console.log('[SSE] Broadcasting room update:', roomData)
-        
-        // Validate connection is ready before broadcasting
-        if (!connected || !connectionReady) {
-          console.warn('[SSE] Attempting to broadcast without stable connection, queuing update')
-          // TODO: Could implement a queue mechanism here for offline updates
-        }
-        
-        const response = await fetch('/api/socket', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            roomId,
-            roomData
-          })
+  // Prove this connection is the wallet's by signing its challenge; returns why it failed, if it did
+  const authenticate = useCallback(
+    async (signPersonalMessage: any): Promise<string | undefined> => {
+      if (!roomId || !address || !connectionId) return 'Not connected'
+
+      const { error } = await simpleRoomManager.openRoomSession(roomId, address, connectionId, signPersonalMessage)
+      if (!error) setAuthenticated(true)
+      return error
+    },
+    [roomId, address, connectionId],
+  )
+
+  // Resolves without a status when the update never reached the server
+  const broadcastRoomUpdate = useCallback(async (roomData: Room): Promise<OutboundResult> => {
+    if (!roomId) return { error: 'No room' }
+
+    try {
+      console.log('[SSE] Broadcasting room update:', roomData)
+
+      const response = await fetch('/api/socket', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          roomId,
+          roomData
         })
-        
-        if (!response.ok) {
-          throw new Error(`HTTP ${response.status}: ${response.statusText}`)
-        }
-        
-        console.log('[SSE] Room update broadcasted successfully:', roomData)
-      } catch (error) {
-        console.error('[SSE] Failed to broadcast room update:', error)
-        setError(`Broadcast failed: ${error.message}`)
+      })
+
+      const result = await response.json()
+      if (!response.ok) {
+        return { room: result.room, error: result.error || `HTTP ${response.status}`, status: response.status }
       }
+
+      console.log('[SSE] Room update broadcasted successfully:', roomData)
+      return { room: result.room, status: response.status }
+    } catch (error: any) {
+      console.error('[SSE] Failed to broadcast room update:', error)
+      setError(`Broadcast failed: ${error.message}`)
+      return { error: error.message }
     }
-  }, [roomId, connected, connectionReady])
+  }, [roomId])
 
   // Connect when component mounts or roomId changes
   useEffect(() => {
@@ -201,10 +276,334 @@ export function useServerSentEventsRoomSync(roomId: string | null) {
     roomState,
     error,
     connectionId,
+    authenticated,
+    authenticate,
+    spectatorCount,
+    chatMessages,
     broadcastRoomUpdate,
     disconnect
   }
 }
 
-// Export with backward compatibility alias
-export const useWebSocketRoomSync = useServerSentEventsRoomSync
\ No newline at end of file
+// How often an open socket pings the server so proxies don't drop it as idle
+const SOCKET_PING_INTERVAL_MS = 25000
+// How long a move may wait for the server's ack
+const SOCKET_REQUEST_TIMEOUT_MS = 5000
+const MAX_SOCKET_RECONNECT_ATTEMPTS = 3
+
+/**
+ * Follow a room over the WebSocket transport (see lib/room-socket-protocol.ts). Gives up
+ * after a few failed attempts, or right away when NEXT_PUBLIC_ROOM_WS_URL is not set, so
+ * callers can stay on SSE. The player only shows as present once they have a room
+ * session; pass authenticated so presence is announced again when they get one.
+ */
+export function useRoomSocket(roomId: string | null, address?: string, authenticated = false) {
+  const [connected, setConnected] = useState(false)
+  const [roomState, setRoomState] = useState<Room | null>(null)
+  const [presence, setPresence] = useState<string[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const socketRef = useRef<WebSocket | null>(null)
+  const pendingRef = useRef(new Map<string, (result: OutboundResult) => void>())
+  const addressRef = useRef(address)
+  const requestCounter = useRef(0)
+
+  const send = useCallback((message: RoomClientMessage) => {
+    if (socketRef.current?.readyState !== WebSocket.OPEN) return false
+    socketRef.current.send(JSON.stringify(message))
+    return true
+  }, [])
+
+  // Presence for the current wallet, with the session token that proves it when there is one
+  const presenceMessage = useCallback(
+    (room: string): RoomClientMessage => {
+      const player = addressRef.current
+      const sessionToken = player ? simpleRoomManager.getRoomSessionToken(room, player) : undefined
+      return { type: 'presence', roomId: room, address: player, sessionToken }
+    },
+    [],
+  )
+
+  // Announce the wallet again when it changes or gets a session, without reconnecting
+  useEffect(() => {
+    addressRef.current = address
+    if (roomId) send(presenceMessage(roomId))
+  }, [roomId, address, authenticated, send, presenceMessage])
+
+  useEffect(() => {
+    const url = process.env.NEXT_PUBLIC_ROOM_WS_URL
+    if (!roomId || !url) return
+
+    let closedByUs = false
+    let attempts = 0
+    let pingInterval: NodeJS.Timeout | null = null
+    let reconnectTimeout: NodeJS.Timeout | null = null
+    const pending = pendingRef.current
+
+    const open = () => {
+      const socket = new WebSocket(url)
+      socketRef.current = socket
+
+      socket.onopen = () => {
+        console.log('[WS] Connected to room socket')
+        attempts = 0
+        setConnected(true)
+        setError(null)
+        socket.send(JSON.stringify(presenceMessage(roomId)))
+        pingInterval = setInterval(() => {
+          socket.send(JSON.stringify({ type: 'ping', id: `ping-${Date.now()}` }))
+        }, SOCKET_PING_INTERVAL_MS)
+      }
+
+      socket.onmessage = (event) => {
+        let message: RoomServerMessage
+        try {
+          message = JSON.parse(event.data)
+        } catch (parseError) {
+          console.error('[WS] Failed to parse message:', parseError)
+          return
+        }
+
+        switch (message.type) {
+          case 'state':
+            if (message.roomId === roomId) {
+              const room = message.room
+              if (room) setRoomState((current) => (isStaleRoom(room, current) ? current : room))
+              setPresence(message.presence)
+            }
+            break
+
+          case 'ack':
+            pending.get(message.id)?.({ room: message.room })
+            pending.delete(message.id)
+            break
+
+          case 'error':
+            if (message.id && pending.has(message.id)) {
+              pending.get(message.id)!({ room: message.room, error: message.error, status: message.status })
+              pending.delete(message.id)
+            } else {
+              console.error('[WS] Server error:', message.error)
+              setError(message.error)
+            }
+            break
+        }
+      }
+
+      socket.onclose = () => {
+        if (pingInterval) clearInterval(pingInterval)
+        setConnected(false)
+        setPresence([])
+        pending.forEach((resolve) => resolve({ error: 'Connection closed' }))
+        pending.clear()
+        if (closedByUs) return
+
+        if (attempts < MAX_SOCKET_RECONNECT_ATTEMPTS) {
+          const delay = Math.min(1000 * Math.pow(2, attempts), 10000)
+          attempts++
+          console.log(`[WS] Reconnecting in ${delay}ms (attempt ${attempts})`)
+          reconnectTimeout = setTimeout(open, delay)
+        } else {
+          console.warn('[WS] Room socket unavailable, staying on SSE')
+          setError('WebSocket unavailable')
+        }
+      }
+    }
+
+    open()
+
+    return () => {
+      closedByUs = true
+      if (reconnectTimeout) clearTimeout(reconnectTimeout)
+      if (pingInterval) clearInterval(pingInterval)
+      socketRef.current?.close()
+      socketRef.current = null
+      setRoomState(null)
+    }
+  }, [roomId, presenceMessage])
+
+  const sendMove = useCallback(
+    (move: SignedMove, version: number): Promise<OutboundResult> => {
+      const id = `move-${Date.now()}-${requestCounter.current++}`
+      return new Promise((resolve) => {
+        if (!send({ type: 'move', id, move, version })) {
+          resolve({ error: 'Not connected' })
+          return
+        }
+
+        pendingRef.current.set(id, resolve)
+        setTimeout(() => {
+          if (pendingRef.current.delete(id)) resolve({ error: 'Timed out waiting for the server' })
+        }, SOCKET_REQUEST_TIMEOUT_MS)
+      })
+    },
+    [send],
+  )
+
+  return { connected, roomState, presence, error, sendMove }
+}
+
+// How long to wait before flushing the outbound queue again when the server can't take
+// an update, doubling after every failed try up to the maximum
+const QUEUE_RETRY_DELAY_MS = 5000
+const MAX_QUEUE_RETRY_DELAY_MS = 60000
+
+/**
+ * Room sync for the game page: the WebSocket carries state, presence and moves when it
+ * is available, and SSE with HTTP takes over when it isn't. SSE stays connected either
+ * way for chat and spectator counts.
+ *
+ * Moves and room announcements that can't reach the server go into the persistent
+ * outbound queue (lib/outbound-queue.ts) and are flushed in seq order once either
+ * transport is back. pendingUpdates counts what is still waiting, and queueError says
+ * why an update was given up on after repeated server errors.
+ */
+export function useWebSocketRoomSync(roomId: string | null, address?: string) {
+  const sse = useServerSentEventsRoomSync(roomId, address)
+  const socket = useRoomSocket(roomId, address, sse.authenticated)
+  const [roomState, setRoomState] = useState<Room | null>(null)
+  const [pendingUpdates, setPendingUpdates] = useState(0)
+  const [queueError, setQueueError] = useState<string | null>(null)
+  const flushingRef = useRef(false)
+  const retryTimeoutRef = useRef<NodeJS.Timeout | null>(null)
+  const retryCountRef = useRef(0)
+  const { broadcastRoomUpdate: postRoomUpdate } = sse
+  const { connected: socketConnected, sendMove: sendSocketMove } = socket
+  const online = socketConnected || sse.connectionReady
+
+  // Keep the newest room from either transport; versions tell which one that is
+  const applyRoomState = useCallback((room: Room) => {
+    setRoomState((current) => (isStaleRoom(room, current) ? current : room))
+  }, [])
+
+  useEffect(() => {
+    if (sse.roomState) applyRoomState(sse.roomState)
+  }, [sse.roomState, applyRoomState])
+
+  useEffect(() => {
+    if (socket.roomState) applyRoomState(socket.roomState)
+  }, [socket.roomState, applyRoomState])
+
+  const refreshPendingUpdates = useCallback(() => {
+    setPendingUpdates(roomId ? outboundQueue.list(roomId).length : 0)
+  }, [roomId])
+
+  const deliverMove = useCallback(
+    (move: SignedMove, version: number): Promise<OutboundResult> =>
+      socketConnected ? sendSocketMove(move, version) : simpleRoomManager.submitSignedMove(move, version),
+    [socketConnected, sendSocketMove],
+  )
+
+  const deliver = useCallback(
+    (update: OutboundUpdate): Promise<OutboundResult> =>
+      update.kind === 'room' ? postRoomUpdate(update.room) : deliverMove(update.move, update.version),
+    [postRoomUpdate, deliverMove],
+  )
+
+  const flush = useCallback(async () => {
+    if (!roomId || flushingRef.current) return
+    flushingRef.current = true
+
+    try {
+      for (const update of outboundQueue.list(roomId)) {
+        const result = await deliver(update)
+        if (result.room) applyRoomState(result.room)
+        const outcome = outboundQueue.settle(update, result)
+
+        if (outcome === 'retry') {
+          // Keep this update and everything after it for the next try
+          const delay = Math.min(QUEUE_RETRY_DELAY_MS * Math.pow(2, retryCountRef.current++), MAX_QUEUE_RETRY_DELAY_MS)
+          console.warn(`[v0] Outbound queue flush stopped, retrying in ${delay}ms: ${result.error}`)
+          if (retryTimeoutRef.current) clearTimeout(retryTimeoutRef.current)
+          retryTimeoutRef.current = setTimeout(() => flushRef.current(), delay)
+          break
+        }
+
+        if (outcome === 'given-up') {
+          // The server keeps failing this update; stop holding the rest of the queue behind it
+          console.error(`[v0] Giving up on queued ${update.kind} update (seq ${update.seq}): ${result.error}`)
+          setQueueError(`Could not sync a queued ${update.kind === 'move' ? 'move' : 'room update'}: ${result.error}`)
+          const room = await simpleRoomManager.fetchRoom(roomId)
+          if (room) applyRoomState(room)
+          continue
+        }
+
+        retryCountRef.current = 0
+        if (outcome === 'rejected') {
+          console.warn(`[v0] Dropping queued ${update.kind} update (seq ${update.seq}): ${result.error}`)
+          // Rejections usually carry the current room; refetch it when they don't
+          if (!result.room) {
+            const room = await simpleRoomManager.fetchRoom(roomId)
+            if (room) applyRoomState(room)
+          }
+        } else {
+          console.log(`[v0] Queued ${update.kind} update delivered (seq ${update.seq})`)
+        }
+      }
+    } finally {
+      flushingRef.current = false
+      refreshPendingUpdates()
+    }
+  }, [roomId, deliver, applyRoomState, refreshPendingUpdates])
+
+  // The retry timer outlives the render that set it, so it calls the latest flush
+  const flushRef = useRef(flush)
+  flushRef.current = flush
+
+  // Flush whatever an earlier visit left behind as soon as a transport is up
+  useEffect(() => {
+    refreshPendingUpdates()
+    if (online) flush()
+  }, [online, flush, refreshPendingUpdates])
+
+  useEffect(() => {
+    return () => {
+      if (retryTimeoutRef.current) clearTimeout(retryTimeoutRef.current)
+    }
+  }, [])
+
+  /**
+   * Send a signed move, or queue it when the server can't be reached. Moves wait behind
+   * anything already queued so they arrive in seq order.
+   */
+  const submitMove = useCallback(
+    async (move: SignedMove, version: number): Promise<OutboundResult> => {
+      if (online && outboundQueue.list(move.roomId).length === 0) {
+        const result = await deliverMove(move, version)
+        if (result.status !== undefined) return result
+      }
+
+      outboundQueue.enqueueMove(move, version)
+      refreshPendingUpdates()
+      if (online) flush()
+      return { queued: true }
+    },
+    [online, deliverMove, flush, refreshPendingUpdates],
+  )
+
+  const broadcastRoomUpdate = useCallback(
+    async (roomData: Room): Promise<OutboundResult> => {
+      if (online && outboundQueue.list(roomData.roomId).length === 0) {
+        const result = await postRoomUpdate(roomData)
+        if (result.status !== undefined) return result
+      }
+
+      outboundQueue.enqueueRoom(roomData)
+      refreshPendingUpdates()
+      if (online) flush()
+      return { queued: true }
+    },
+    [online, postRoomUpdate, flush, refreshPendingUpdates],
+  )
+
+  return {
+    ...sse,
+    roomState,
+    transport: socket.connected ? ('websocket' as const) : ('sse' as const),
+    // Presence is only known over the WebSocket
+    presence: socket.connected ? socket.presence : null,
+    pendingUpdates,
+    queueError,
+    submitMove,
+    broadcastRoomUpdate,
+  }
+}
@@ -0,0 +1,49 @@
+import fs from "fs"
+import os from "os"
+import path from "path"
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+import { FileRoomStore } from "./file-room-store"
+
+let directory: string
+let filePath: string
+
+beforeEach(() => {
+  directory = fs.mkdtempSync(path.join(os.tmpdir(), "room-store-"))
+  filePath = path.join(directory, "nested", "rooms.json")
+})
+
+afterEach(() => {
+  fs.rmSync(directory, { recursive: true, force: true })
+})
+
+describe("FileRoomStore", () => {
+  it("serves writes from memory before they reach the file", () => {
+    const store = new FileRoomStore(filePath)
+    store.write("rooms", { a: 1 })
+
+    expect(store.read("rooms")).toEqual({ a: 1 })
+    expect(fs.existsSync(filePath)).toBe(false)
+  })
+
+  it("writes every pending change to the file in one go", async () => {
+    const store = new FileRoomStore(filePath)
+    store.write("rooms", { a: 1 })
+    store.write("sessions", { b: 2 })
+    store.remove("rooms")
+    await store.flush()
+
+    expect(JSON.parse(fs.readFileSync(filePath, "utf8"))).toEqual({ sessions: { b: 2 } })
+    expect(new FileRoomStore(filePath).read("sessions")).toEqual({ b: 2 })
+  })
+
+  it("copies values so callers can't change what was stored", () => {
+    const store = new FileRoomStore(filePath)
+    const value = { players: ["0xa"] }
+    store.write("room", value)
+    value.players.push("0xb")
+
+    const stored = store.read<typeof value>("room")!
+    stored.players.push("0xc")
+    expect(store.read("room")).toEqual({ players: ["0xa"] })
+  })
+})
@@ -0,0 +1,92 @@
+/**
+ * File Room Store
+ *
+ * Server-side RoomStore adapter that keeps every key in a single JSON file so the
+ * room engine's state survives server restarts. Reads and writes go to memory; the file
+ * is rewritten in the background shortly after a change, so a crash can lose the last
+ * FLUSH_DELAY_MS of writes. Server-only: it uses the Node fs module.
+ */
+
+import fs from "fs"
+import path from "path"
+import type { RoomStore } from "./room-store"
+
+const DEFAULT_STORE_PATH = path.join(process.cwd(), ".data", "rooms.json")
+const DEFAULT_ARCHIVE_PATH = path.join(process.cwd(), ".data", "rooms-archive.json")
+
+// Changes within this long of each other are written to the file together
+const FLUSH_DELAY_MS = 1000
+
+export class FileRoomStore implements RoomStore {
+  private data: Record<string, unknown> | null = null
+  private flushTimer?: NodeJS.Timeout
+  // The write in progress, so the next one starts after it
+  private writing: Promise<void> = Promise.resolve()
+
+  constructor(private readonly filePath: string = process.env.ROOM_STORE_PATH || DEFAULT_STORE_PATH) {}
+
+  read<T>(key: string): T | null {
+    const value = this.load()[key]
+    return value === undefined ? null : (JSON.parse(JSON.stringify(value)) as T)
+  }
+
+  write<T>(key: string, value: T): void {
+    const data = this.load()
+    data[key] = JSON.parse(JSON.stringify(value))
+    this.scheduleFlush()
+  }
+
+  remove(key: string): void {
+    const data = this.load()
+    delete data[key]
+    this.scheduleFlush()
+  }
+
+  /**
+   * Write pending changes to the file now. Resolves once they are on disk.
+   */
+  flush(): Promise<void> {
+    if (this.flushTimer) clearTimeout(this.flushTimer)
+    this.flushTimer = undefined
+
+    const contents = JSON.stringify(this.load())
+    this.writing = this.writing.catch(() => undefined).then(() => this.writeFile(contents))
+    return this.writing
+  }
+
+  private load(): Record<string, unknown> {
+    if (this.data) return this.data
+
+    try {
+      this.data = fs.existsSync(this.filePath) ? JSON.parse(fs.readFileSync(this.filePath, "utf8")) : {}
+    } catch (error) {
+      console.warn("[FileRoomStore] Could not read store file, starting empty:", this.filePath, error)
+      this.data = {}
+    }
+    return this.data!
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) return
+
+    this.flushTimer = setTimeout(() => {
+      this.flush().catch((error) => console.warn("[FileRoomStore] Could not write store file:", this.filePath, error))
+    }, FLUSH_DELAY_MS)
+  }
+
+  private async writeFile(contents: string): Promise<void> {
+    // Write to a temporary file and rename so a crash never leaves a half-written store
+    const tempPath = `${this.filePath}.tmp`
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true })
+    await fs.promises.writeFile(tempPath, contents)
+    await fs.promises.rename(tempPath, this.filePath)
+  }
+}
+
+/**
+ * Store for the rooms the engine has archived. It lives in a file of its own, so the
+ * frequent writes to live rooms never rewrite every finished game with them.
+ */
+export function createArchiveRoomStore(): FileRoomStore {
+  return new FileRoomStore(process.env.ROOM_ARCHIVE_PATH || DEFAULT_ARCHIVE_PATH)
+}
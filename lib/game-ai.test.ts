@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest"
+import { canAvoidLoss, getBestMoves } from "./game-ai"
+import type { SolverMemo } from "./game-ai"
+import { BOARD_VARIANTS, createInitialGameState } from "./game-logic"
+
+describe("canAvoidLoss", () => {
+  it("holds for both players on the classic board", () => {
+    const state = createInitialGameState()
+    expect(canAvoidLoss(state, "X")).toBe(true)
+    expect(canAvoidLoss(state, "O")).toBe(true)
+  })
+
+  it("fails for the second player of a wild game", () => {
+    const state = createInitialGameState(undefined, ["wild"])
+    expect(canAvoidLoss(state, "X")).toBe(true)
+    expect(canAvoidLoss(state, "O")).toBe(false)
+  })
+
+  it("fails on boards too large to solve", () => {
+    expect(canAvoidLoss(createInitialGameState(BOARD_VARIANTS["4x4"]), "X")).toBe(false)
+  })
+})
+
+describe("getBestMoves", () => {
+  it("answers from a memo the position was already solved into", () => {
+    const memo: SolverMemo = new Map()
+    const state = createInitialGameState()
+    canAvoidLoss(state, "X", memo)
+    const solved = memo.size
+
+    expect(getBestMoves(state, memo).length).toBeGreaterThan(0)
+    expect(memo.size).toBe(solved)
+  })
+})
@@ -0,0 +1,132 @@
+/**
+ * Game AI
+ *
+ * Local opponent for practice games. Everything runs in the browser on the GameState
+ * from game-logic.ts, so no wallet or server is involved.
+ *
+ * - easy: any legal move
+ * - medium: the perfect move most of the time, a random one otherwise
+ * - perfect: minimax over the whole game tree; it never loses from a position the
+ *   solver shows can't be lost (see canAvoidLoss), which a wild game played second isn't
+ */
+
+import type { GameState, Player } from "@/types/game"
+import { hasRule, makeMove } from "./game-logic"
+
+export type AiLevel = "easy" | "medium" | "perfect"
+
+export const AI_LEVELS: AiLevel[] = ["easy", "medium", "perfect"]
+
+// How often the medium level plays the perfect move instead of a random one
+const MEDIUM_ACCURACY = 0.6
+
+// Largest board the full-depth search can solve in the browser
+const MAX_SOLVABLE_CELLS = 9
+
+export interface AiMove {
+  position: number
+  mark?: Player
+}
+
+/**
+ * Whether the solver can search a game to the end. Larger boards are out of reach.
+ */
+export function isSolvable(state: GameState): boolean {
+  return state.board.length <= MAX_SOLVABLE_CELLS
+}
+
+/**
+ * Whether perfect play from this position guarantees the player at least a draw. False when
+ * the position is too large to solve, or when the opponent can force a win.
+ */
+export function canAvoidLoss(state: GameState, player: Player, memo: SolverMemo = new Map()): boolean {
+  if (state.gameOver) return state.winner === player || state.winner === "draw"
+  if (!isSolvable(state)) return false
+
+  const value = negamax(state, memo)
+  return state.currentPlayer === player ? value >= 0 : value <= 0
+}
+
+/**
+ * Every legal move for the player to move. Wild games allow both marks on each empty cell.
+ */
+export function getLegalMoves(state: GameState): AiMove[] {
+  if (state.gameOver) return []
+
+  const marks: Player[] = hasRule(state.rules, "wild") ? ["X", "O"] : [null]
+  const moves: AiMove[] = []
+  state.board.forEach((cell, position) => {
+    if (cell) return
+    for (const mark of marks) {
+      moves.push(mark ? { position, mark } : { position })
+    }
+  })
+  return moves
+}
+
+export type SolverMemo = Map<string, number>
+
+/**
+ * Minimax value of every legal move for the player to move: positive wins, negative
+ * loses, zero draws. Faster wins and slower losses score further from zero. Positions
+ * of the same game may share a memo to avoid searching the same subtrees again.
+ */
+export function scoreMoves(state: GameState, memo: SolverMemo = new Map()): { move: AiMove; score: number }[] {
+  return getLegalMoves(state).map((move) => ({
+    move,
+    score: -negamax(makeMove(state, move.position, move.mark), memo),
+  }))
+}
+
+/**
+ * Every move with the best minimax value for the player to move
+ */
+export function getBestMoves(state: GameState, memo?: SolverMemo): AiMove[] {
+  const scored = scoreMoves(state, memo)
+  const best = Math.max(...scored.map(({ score }) => score))
+  return scored.filter(({ score }) => score === best).map(({ move }) => move)
+}
+
+/**
+ * The move the AI plays at a level. Returns null when the game is already over.
+ * Pass the game's memo to reuse what earlier searches of the same game found.
+ */
+export function chooseAiMove(
+  state: GameState,
+  level: AiLevel,
+  random: () => number = Math.random,
+  memo?: SolverMemo,
+): AiMove | null {
+  const moves = getLegalMoves(state)
+  if (moves.length === 0) return null
+
+  if (level === "easy" || (level === "medium" && random() >= MEDIUM_ACCURACY)) {
+    return moves[Math.floor(random() * moves.length)]
+  }
+
+  // Pick at random among equally good moves so perfect games don't all look the same
+  const bestMoves = getBestMoves(state, memo)
+  return bestMoves[Math.floor(random() * bestMoves.length)]
+}
+
+// Value of a position for the player to move, searched to the end of the game
+function negamax(state: GameState, memo: SolverMemo): number {
+  if (state.gameOver) {
+    if (state.winner === "draw") return 0
+    // Scale by the empty cells left so the search prefers quick wins
+    const emptyCells = state.board.filter((cell) => !cell).length
+    return state.winner === state.currentPlayer ? emptyCells + 1 : -(emptyCells + 1)
+  }
+
+  const key = `${state.currentPlayer}:${state.board.map((cell) => cell || "-").join("")}`
+  const cached = memo.get(key)
+  if (cached !== undefined) return cached
+
+  let best = -Infinity
+  for (const move of getLegalMoves(state)) {
+    best = Math.max(best, -negamax(makeMove(state, move.position, move.mark), memo))
+  }
+
+  memo.set(key, best)
+  return best
+}
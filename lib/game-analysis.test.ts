@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest"
+import { analyzeGame } from "./game-analysis"
+import { BOARD_VARIANTS } from "./game-logic"
+
+function positions(...moves: number[]) {
+  return moves.map((position) => ({ position }))
+}
+
+describe("analyzeGame", () => {
+  it("marks a missed immediate win as the deciding blunder", () => {
+    // X could complete the top row at 2, but blocks O's middle row instead
+    const analysis = analyzeGame(positions(0, 3, 1, 4, 5))!
+    const missed = analysis.moves[4]
+
+    expect(missed.player).toBe("X")
+    expect(missed.quality).toBe("blunder")
+    expect(missed.outcomeBefore).toBe("win")
+    expect(missed.outcomeAfter).toBe("draw")
+    expect(missed.bestMoves.map(({ position }) => position)).toEqual([2])
+    expect(analysis.decidingMove).toBe(4)
+  })
+
+  it("marks a move that allows a forced loss as the deciding blunder", () => {
+    // An edge reply to a center opening loses to best play
+    const analysis = analyzeGame(positions(4, 1))!
+
+    expect(analysis.moves[0].quality).toBe("best")
+    expect(analysis.moves[1]).toMatchObject({ player: "O", quality: "blunder", outcomeBefore: "draw", outcomeAfter: "loss" })
+    expect(analysis.decidingMove).toBe(1)
+  })
+
+  it("marks a move that holds a drawn position as best", () => {
+    // A corner reply to a center opening holds the draw
+    const analysis = analyzeGame(positions(4, 0))!
+    const reply = analysis.moves[1]
+
+    expect(reply).toMatchObject({ quality: "best", outcomeBefore: "draw", outcomeAfter: "draw" })
+    expect(reply.bestMoves.map(({ position }) => position).sort()).toEqual([0, 2, 6, 8])
+    expect(analysis.decidingMove).toBeNull()
+  })
+
+  it("refuses an illegal move and boards too large to solve", () => {
+    expect(() => analyzeGame(positions(4, 4))).toThrow("Move 1 at position 4 is not legal")
+    expect(analyzeGame(positions(0), BOARD_VARIANTS["4x4"])).toBeNull()
+  })
+})
@@ -0,0 +1,92 @@
+/**
+ * Game Analysis
+ *
+ * Post-game review built on the solver in game-ai.ts. Each move of a finished game is
+ * replayed and compared with the best move in that position:
+ *
+ * - best: as good as the solver's choice
+ * - inaccuracy: keeps the same result, but wins slower or loses faster than it had to
+ * - blunder: gives away the result, e.g. turns a won game into a draw or a draw into a loss
+ *
+ * The game was decided by the last move that changed the result with best play from both sides.
+ */
+
+import type { BoardVariant, GameRule, GameState, Player } from "@/types/game"
+import { createInitialGameState, hasRule, makeMove } from "./game-logic"
+import { isSolvable, scoreMoves, type AiMove, type SolverMemo } from "./game-ai"
+
+export type MoveQuality = "best" | "inaccuracy" | "blunder"
+
+export type Outcome = "win" | "draw" | "loss"
+
+export interface AnalyzedMove {
+  position: number
+  mark?: Player // Only set in wild games
+  player: Player // Who made the move
+  quality: MoveQuality
+  bestMoves: AiMove[] // What the solver would have played instead
+  outcomeBefore: Outcome // Result with best play from here, for the mover
+  outcomeAfter: Outcome // Result with best play after the move, for the mover
+  stateBefore: GameState // Position the move was made in
+}
+
+export interface GameAnalysis {
+  moves: AnalyzedMove[]
+  decidingMove: number | null // Index into moves, or null when best play was never broken
+}
+
+function toOutcome(score: number): Outcome {
+  return score > 0 ? "win" : score < 0 ? "loss" : "draw"
+}
+
+/**
+ * Analyze a game from its moves in order. Returns null for boards too large to solve.
+ * Throws if a move is not legal in the position it was played in.
+ */
+export function analyzeGame(
+  moves: { position: number; mark?: Player }[],
+  variant?: BoardVariant,
+  rules: GameRule[] = [],
+): GameAnalysis | null {
+  let state = createInitialGameState(variant, rules)
+  if (!isSolvable(state)) return null
+
+  const memo: SolverMemo = new Map()
+  const analyzed: AnalyzedMove[] = []
+  let decidingMove: number | null = null
+
+  moves.forEach(({ position, mark }, index) => {
+    const scored = scoreMoves(state, memo)
+    const bestScore = Math.max(...scored.map(({ score }) => score))
+    // A wild move without a mark places the mover's own symbol, as in makeMove
+    const playedMark = hasRule(rules, "wild") ? mark || state.currentPlayer : null
+    const played = scored.find(({ move }) => move.position === position && (move.mark || null) === playedMark)
+    if (!played) {
+      throw new Error(`Move ${index} at position ${position} is not legal`)
+    }
+
+    const outcomeBefore = toOutcome(bestScore)
+    const outcomeAfter = toOutcome(played.score)
+    let quality: MoveQuality = "best"
+    if (outcomeAfter !== outcomeBefore) {
+      quality = "blunder"
+      decidingMove = index
+    } else if (played.score < bestScore) {
+      quality = "inaccuracy"
+    }
+
+    analyzed.push({
+      position,
+      mark: played.move.mark,
+      player: state.currentPlayer,
+      quality,
+      bestMoves: scored.filter(({ score }) => score === bestScore).map(({ move }) => move),
+      outcomeBefore,
+      outcomeAfter,
+      stateBefore: state,
+    })
+    state = makeMove(state, position, playedMark)
+  })
+
+  return { moves: analyzed, decidingMove }
+}
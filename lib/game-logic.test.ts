@@ -0,0 +1,174 @@
+import { describe, expect, it } from "vitest"
+import type { SignedMove } from "@/types/game"
+import {
+  BOARD_VARIANTS,
+  checkWinner,
+  createInitialGameState,
+  decideSeries,
+  findBoardVariant,
+  findGameRules,
+  getWinningLines,
+  makeMove,
+  replayMoveLog,
+  replayPositions,
+  replaySeriesLog,
+} from "./game-logic"
+
+const ALICE = "0xa"
+const BOB = "0xb"
+
+function play(positions: number[], state = createInitialGameState()) {
+  return positions.reduce((current, position) => makeMove(current, position), state)
+}
+
+// A move log where movers[seq] made move seq
+function log(positions: number[], movers: string[]): SignedMove[] {
+  return positions.map((position, seq) => ({ roomId: "room", seq, position, player: movers[seq], signature: "" }))
+}
+
+describe("makeMove", () => {
+  it("alternates marks and detects a row", () => {
+    const state = play([0, 3, 1, 4, 2])
+    expect(state.board.slice(0, 3)).toEqual(["X", "X", "X"])
+    expect(state.winner).toBe("X")
+    expect(state.gameOver).toBe(true)
+  })
+
+  it("returns the same state for an occupied cell or a finished game", () => {
+    const state = play([4])
+    expect(makeMove(state, 4)).toBe(state)
+
+    const finished = play([0, 3, 1, 4, 2])
+    expect(makeMove(finished, 8)).toBe(finished)
+  })
+
+  it("calls a full board without a line a draw", () => {
+    const state = play([0, 1, 2, 4, 3, 5, 7, 6, 8])
+    expect(state.winner).toBe("draw")
+  })
+
+  it("gives the line to the opponent under misère rules", () => {
+    const state = play([0, 3, 1, 4, 2], createInitialGameState(BOARD_VARIANTS.classic, ["misere"]))
+    expect(state.winner).toBe("O")
+  })
+
+  it("lets wild moves place either mark and credits whoever completes the line", () => {
+    let state = createInitialGameState(BOARD_VARIANTS.classic, ["wild"])
+    state = makeMove(state, 0, "O") // X places an O
+    state = makeMove(state, 1, "O")
+    state = makeMove(state, 2, "O") // X completes the line of Os
+    expect(state.winner).toBe("X")
+  })
+
+  it("rejects a chosen mark outside wild games", () => {
+    const state = createInitialGameState()
+    expect(makeMove(state, 0, "O")).toBe(state)
+  })
+})
+
+describe("board variants", () => {
+  it("finds presets and falls back to the classic board", () => {
+    expect(findBoardVariant({ width: 5, height: 5, k: 4 })).toBe(BOARD_VARIANTS["5x5"])
+    expect(findBoardVariant({ width: 6, height: 6, k: 4 })).toBe(BOARD_VARIANTS.classic)
+  })
+
+  it("counts the winning lines of an m,n,k board", () => {
+    expect(getWinningLines(BOARD_VARIANTS.classic)).toHaveLength(8)
+    // 4 in a row on 5x5: 10 per direction for rows and columns, 4 per diagonal direction
+    expect(getWinningLines(BOARD_VARIANTS["5x5"])).toHaveLength(28)
+  })
+
+  it("needs k in a row on larger boards", () => {
+    const variant = BOARD_VARIANTS["4x4"]
+    const board = Array(16).fill(null)
+    board[0] = board[1] = board[2] = "X"
+    expect(checkWinner(board, variant)).toBeNull()
+    board[3] = "X"
+    expect(checkWinner(board, variant)).toBe("X")
+  })
+
+  it("keeps only known rules, and only the opening rule for ultimate", () => {
+    expect(findGameRules(["wild", "bogus", "misere"])).toEqual(["misere", "wild"])
+    expect(findGameRules(["wild", "random-first-player"], "ultimate")).toEqual(["random-first-player"])
+  })
+})
+
+describe("replayMoveLog", () => {
+  it("replays a legal log", () => {
+    const state = replayMoveLog(log([0, 3, 1, 4, 2], [ALICE, BOB, ALICE, BOB, ALICE]), [ALICE, BOB])
+    expect(state.winner).toBe("X")
+  })
+
+  it("rejects moves out of turn or out of order", () => {
+    const outOfTurn = log([0, 1], [ALICE, ALICE])
+    expect(() => replayMoveLog(outOfTurn, [ALICE, BOB])).toThrow(/expected 0xb/)
+
+    const outOfOrder = [{ roomId: "room", seq: 1, position: 0, player: ALICE, signature: "" }]
+    expect(() => replayMoveLog(outOfOrder, [ALICE, BOB])).toThrow(/out of order/)
+  })
+})
+
+describe("replayPositions", () => {
+  // Stepping to move n shows the same position as a log of the first n moves
+  function expectEveryStepToMatchLog(moves: SignedMove[], setup: Parameters<typeof replayPositions>[1]) {
+    const positions = replayPositions(moves, setup)
+    expect(positions).toHaveLength(moves.length + 1)
+    positions.forEach((position, n) => {
+      expect(position).toEqual(replayMoveLog(moves.slice(0, n), [ALICE, BOB], setup))
+    })
+    return positions
+  }
+
+  it("steps through a classic game one move at a time", () => {
+    const moves = log([0, 3, 1, 4, 2], [ALICE, BOB, ALICE, BOB, ALICE])
+    const positions = expectEveryStepToMatchLog(moves, {})
+
+    expect(positions[0].board.every((cell) => cell === null)).toBe(true)
+    expect(positions[3].board).toEqual(["X", "X", null, "O", null, null, null, null, null])
+    expect(positions[4].winner).toBeNull()
+    expect(positions[5].winner).toBe("X")
+  })
+
+  it("steps through an Ultimate game, including the sub-board a move sends the opponent to", () => {
+    // O takes the top row of the center sub-board with its sixth move
+    const moves = log([40, 36, 4, 37, 13, 38], [ALICE, BOB, ALICE, BOB, ALICE, BOB])
+    const positions = expectEveryStepToMatchLog(moves, { gameType: "ultimate" })
+
+    expect(positions[1]).toMatchObject({ activeSubBoard: 4 })
+    expect(positions[2].board[36]).toBe("O")
+    expect(positions[5]).toMatchObject({ subBoardWinners: Array(9).fill(null) })
+    expect(positions[6]).toMatchObject({ activeSubBoard: 2 })
+    expect(positions[6]).toHaveProperty("subBoardWinners.4", "O")
+  })
+
+  it("steps through a wild game with the marks that were chosen", () => {
+    // Both players place O, and ALICE completes the diagonal
+    const moves = log([0, 4, 8], [ALICE, BOB, ALICE]).map((move) => ({ ...move, mark: "O" as const }))
+    const positions = expectEveryStepToMatchLog(moves, { rules: ["wild"] })
+
+    expect(positions[2].board).toEqual(["O", null, null, null, "O", null, null, null, null])
+    expect(positions[2].gameOver).toBe(false)
+    expect(positions[3].winner).toBe("X")
+  })
+})
+
+describe("series", () => {
+  it("decides a series once a player can't be caught", () => {
+    expect(decideSeries([2, 0], 2, 3)).toBe(0)
+    expect(decideSeries([1, 1], 2, 3)).toBeNull()
+    expect(decideSeries([1, 1], 3, 3)).toBe("draw")
+  })
+
+  it("swaps who plays X between games of a series", () => {
+    // ALICE plays X and takes the top row, then BOB plays X and does the same
+    const moves = log(
+      [0, 3, 1, 4, 2, 0, 3, 1, 4, 2],
+      [ALICE, BOB, ALICE, BOB, ALICE, BOB, ALICE, BOB, ALICE, BOB],
+    )
+
+    const replay = replaySeriesLog(moves, [ALICE, BOB], 3)
+    expect(replay.wins).toEqual([1, 1])
+    expect(replay.result).toBeNull()
+    expect(replay.games).toHaveLength(2)
+  })
+})
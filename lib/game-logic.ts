@@ -1,24 +1,83 @@
-import type { GameState, Player } from "@/types/game"
+import type { BoardVariant, GameRule, GameState, GameType, Player, SignedMove, UltimateGameState } from "@/types/game"
 
-export function createInitialGameState(): GameState {
+export type BoardVariantName = "classic" | "4x4" | "5x5" | "7x7"
+
+// m,n,k boards: width x height, k marks in a row to win
+export const BOARD_VARIANTS: Record<BoardVariantName, BoardVariant> = {
+  classic: { width: 3, height: 3, k: 3 },
+  "4x4": { width: 4, height: 4, k: 4 },
+  "5x5": { width: 5, height: 5, k: 4 },
+  "7x7": { width: 7, height: 7, k: 5 },
+}
+
+export const CLASSIC_BOARD = BOARD_VARIANTS.classic
+
+/**
+ * The preset matching a requested board variant, or the classic 3x3 board
+ */
+export function findBoardVariant(requested?: Partial<BoardVariant>): BoardVariant {
+  const match = Object.values(BOARD_VARIANTS).find(
+    (variant) => variant.width === requested?.width && variant.height === requested?.height && variant.k === requested?.k,
+  )
+  return match || CLASSIC_BOARD
+}
+
+export function isClassicBoard(variant?: BoardVariant): boolean {
+  return !variant || findBoardVariant(variant) === CLASSIC_BOARD
+}
+
+export const GAME_RULES: GameRule[] = ["misere", "wild", "random-first-player"]
+
+// Ultimate TicTacToe keeps its own win condition, so only the opening rule applies to it
+const ULTIMATE_RULES: GameRule[] = ["random-first-player"]
+
+/**
+ * The known rules among the requested ones, without duplicates, in a fixed order
+ */
+export function findGameRules(requested?: string[], gameType?: GameType): GameRule[] {
+  const allowed = gameType === "ultimate" ? ULTIMATE_RULES : GAME_RULES
+  return allowed.filter((rule) => requested?.includes(rule))
+}
+
+export function hasRule(rules: GameRule[] | undefined, rule: GameRule): boolean {
+  return !!rules?.includes(rule)
+}
+
+export function createInitialGameState(variant: BoardVariant = CLASSIC_BOARD, rules: GameRule[] = []): GameState {
   return {
-    board: Array(9).fill(null),
+    board: Array(variant.width * variant.height).fill(null),
     currentPlayer: "X",
     winner: null,
     gameOver: false,
     moves: 0,
+    variant,
+    rules,
   }
 }
 
-export function makeMove(gameState: GameState, position: number): GameState {
-  if (gameState.board[position] || gameState.gameOver) {
+/**
+ * Place a mark for the current player. In wild games the mover picks the mark; otherwise
+ * it is always their own symbol. Returns the same state object when the move is illegal.
+ */
+export function makeMove(gameState: GameState, position: number, mark?: Player): GameState {
+  if (position < 0 || position >= gameState.board.length || gameState.board[position] || gameState.gameOver) {
+    return gameState
+  }
+
+  const wild = hasRule(gameState.rules, "wild")
+  if (mark && mark !== gameState.currentPlayer && !wild) {
     return gameState
   }
 
   const newBoard = [...gameState.board]
-  newBoard[position] = gameState.currentPlayer
+  newBoard[position] = wild && mark ? mark : gameState.currentPlayer
 
-  const winner = checkWinner(newBoard)
+  // In wild games a line of either mark belongs to whoever completed it
+  let winner: Player = null
+  if (getWinningLine(newBoard, gameState.variant)) {
+    winner = wild ? gameState.currentPlayer : checkWinner(newBoard, gameState.variant)
+    if (hasRule(gameState.rules, "misere")) winner = winner === "X" ? "O" : "X"
+  }
   const isDraw = !winner && newBoard.every((cell) => cell !== null)
 
   return {
@@ -31,49 +90,258 @@ export function makeMove(gameState: GameState, position: number): GameState {
   }
 }
 
-export function checkWinner(board: Player[]): Player | null {
-  const winningCombinations = [
-    [0, 1, 2],
-    [3, 4, 5],
-    [6, 7, 8], // rows
-    [0, 3, 6],
-    [1, 4, 7],
-    [2, 5, 8], // columns
-    [0, 4, 8],
-    [2, 4, 6], // diagonals
+const winningLinesCache = new Map<string, number[][]>()
+
+/**
+ * Every run of k cells in a row, column or diagonal on a width x height board, as board indexes
+ */
+export function getWinningLines(variant: BoardVariant = CLASSIC_BOARD): number[][] {
+  const { width, height, k } = variant
+  const key = `${width}x${height}x${k}`
+  const cached = winningLinesCache.get(key)
+  if (cached) return cached
+
+  const directions = [
+    [1, 0], // rows
+    [0, 1], // columns
+    [1, 1], // diagonals
+    [-1, 1], // anti-diagonals
   ]
 
-  for (const [a, b, c] of winningCombinations) {
-    if (board[a] && board[a] === board[b] && board[a] === board[c]) {
-      return board[a]
+  const lines: number[][] = []
+  for (const [dx, dy] of directions) {
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const endX = x + dx * (k - 1)
+        const endY = y + dy * (k - 1)
+        if (endX < 0 || endX >= width || endY >= height) continue
+
+        lines.push(Array.from({ length: k }, (_, i) => (y + dy * i) * width + (x + dx * i)))
+      }
     }
   }
 
-  return null
+  winningLinesCache.set(key, lines)
+  return lines
 }
 
-export function getWinningLine(board: Player[]): number[] | null {
-  const winningCombinations = [
-    [0, 1, 2],
-    [3, 4, 5],
-    [6, 7, 8], // rows
-    [0, 3, 6],
-    [1, 4, 7],
-    [2, 5, 8], // columns
-    [0, 4, 8],
-    [2, 4, 6], // diagonals
-  ]
+/**
+ * The winner of a board decided by who owns a line: the line's owner, or their opponent
+ * under misère rules. Wild games are decided by who completed the line instead (see makeMove).
+ */
+export function checkWinner(board: Player[], variant: BoardVariant = CLASSIC_BOARD, rules?: GameRule[]): Player | null {
+  const line = getWinningLine(board, variant)
+  if (!line) return null
 
-  for (const combination of winningCombinations) {
-    const [a, b, c] = combination
-    if (board[a] && board[a] === board[b] && board[a] === board[c]) {
-      return combination
+  const owner = board[line[0]]
+  return hasRule(rules, "misere") ? (owner === "X" ? "O" : "X") : owner
+}
+
+export function getWinningLine(board: Player[], variant: BoardVariant = CLASSIC_BOARD): number[] | null {
+  for (const line of getWinningLines(variant)) {
+    const first = board[line[0]]
+    if (first && line.every((index) => board[index] === first)) {
+      return line
     }
   }
 
   return null
 }
 
+// Ultimate TicTacToe
+
+const ULTIMATE_CELLS = 9 // Sub-boards in the grid, and cells in each sub-board
+
+export function createInitialUltimateState(): UltimateGameState {
+  return {
+    board: Array(ULTIMATE_CELLS * ULTIMATE_CELLS).fill(null),
+    subBoardWinners: Array(ULTIMATE_CELLS).fill(null),
+    activeSubBoard: null,
+    currentPlayer: "X",
+    winner: null,
+    gameOver: false,
+    moves: 0,
+  }
+}
+
+/**
+ * Why a position may not be played in an Ultimate game, or null when it may
+ */
+export function getUltimateMoveError(state: UltimateGameState, position: number): string | null {
+  if (state.gameOver) return "Game is over"
+  if (!Number.isInteger(position) || position < 0 || position >= state.board.length) return `Invalid position: ${position}`
+  if (state.board[position]) return `Position ${position} already occupied`
+
+  const subBoard = Math.floor(position / ULTIMATE_CELLS)
+  if (state.subBoardWinners[subBoard]) return `Sub-board ${subBoard} is already decided`
+  if (state.activeSubBoard !== null && subBoard !== state.activeSubBoard) {
+    return `Must play in sub-board ${state.activeSubBoard}`
+  }
+  return null
+}
+
+/**
+ * Play a position in an Ultimate game. Returns the same state object when the move is illegal.
+ * A sub-board is won like a classic board; the game is won by three sub-boards in a row,
+ * and drawn once every sub-board is decided without one.
+ */
+export function makeUltimateMove(state: UltimateGameState, position: number): UltimateGameState {
+  if (getUltimateMoveError(state, position)) return state
+
+  const board = [...state.board]
+  board[position] = state.currentPlayer
+
+  const subBoard = Math.floor(position / ULTIMATE_CELLS)
+  const subCells = board.slice(subBoard * ULTIMATE_CELLS, (subBoard + 1) * ULTIMATE_CELLS)
+  const subWinner = checkWinner(subCells) || (subCells.every((cell) => cell !== null) ? "draw" : null)
+
+  const subBoardWinners = [...state.subBoardWinners]
+  subBoardWinners[subBoard] = subWinner
+
+  const winner = checkWinner(subBoardWinners.map((cell) => (cell === "draw" ? null : cell)))
+  const isDraw = !winner && subBoardWinners.every((cell) => cell !== null)
+
+  // The cell just played points at the sub-board the opponent must use, unless that one is decided
+  const nextSubBoard = position % ULTIMATE_CELLS
+
+  return {
+    board,
+    subBoardWinners,
+    activeSubBoard: subBoardWinners[nextSubBoard] ? null : nextSubBoard,
+    currentPlayer: state.currentPlayer === "X" ? "O" : "X",
+    winner: winner || (isDraw ? "draw" : null),
+    gameOver: winner !== null || isDraw,
+    moves: state.moves + 1,
+  }
+}
+
+// Any game type, for code that only needs turns and results
+
+export type AnyGameState = GameState | UltimateGameState
+
+export interface GameSetup {
+  gameType?: GameType // Classic m,n,k TicTacToe when unset
+  variant?: BoardVariant // Board for TicTacToe games; Ultimate always uses its own grid
+  rules?: GameRule[]
+}
+
+export function isUltimateState(state: AnyGameState): state is UltimateGameState {
+  return "subBoardWinners" in state
+}
+
+export function createGame(setup: GameSetup = {}): AnyGameState {
+  return setup.gameType === "ultimate" ? createInitialUltimateState() : createInitialGameState(setup.variant, setup.rules)
+}
+
+export function playMove(state: AnyGameState, position: number, mark?: Player): AnyGameState {
+  return isUltimateState(state) ? makeUltimateMove(state, position) : makeMove(state, position, mark)
+}
+
+/**
+ * Every position of a game from the empty board, one more per move, for stepping through a replay.
+ * Index n is the position after the first n moves.
+ */
+export function replayPositions(moves: { position: number; mark?: Player }[], setup: GameSetup = {}): AnyGameState[] {
+  const positions = [createGame(setup)]
+  moves.forEach(({ position, mark }) => positions.push(playMove(positions[positions.length - 1], position, mark)))
+  return positions
+}
+
+/**
+ * Replay a move log from an empty board, checking sequence numbers and turn order.
+ * players[0] plays X and players[1] plays O. Throws if the log is not a legal game.
+ */
+export function replayMoveLog(moveLog: SignedMove[], players: string[], setup: GameSetup = {}): AnyGameState {
+  let gameState = createGame(setup)
+
+  moveLog.forEach((move, index) => {
+    if (move.seq !== index) {
+      throw new Error(`Move log out of order: expected seq ${index}, got ${move.seq}`)
+    }
+
+    const expectedPlayer = gameState.currentPlayer === "X" ? players[0] : players[1]
+    if (move.player !== expectedPlayer) {
+      throw new Error(`Move ${move.seq} was made by ${move.player}, expected ${expectedPlayer}`)
+    }
+
+    const nextState = playMove(gameState, move.position, move.mark)
+    if (nextState === gameState) {
+      throw new Error(`Move ${move.seq} at position ${move.position} is not legal`)
+    }
+    gameState = nextState
+  })
+
+  return gameState
+}
+
+/**
+ * Result of a best-of-N series: the index into players of the series winner,
+ * "draw" when the games ran out with equal wins, or null while it is undecided.
+ * Drawn games count as played but give no win.
+ */
+export function decideSeries(wins: number[], gamesPlayed: number, bestOf: number): number | "draw" | null {
+  const remaining = Math.max(0, bestOf - gamesPlayed)
+  if (wins[0] > wins[1] + remaining) return 0
+  if (wins[1] > wins[0] + remaining) return 1
+  return remaining === 0 ? "draw" : null
+}
+
+export interface SeriesReplay {
+  games: AnyGameState[] // Every game in order; the last one may be unfinished
+  wins: number[] // Games won by players[0] and players[1]
+  result: number | "draw" | null // See decideSeries
+}
+
+/**
+ * Replay a best-of-N series from one move log. Sequence numbers keep counting across
+ * games, and players[0] plays X in odd games while players[1] plays X in even ones.
+ * Throws if the log is not a legal series or continues after the series was decided.
+ */
+export function replaySeriesLog(
+  moveLog: SignedMove[],
+  players: string[],
+  bestOf: number,
+  setup: GameSetup = {},
+): SeriesReplay {
+  const games: AnyGameState[] = []
+  const wins = [0, 0]
+  let gameState = createGame(setup)
+  let result: SeriesReplay["result"] = null
+
+  moveLog.forEach((move, index) => {
+    if (move.seq !== index) {
+      throw new Error(`Move log out of order: expected seq ${index}, got ${move.seq}`)
+    }
+
+    if (result !== null) {
+      throw new Error(`Move ${move.seq} was made after the series was decided`)
+    }
+
+    const xIndex = games.length % 2
+    const expectedPlayer = gameState.currentPlayer === "X" ? players[xIndex] : players[1 - xIndex]
+    if (move.player !== expectedPlayer) {
+      throw new Error(`Move ${move.seq} was made by ${move.player}, expected ${expectedPlayer}`)
+    }
+
+    const nextState = playMove(gameState, move.position, move.mark)
+    if (nextState === gameState) {
+      throw new Error(`Move ${move.seq} at position ${move.position} is not legal`)
+    }
+    gameState = nextState
+
+    if (gameState.gameOver) {
+      if (gameState.winner === "X") wins[xIndex]++
+      if (gameState.winner === "O") wins[1 - xIndex]++
+      games.push(gameState)
+      result = decideSeries(wins, games.length, bestOf)
+      gameState = createGame(setup)
+    }
+  })
+
+  if (result === null && gameState.moves > 0) games.push(gameState)
+  return { games, wins, result }
+}
+
 export function generateGameHash(board: Player[], moves: number, roomId: string): string {
   const gameData = {
     board,
@@ -1,13 +1,18 @@
 import { suiContract } from "./sui-integration"
 import { globalRoomSync, type RoomSyncEvent } from "./global-room-sync"
+import { applyMove, checkMove, fromGameRoom, toGameRoom } from "./room"
+import { browserRoomStore, ROOM_STORE_KEYS, type RoomStore } from "./room-store"
 
+/**
+ * @deprecated Legacy room shape; convert with fromGameRoom/toGameRoom from lib/room
+ */
 export interface GameRoom {
   id: string
   name: string
   treasuryId?: string
   betAmount: number
   players: string[]
-  playersPresent: string[]  // Track which players are actively present
+  version?: number // Bumped on every local change; cross-tab updates only replace older versions
   gameState: "waiting" | "playing" | "finished"
   board: (string | null)[]
   currentPlayer: string
@@ -16,17 +21,14 @@ export interface GameRoom {
   createdAt: number
 }
 
-// Global room storage that persists across browser sessions
-const GLOBAL_ROOMS_STORAGE_KEY = 'global-game-rooms'
-const LEGACY_SHARED_ROOMS_STORAGE_KEY = 'shared-game-rooms'
+type RoomsData = Record<string, GameRoom>
 
-class GameStateManager {
+export class GameStateManager {
   private rooms = new Map<string, GameRoom>()
   private listeners = new Map<string, ((room: GameRoom) => void)[]>()
-  private readonly STORAGE_KEY = 'game-rooms'
   private globalSyncUnsubscribe?: () => void
 
-  constructor() {
+  constructor(private readonly store: RoomStore = browserRoomStore) {
     this.loadRoomsFromStorage()
     this.loadGlobalRooms()
     this.migrateLegacySharedRooms()
@@ -57,12 +59,14 @@ class GameStateManager {
           this.rooms.set(event.room.id, event.room)
           console.log('[GameState] Added room from global sync:', event.room.id)
         } else if (event.room && this.rooms.has(event.room.id)) {
-          // Update existing room with latest data
+          // Update existing room with latest data; older or concurrent versions are dropped
           const existingRoom = this.rooms.get(event.room.id)!
-          if (event.room.createdAt >= existingRoom.createdAt) {
+          if ((event.room.version || 0) > (existingRoom.version || 0)) {
             this.rooms.set(event.room.id, event.room)
             this.notifyListeners(event.room.id, event.room)
             console.log('[GameState] Updated room from global sync:', event.room.id)
+          } else {
+            console.warn('[GameState] Ignoring stale room from global sync:', event.room.id, event.room.version || 0)
           }
         }
         break
@@ -104,14 +108,11 @@ class GameStateManager {
   }
 
   private loadRoomsFromStorage(): void {
-    if (typeof window === 'undefined') return
-    
     try {
-      const stored = localStorage.getItem(this.STORAGE_KEY)
-      if (stored) {
-        const roomsData = JSON.parse(stored)
+      const roomsData = this.store.read<RoomsData>(ROOM_STORE_KEYS.gameRooms)
+      if (roomsData) {
         Object.entries(roomsData).forEach(([id, room]) => {
-          this.rooms.set(id, room as GameRoom)
+          this.rooms.set(id, room)
         })
       }
     } catch (error) {
@@ -120,16 +121,13 @@ class GameStateManager {
   }
 
   private loadSharedRooms(): void {
-    if (typeof window === 'undefined') return
-    
     try {
-      const sharedRooms = localStorage.getItem(LEGACY_SHARED_ROOMS_STORAGE_KEY)
-      if (sharedRooms) {
-        const roomsData = JSON.parse(sharedRooms)
+      const roomsData = this.store.read<RoomsData>(ROOM_STORE_KEYS.legacySharedRooms)
+      if (roomsData) {
         Object.entries(roomsData).forEach(([id, room]) => {
           // Only add room if it doesn't exist locally to avoid conflicts
           if (!this.rooms.has(id)) {
-            this.rooms.set(id, room as GameRoom)
+            this.rooms.set(id, room)
           }
         })
         console.log('[v0] Loaded legacy shared rooms:', Object.keys(roomsData).length)
@@ -140,8 +138,6 @@ class GameStateManager {
   }
 
   private loadGlobalRooms(): void {
-    if (typeof window === 'undefined') return
-    
     try {
       // Load from the global sync service
       const globalRooms = globalRoomSync.getGlobalRooms()
@@ -157,50 +153,25 @@ class GameStateManager {
       })
       
       console.log('[GameState] Loaded global rooms:', Object.keys(globalRooms).length)
-      
-      // Also load from legacy storage for backward compatibility
-      const legacyGlobalRooms = localStorage.getItem(GLOBAL_ROOMS_STORAGE_KEY)
-      if (legacyGlobalRooms) {
-        const roomsData = JSON.parse(legacyGlobalRooms)
-        Object.entries(roomsData).forEach(([id, room]) => {
-          const roomData = room as GameRoom
-          const isRelevant = roomData.gameState === 'waiting' || 
-                           (Date.now() - roomData.createdAt) < 300000 // 5 minutes
-          
-          if (isRelevant && !this.rooms.has(id)) {
-            this.rooms.set(id, roomData)
-            // Migrate to new global sync service
-            globalRoomSync.saveRoomToGlobal(roomData)
-          }
-        })
-      }
     } catch (error) {
       console.warn('[GameState] Failed to load global rooms from storage:', error)
     }
   }
 
   private migrateLegacySharedRooms(): void {
-    if (typeof window === 'undefined') return
-    
     try {
-      const legacySharedRooms = localStorage.getItem(LEGACY_SHARED_ROOMS_STORAGE_KEY)
-      if (legacySharedRooms) {
-        const roomsData = JSON.parse(legacySharedRooms)
-        
+      const roomsData = this.store.read<RoomsData>(ROOM_STORE_KEYS.legacySharedRooms)
+      if (roomsData) {
         // Migrate to global storage
-        const globalRooms = localStorage.getItem(GLOBAL_ROOMS_STORAGE_KEY)
-        const globalRoomsData = globalRooms ? JSON.parse(globalRooms) : {}
-        
-        Object.entries(roomsData).forEach(([id, room]) => {
-          if (!globalRoomsData[id]) {
-            globalRoomsData[id] = room
+        const globalRooms = globalRoomSync.getGlobalRooms()
+        Object.values(roomsData).forEach((room) => {
+          if (!globalRooms[room.id]) {
+            globalRoomSync.saveRoomToGlobal(room)
           }
         })
         
-        localStorage.setItem(GLOBAL_ROOMS_STORAGE_KEY, JSON.stringify(globalRoomsData))
-        
         // Clear legacy storage after migration
-        localStorage.removeItem(LEGACY_SHARED_ROOMS_STORAGE_KEY)
+        this.store.remove(ROOM_STORE_KEYS.legacySharedRooms)
         console.log('[v0] Migrated legacy shared rooms to global storage')
       }
     } catch (error) {
@@ -209,34 +180,22 @@ class GameStateManager {
   }
 
   private saveRoomsToStorage(): void {
-    if (typeof window === 'undefined') return
-    
     try {
-      const roomsData: Record<string, GameRoom> = {}
+      const roomsData: RoomsData = {}
       this.rooms.forEach((room, id) => {
         roomsData[id] = room
       })
-      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(roomsData))
+      this.store.write(ROOM_STORE_KEYS.gameRooms, roomsData)
     } catch (error) {
       console.warn('[v0] Failed to save rooms to storage:', error)
     }
   }
 
   private saveToSharedStorage(room: GameRoom): void {
-    if (typeof window === 'undefined') return
-    
     try {
-      // Save to the new global sync service
-      globalRoomSync.saveRoomToGlobal(room)
-      
-      // Also maintain legacy storage for backward compatibility
-      const globalRooms = localStorage.getItem(GLOBAL_ROOMS_STORAGE_KEY)
-      const roomsData = globalRooms ? JSON.parse(globalRooms) : {}
-      
       // Save all rooms that are waiting or recently created to global storage
       if (room.gameState === 'waiting' || (Date.now() - room.createdAt) < 600000) { // 10 minutes
-        roomsData[room.id] = room
-        localStorage.setItem(GLOBAL_ROOMS_STORAGE_KEY, JSON.stringify(roomsData))
+        globalRoomSync.saveRoomToGlobal(room)
         console.log('[GameState] Saved room to global storage:', room.id)
       }
     } catch (error) {
@@ -245,51 +204,26 @@ class GameStateManager {
   }
 
   private removeFromSharedStorage(roomId: string): void {
-    if (typeof window === 'undefined') return
-    
     try {
-      // Remove from global sync service
       globalRoomSync.removeRoomFromGlobal(roomId)
-      
-      // Also remove from legacy storage
-      const globalRooms = localStorage.getItem(GLOBAL_ROOMS_STORAGE_KEY)
-      if (globalRooms) {
-        const roomsData = JSON.parse(globalRooms)
-        delete roomsData[roomId]
-        localStorage.setItem(GLOBAL_ROOMS_STORAGE_KEY, JSON.stringify(roomsData))
-        console.log('[GameState] Removed room from global storage:', roomId)
-      }
+      console.log('[GameState] Removed room from global storage:', roomId)
     } catch (error) {
       console.warn('[GameState] Failed to remove room from global storage:', error)
     }
   }
 
   private cleanupExpiredRooms(): void {
-    if (typeof window === 'undefined') return
-    
     try {
-      const globalRooms = localStorage.getItem(GLOBAL_ROOMS_STORAGE_KEY)
-      if (globalRooms) {
-        const roomsData = JSON.parse(globalRooms)
-        const now = Date.now()
-        let cleaned = false
-        
-        Object.entries(roomsData).forEach(([id, room]) => {
-          const roomData = room as GameRoom
-          // Remove rooms older than 1 hour or finished games older than 10 minutes
-          const maxAge = roomData.gameState === 'finished' ? 600000 : 3600000
-          if (now - roomData.createdAt > maxAge) {
-            delete roomsData[id]
-            cleaned = true
-            console.log('[v0] Cleaned up expired room:', id)
-          }
-        })
-        
-        if (cleaned) {
-          localStorage.setItem(GLOBAL_ROOMS_STORAGE_KEY, JSON.stringify(roomsData))
-          console.log('[v0] Completed room cleanup')
+      const now = Date.now()
+
+      Object.entries(globalRoomSync.getGlobalRooms()).forEach(([id, room]) => {
+        // Remove rooms older than 1 hour or finished games older than 10 minutes
+        const maxAge = room.gameState === 'finished' ? 600000 : 3600000
+        if (now - room.createdAt > maxAge) {
+          globalRoomSync.removeRoomFromGlobal(id)
+          console.log('[v0] Cleaned up expired room:', id)
         }
-      }
+      })
     } catch (error) {
       console.warn('[v0] Failed to cleanup expired rooms:', error)
     }
@@ -345,7 +279,6 @@ class GameStateManager {
         treasuryId: treasuryObject?.objectId,
         betAmount,
         players: [creatorAddress],
-        playersPresent: [creatorAddress], // Creator is present when creating the room
         gameState: "waiting",
         board: Array(9).fill(null),
         currentPlayer: creatorAddress,
@@ -395,23 +328,18 @@ class GameStateManager {
       return null
     }
 
-    // Mark player as present if not already
-    if (!room.playersPresent.includes(playerAddress)) {
-      room.playersPresent.push(playerAddress)
-      console.log("[v0] Player marked as present:", playerAddress)
-    }
-
-    // Check if we can start the game (both players present)
-    if (room.players.length === 2 && room.playersPresent.length === 2 && room.gameState === "waiting") {
+    // Check if we can start the game (both players in the room)
+    if (room.players.length === 2 && room.gameState === "waiting") {
       room.gameState = "playing"
-      console.log("[v0] Both players now present, starting game")
+      console.log("[v0] Both players in room, starting game")
     }
 
+    room.version = (room.version || 0) + 1
     this.rooms.set(roomId, room)
     this.saveRoomsToStorage()
     this.notifyListeners(roomId, room)
 
-    // Announce presence update to other sessions
+    // Announce the update to other sessions
     globalRoomSync.announceRoomUpdated(room)
     
     return room
@@ -449,7 +377,6 @@ class GameStateManager {
           treasuryId: treasuryId,
           betAmount: treasuryInfo.betAmount,
           players: [], // Will be populated as we determine the player's role
-          playersPresent: [], // No players present initially
           gameState: "waiting",
           board: Array(9).fill(null),
           currentPlayer: "", // Will be set when game starts
@@ -488,19 +415,17 @@ class GameStateManager {
     
     // Determine if the player is already in the room or needs to join
     if (room.players.includes(playerAddress)) {
-      // Player is already in the room, just mark them as present
-      console.log("[v0] Player already in room, marking as present")
-      if (!room.playersPresent.includes(playerAddress)) {
-        room.playersPresent.push(playerAddress)
-      }
+      // Player is already in the room, just share the room with other sessions
+      console.log("[v0] Player already in room")
       
       // Update the room state and save
+      room.version = (room.version || 0) + 1
       this.rooms.set(roomId, room)
       this.saveRoomsToStorage()
       this.saveToSharedStorage(room)
       this.notifyListeners(roomId, room)
       
-      // Announce presence update to other sessions
+      // Announce the update to other sessions
       globalRoomSync.announceRoomUpdated(room)
       
       return room
@@ -546,7 +471,6 @@ class GameStateManager {
             treasuryId: treasuryId,
             betAmount: treasuryInfo.betAmount,
             players: [], // We don't know the first player address without additional blockchain query
-            playersPresent: [], // No players present initially when retrieved from treasury
             gameState: "waiting",
             board: Array(9).fill(null),
             currentPlayer: "", // This will be set when game starts
@@ -655,16 +579,8 @@ class GameStateManager {
 
       // Add player to room
       room.players.push(playerAddress)
-      room.playersPresent.push(playerAddress) // Mark joining player as present
       
-      // If room has 2 players, automatically mark both as present and start the game
       if (room.players.length === 2) {
-        const creatorAddress = room.players[0]
-        if (!room.playersPresent.includes(creatorAddress)) {
-          room.playersPresent.push(creatorAddress)
-          console.log("[v0] Auto-marked creator as present when second player joined")
-        }
-        
         // Start the game immediately when both players are in the room
         room.gameState = "playing"
         console.log("[v0] Both players in room, game started automatically")
@@ -676,6 +592,7 @@ class GameStateManager {
       }
 
       // Update local storage and notify listeners
+      room.version = (room.version || 0) + 1
       this.rooms.set(roomId, room)
       this.saveRoomsToStorage()
       
@@ -712,8 +629,20 @@ class GameStateManager {
       } catch (error) {
         console.error("[v0] Failed to distribute prize:", error)
       }
+    } else {
+      try {
+        // A draw returns each player's stake from the treasury
+        const result = await suiContract.finishGameDraw(room.treasuryId!, signAndExecute)
+
+        console.log("[v0] Draw refund transaction successful:", result)
+        room.gameState = "finished"
+        console.log("[v0] Stakes returned to both players")
+      } catch (error) {
+        console.error("[v0] Failed to refund stakes:", error)
+      }
     }
 
+    room.version = (room.version || 0) + 1
     this.rooms.set(roomId, room)
     this.saveRoomsToStorage()
     this.removeFromSharedStorage(roomId) // Remove finished game from shared storage
@@ -724,54 +653,24 @@ class GameStateManager {
   }
 
   makeMove(roomId: string, position: number, player: string): GameRoom | null {
-    const room = this.rooms.get(roomId)
-    if (!room || room.gameState !== "playing" || room.currentPlayer !== player) {
-      return null
-    }
+    const gameRoom = this.rooms.get(roomId)
+    if (!gameRoom) return null
 
-    if (room.board[position] !== null) return null
+    const room = fromGameRoom(gameRoom)
+    if (checkMove(room, position, player)) return null
 
-    room.board[position] = room.players[0] === player ? "X" : "O"
-    room.currentPlayer = room.players.find((p) => p !== player) || player
+    applyMove(room, position, player)
+    const updatedRoom = toGameRoom(room, gameRoom)
+    updatedRoom.version = (gameRoom.version || 0) + 1
 
-    // Check for winner
-    const winner = this.checkWinner(room.board)
-    if (winner || room.board.every((cell) => cell !== null)) {
-      room.gameState = "finished"
-      if (winner) {
-        const winnerAddress = winner === "X" ? room.players[0] : room.players[1]
-        room.winner = winnerAddress
-      }
-    }
-
-    this.rooms.set(roomId, room)
+    this.rooms.set(roomId, updatedRoom)
     this.saveRoomsToStorage()
-    this.notifyListeners(roomId, room)
+    this.notifyListeners(roomId, updatedRoom)
 
     // Announce move to all sessions
-    globalRoomSync.announceRoomUpdated(room)
+    globalRoomSync.announceRoomUpdated(updatedRoom)
     
-    return room
-  }
-
-  private checkWinner(board: (string | null)[]): string | null {
-    const lines = [
-      [0, 1, 2],
-      [3, 4, 5],
-      [6, 7, 8], // rows
-      [0, 3, 6],
-      [1, 4, 7],
-      [2, 5, 8], // columns
-      [0, 4, 8],
-      [2, 4, 6], // diagonals
-    ]
-
-    for (const [a, b, c] of lines) {
-      if (board[a] && board[a] === board[b] && board[a] === board[c]) {
-        return board[a]
-      }
-    }
-    return null
+    return updatedRoom
   }
 
   getRoom(roomId: string): GameRoom | undefined {
@@ -846,10 +745,6 @@ class GameStateManager {
 
   // Helper method to add mock rooms for testing (includes global storage)
   addMockRoom(room: GameRoom): void {
-    // Ensure playersPresent is initialized for mock rooms
-    if (!room.playersPresent) {
-      room.playersPresent = [...room.players] // For mock rooms, assume all players are present
-    }
     this.rooms.set(room.id, room)
     this.saveToSharedStorage(room)
   }
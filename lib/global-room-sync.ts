@@ -6,11 +6,9 @@
  */
 
 import type { GameRoom } from './game-state'
+import { browserRoomStore, ROOM_STORE_KEYS, type RoomStore } from './room-store'
 
-// Storage keys for different sync methods
-const GLOBAL_ROOMS_KEY = 'global-game-rooms'
 const BROADCAST_CHANNEL_NAME = 'tictactoe-rooms'
-const NETWORK_STORAGE_KEY = 'network-room-sync'
 
 export interface RoomSyncEvent {
   type: 'room_created' | 'room_updated' | 'room_joined' | 'room_deleted' | 'rooms_requested'
@@ -20,14 +18,14 @@ export interface RoomSyncEvent {
   senderId: string
 }
 
-class GlobalRoomSyncService {
+export class GlobalRoomSyncService {
   private broadcastChannel?: BroadcastChannel
   private listeners: ((event: RoomSyncEvent) => void)[] = []
   private syncInterval?: NodeJS.Timeout
   private readonly syncId: string
   private isEnabled = false
 
-  constructor() {
+  constructor(private readonly store: RoomStore = browserRoomStore) {
     this.syncId = Math.random().toString(36).substr(2, 9)
     this.initialize()
   }
@@ -66,7 +64,7 @@ class GlobalRoomSyncService {
   }
 
   private handleStorageChange(event: StorageEvent) {
-    if (event.key === GLOBAL_ROOMS_KEY && event.newValue && event.oldValue !== event.newValue) {
+    if (event.key === ROOM_STORE_KEYS.globalRooms && event.newValue && event.oldValue !== event.newValue) {
       console.log('[GlobalSync] Detected storage change')
       this.notifyListeners({
         type: 'room_updated',
@@ -109,14 +107,14 @@ class GlobalRoomSyncService {
         this.broadcastChannel.postMessage(event)
       }
 
-      // Use localStorage for cross-window persistence
+      // Persist through the room store (localStorage in the browser) for cross-window sync
       const storageEvent = {
         ...event,
         storageTimestamp: Date.now()
       }
       
       // Trigger storage event by updating a sync key
-      localStorage.setItem(NETWORK_STORAGE_KEY, JSON.stringify(storageEvent))
+      this.store.write(ROOM_STORE_KEYS.networkSync, storageEvent)
       
       console.log('[GlobalSync] Broadcasted event:', event.type, event.roomId)
     } catch (error) {
@@ -193,11 +191,8 @@ class GlobalRoomSyncService {
    * Get all rooms from global storage
    */
   getGlobalRooms(): Record<string, GameRoom> {
-    if (typeof window === 'undefined') return {}
-
     try {
-      const stored = localStorage.getItem(GLOBAL_ROOMS_KEY)
-      return stored ? JSON.parse(stored) : {}
+      return this.store.read<Record<string, GameRoom>>(ROOM_STORE_KEYS.globalRooms) || {}
     } catch (error) {
       console.warn('[GlobalSync] Failed to get global rooms:', error)
       return {}
@@ -208,12 +203,10 @@ class GlobalRoomSyncService {
    * Save room to global storage
    */
   saveRoomToGlobal(room: GameRoom) {
-    if (typeof window === 'undefined') return
-
     try {
       const existingRooms = this.getGlobalRooms()
       existingRooms[room.id] = room
-      localStorage.setItem(GLOBAL_ROOMS_KEY, JSON.stringify(existingRooms))
+      this.store.write(ROOM_STORE_KEYS.globalRooms, existingRooms)
       console.log('[GlobalSync] Room saved to global storage:', room.id)
     } catch (error) {
       console.warn('[GlobalSync] Failed to save room to global storage:', error)
@@ -224,12 +217,10 @@ class GlobalRoomSyncService {
    * Remove room from global storage
    */
   removeRoomFromGlobal(roomId: string) {
-    if (typeof window === 'undefined') return
-
     try {
       const existingRooms = this.getGlobalRooms()
       delete existingRooms[roomId]
-      localStorage.setItem(GLOBAL_ROOMS_KEY, JSON.stringify(existingRooms))
+      this.store.write(ROOM_STORE_KEYS.globalRooms, existingRooms)
       console.log('[GlobalSync] Room removed from global storage:', roomId)
     } catch (error) {
       console.warn('[GlobalSync] Failed to remove room from global storage:', error)
@@ -240,8 +231,6 @@ class GlobalRoomSyncService {
    * Clean up expired rooms from global storage
    */
   cleanupExpiredRooms() {
-    if (typeof window === 'undefined') return
-
     try {
       const rooms = this.getGlobalRooms()
       const now = Date.now()
@@ -258,7 +247,7 @@ class GlobalRoomSyncService {
       })
 
       if (cleaned) {
-        localStorage.setItem(GLOBAL_ROOMS_KEY, JSON.stringify(rooms))
+        this.store.write(ROOM_STORE_KEYS.globalRooms, rooms)
         this.announceRoomDeleted('cleanup')
       }
     } catch (error) {
@@ -0,0 +1,112 @@
+import { describe, expect, it, vi } from "vitest"
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519"
+import type { SignedMove } from "@/types/game"
+import { BOARD_VARIANTS } from "./game-logic"
+import {
+  createMoveMessage,
+  createRoomSettingsMessage,
+  encodeMoveMessage,
+  encodeResignMessage,
+  encodeRoomSessionMessage,
+  encodeRoomSettingsMessage,
+  encodeSettlementMessage,
+  verifyMoveLog,
+  verifyResignation,
+  verifyRoomSession,
+  verifyRoomSettings,
+  verifySettlementRequest,
+  verifySignedMove,
+} from "./move-signing"
+import type { UnsignedMove } from "./move-signing"
+import { TIME_CONTROLS } from "./room"
+import type { RoomSettings } from "./room"
+
+const alice = new Ed25519Keypair()
+const bob = new Ed25519Keypair()
+const ALICE = alice.toSuiAddress()
+const BOB = bob.toSuiAddress()
+
+// Invalid signatures are logged as warnings
+vi.spyOn(console, "warn").mockImplementation(() => {})
+
+async function sign(keypair: Ed25519Keypair, message: Uint8Array): Promise<string> {
+  return (await keypair.signPersonalMessage(message)).signature
+}
+
+async function signMove(keypair: Ed25519Keypair, move: UnsignedMove): Promise<SignedMove> {
+  return { ...move, signature: await sign(keypair, encodeMoveMessage(move)) }
+}
+
+describe("message formats", () => {
+  it("only adds a mark line to wild moves", () => {
+    const move = { roomId: "room", seq: 2, position: 4, player: ALICE }
+    expect(createMoveMessage(move)).toBe(
+      `ProjetoBet TicTacToe move\nroom: room\nseq: 2\nposition: 4\nplayer: ${ALICE}`,
+    )
+    expect(createMoveMessage({ ...move, mark: "O" })).toMatch(/\nmark: O$/)
+  })
+
+  it("lists every setting the creator agreed to", () => {
+    const message = createRoomSettingsMessage("room", ALICE, {
+      timeControl: TIME_CONTROLS.blitz,
+      bestOf: 3,
+      variant: BOARD_VARIANTS["5x5"],
+      rules: ["misere"],
+    })
+    expect(message).toContain(`clock: ${TIME_CONTROLS.blitz.moveTimeMs}/${TIME_CONTROLS.blitz.gameTimeMs}`)
+    expect(message).toContain("best of: 3")
+    expect(message).toContain("board: 5x5, 4 in a row")
+    expect(message).toContain("rules: misere")
+  })
+})
+
+describe("signature checks", () => {
+  it("accepts a move signed by its player and nobody else", async () => {
+    const move = { roomId: "room", seq: 0, position: 4, player: ALICE }
+    expect(await verifySignedMove(await signMove(alice, move))).toBe(true)
+    expect(await verifySignedMove(await signMove(bob, move))).toBe(false)
+    expect(await verifySignedMove({ ...(await signMove(alice, move)), position: 5 })).toBe(false)
+  })
+
+  it("binds resignations to their room", async () => {
+    const resignation = await sign(alice, encodeResignMessage("room", ALICE))
+    expect(await verifyResignation("room", ALICE, resignation)).toBe(true)
+    expect(await verifyResignation("other", ALICE, resignation)).toBe(false)
+  })
+
+  it("binds room settings to what the creator agreed to", async () => {
+    const settings: RoomSettings = { bestOf: 3 }
+    const settingsSignature = await sign(alice, encodeRoomSettingsMessage("room", ALICE, settings))
+    expect(await verifyRoomSettings("room", ALICE, settings, settingsSignature)).toBe(true)
+    expect(await verifyRoomSettings("room", ALICE, { bestOf: 5 }, settingsSignature)).toBe(false)
+  })
+
+  it("binds sessions to their connection", async () => {
+    const session = await sign(bob, encodeRoomSessionMessage("room", BOB, "conn-1"))
+    expect(await verifyRoomSession("room", BOB, "conn-1", session)).toBe(true)
+    expect(await verifyRoomSession("room", BOB, "conn-2", session)).toBe(false)
+  })
+
+  it("binds settlement actions to their attempt", async () => {
+    const report = { roomId: "room", player: ALICE, action: "report" as const, attempt: 1, digest: "tx" }
+    const reportSignature = await sign(alice, encodeSettlementMessage(report))
+    expect(await verifySettlementRequest(report, reportSignature)).toBe(true)
+    expect(await verifySettlementRequest({ ...report, attempt: 2 }, reportSignature)).toBe(false)
+    expect(await verifySettlementRequest({ ...report, action: "fail" }, reportSignature)).toBe(false)
+  })
+
+  it("replays a signed move log and rejects one with a forged move", async () => {
+    const moves = await Promise.all(
+      [0, 3, 1, 4, 2].map((position, seq) =>
+        seq % 2 === 0
+          ? signMove(alice, { roomId: "room", seq, position, player: ALICE })
+          : signMove(bob, { roomId: "room", seq, position, player: BOB }),
+      ),
+    )
+    expect((await verifyMoveLog("room", moves, [ALICE, BOB])).winner).toBe("X")
+
+    moves[3] = { ...moves[3], signature: moves[1].signature }
+    await expect(verifyMoveLog("room", moves, [ALICE, BOB])).rejects.toThrow(/Move 3 has an invalid signature/)
+    await expect(verifyMoveLog("other", moves, [ALICE, BOB])).rejects.toThrow(/belongs to room room/)
+  })
+})
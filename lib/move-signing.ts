@@ -0,0 +1,229 @@
+/**
+ * Wallet-signed moves
+ *
+ * Every move is signed with the player's wallet as a personal message so the
+ * room's move log can later be replayed and checked by anyone. Resignations are
+ * signed the same way so nobody can resign on another player's behalf, and so are
+ * the settings a creator opens a room with, so nobody else can pick them. Players
+ * also sign the connection they joined a room on, to chat and show up as present,
+ * and every step of settling a finished room, so nobody can settle in their name.
+ */
+
+import { verifyPersonalMessageSignature } from "@mysten/sui/verify"
+import type { SignedMove } from "@/types/game"
+import { replayMoveLog, replaySeriesLog } from "./game-logic"
+import type { AnyGameState, GameSetup, SeriesReplay } from "./game-logic"
+import type { RoomSettings } from "./room"
+
+export type UnsignedMove = Omit<SignedMove, "signature">
+
+/**
+ * Canonical text that the wallet signs for a move
+ */
+export function createMoveMessage(move: UnsignedMove): string {
+  const lines = [
+    "ProjetoBet TicTacToe move",
+    `room: ${move.roomId}`,
+    `seq: ${move.seq}`,
+    `position: ${move.position}`,
+    `player: ${move.player}`,
+  ]
+  // Only wild moves carry a mark, so every other move keeps its original message
+  if (move.mark) lines.push(`mark: ${move.mark}`)
+  return lines.join("\n")
+}
+
+export function encodeMoveMessage(move: UnsignedMove): Uint8Array {
+  return new TextEncoder().encode(createMoveMessage(move))
+}
+
+/**
+ * Check that a move was signed by the wallet of move.player
+ */
+export async function verifySignedMove(move: SignedMove): Promise<boolean> {
+  try {
+    await verifyPersonalMessageSignature(encodeMoveMessage(move), move.signature, { address: move.player })
+    return true
+  } catch (error) {
+    console.warn(`[MoveSigning] Invalid signature for move ${move.seq} in room ${move.roomId}:`, error)
+    return false
+  }
+}
+
+/**
+ * Canonical text that the wallet signs to resign a game
+ */
+export function createResignMessage(roomId: string, player: string): string {
+  return ["ProjetoBet TicTacToe resign", `room: ${roomId}`, `player: ${player}`].join("\n")
+}
+
+export function encodeResignMessage(roomId: string, player: string): Uint8Array {
+  return new TextEncoder().encode(createResignMessage(roomId, player))
+}
+
+/**
+ * Check that a resignation was signed by the resigning player's wallet
+ */
+export async function verifyResignation(roomId: string, player: string, signature: string): Promise<boolean> {
+  try {
+    await verifyPersonalMessageSignature(encodeResignMessage(roomId, player), signature, { address: player })
+    return true
+  } catch (error) {
+    console.warn(`[MoveSigning] Invalid resignation signature in room ${roomId}:`, error)
+    return false
+  }
+}
+
+/**
+ * Canonical text that the creator's wallet signs for the settings of a new room
+ */
+export function createRoomSettingsMessage(roomId: string, creator: string, settings: RoomSettings): string {
+  const lines = ["ProjetoBet TicTacToe room settings", `room: ${roomId}`, `creator: ${creator}`]
+  if (settings.timeControl) {
+    lines.push(`clock: ${settings.timeControl.moveTimeMs}/${settings.timeControl.gameTimeMs}`)
+  }
+  if (settings.bestOf) lines.push(`best of: ${settings.bestOf}`)
+  if (settings.gameType) lines.push(`game: ${settings.gameType}`)
+  if (settings.rules?.length) lines.push(`rules: ${settings.rules.join(", ")}`)
+  if (settings.variant) {
+    lines.push(`board: ${settings.variant.width}x${settings.variant.height}, ${settings.variant.k} in a row`)
+  }
+  return lines.join("\n")
+}
+
+export function encodeRoomSettingsMessage(roomId: string, creator: string, settings: RoomSettings): Uint8Array {
+  return new TextEncoder().encode(createRoomSettingsMessage(roomId, creator, settings))
+}
+
+/**
+ * Check that a room's settings were signed by the creator's wallet
+ */
+export async function verifyRoomSettings(
+  roomId: string,
+  creator: string,
+  settings: RoomSettings,
+  signature: string,
+): Promise<boolean> {
+  try {
+    await verifyPersonalMessageSignature(encodeRoomSettingsMessage(roomId, creator, settings), signature, {
+      address: creator,
+    })
+    return true
+  } catch (error) {
+    console.warn(`[MoveSigning] Invalid settings signature in room ${roomId}:`, error)
+    return false
+  }
+}
+
+export type SettlementAction = "claim" | "report" | "fail"
+
+export interface SettlementRequest {
+  roomId: string
+  player: string
+  action: SettlementAction
+  attempt: number // The settlement attempt this is for, so an old signature can't be replayed
+  digest?: string // Reports only: the settlement transaction
+}
+
+/**
+ * Canonical text that the wallet signs for a step of settling a room
+ */
+export function createSettlementMessage(request: SettlementRequest): string {
+  const lines = [
+    "ProjetoBet TicTacToe settlement",
+    `room: ${request.roomId}`,
+    `player: ${request.player}`,
+    `action: ${request.action}`,
+    `attempt: ${request.attempt}`,
+  ]
+  if (request.digest) lines.push(`digest: ${request.digest}`)
+  return lines.join("\n")
+}
+
+export function encodeSettlementMessage(request: SettlementRequest): Uint8Array {
+  return new TextEncoder().encode(createSettlementMessage(request))
+}
+
+/**
+ * Check that a settlement step was signed by the wallet of the player taking it
+ */
+export async function verifySettlementRequest(request: SettlementRequest, signature: string): Promise<boolean> {
+  try {
+    await verifyPersonalMessageSignature(encodeSettlementMessage(request), signature, { address: request.player })
+    return true
+  } catch (error) {
+    console.warn(`[MoveSigning] Invalid settlement ${request.action} signature in room ${request.roomId}:`, error)
+    return false
+  }
+}
+
+/**
+ * Canonical text that the wallet signs to prove it holds a connection to a room.
+ * The challenge is the server-issued connection ID, so a signature can't be reused.
+ */
+export function createRoomSessionMessage(roomId: string, player: string, challenge: string): string {
+  return ["ProjetoBet TicTacToe join", `room: ${roomId}`, `player: ${player}`, `challenge: ${challenge}`].join("\n")
+}
+
+export function encodeRoomSessionMessage(roomId: string, player: string, challenge: string): Uint8Array {
+  return new TextEncoder().encode(createRoomSessionMessage(roomId, player, challenge))
+}
+
+/**
+ * Check that a join challenge was signed by the player's wallet
+ */
+export async function verifyRoomSession(
+  roomId: string,
+  player: string,
+  challenge: string,
+  signature: string,
+): Promise<boolean> {
+  try {
+    await verifyPersonalMessageSignature(encodeRoomSessionMessage(roomId, player, challenge), signature, {
+      address: player,
+    })
+    return true
+  } catch (error) {
+    console.warn(`[MoveSigning] Invalid join signature in room ${roomId}:`, error)
+    return false
+  }
+}
+
+/**
+ * Settle a dispute: verify every signature in the log and replay it.
+ * Returns the resulting game state, or throws if any move is unsigned or illegal.
+ */
+export async function verifyMoveLog(
+  roomId: string,
+  moveLog: SignedMove[],
+  players: string[],
+  setup?: GameSetup,
+): Promise<AnyGameState> {
+  await verifyMoveSignatures(roomId, moveLog)
+  return replayMoveLog(moveLog, players, setup)
+}
+
+/**
+ * Same as verifyMoveLog for a best-of-N series played from one move log
+ */
+export async function verifySeriesLog(
+  roomId: string,
+  moveLog: SignedMove[],
+  players: string[],
+  bestOf: number,
+  setup?: GameSetup,
+): Promise<SeriesReplay> {
+  await verifyMoveSignatures(roomId, moveLog)
+  return replaySeriesLog(moveLog, players, bestOf, setup)
+}
+
+async function verifyMoveSignatures(roomId: string, moveLog: SignedMove[]): Promise<void> {
+  for (const move of moveLog) {
+    if (move.roomId !== roomId) {
+      throw new Error(`Move ${move.seq} belongs to room ${move.roomId}`)
+    }
+    if (!(await verifySignedMove(move))) {
+      throw new Error(`Move ${move.seq} has an invalid signature`)
+    }
+  }
+}
@@ -60,6 +60,13 @@ export function getNetworkInfo() {
   }
 }
 
+/**
+ * Link to a transaction on the Suiscan explorer for the current network
+ */
+export function getTransactionExplorerUrl(digest: string): string {
+  return `https://suiscan.xyz/${getCurrentNetwork()}/tx/${digest}`
+}
+
 /**
  * Log network configuration for debugging
  */
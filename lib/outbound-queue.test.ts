@@ -0,0 +1,92 @@
+import { beforeEach, describe, expect, it } from "vitest"
+import type { SignedMove } from "@/types/game"
+import { MAX_OUTBOUND_ATTEMPTS, OutboundQueue } from "./outbound-queue"
+import { createRoom } from "./room"
+import { MemoryRoomStore } from "./room-store"
+
+const ALICE = "0xa"
+const BOB = "0xb"
+const NOW = 1_000_000
+
+let store: MemoryRoomStore
+let queue: OutboundQueue
+
+function move(seq: number, position: number, player = seq % 2 === 0 ? ALICE : BOB): SignedMove {
+  return { roomId: "room", seq, position, player, signature: "sig" }
+}
+
+beforeEach(() => {
+  store = new MemoryRoomStore()
+  queue = new OutboundQueue(store)
+})
+
+describe("OutboundQueue", () => {
+  it("lists a room's updates in seq order, also after a reload", () => {
+    queue.enqueueMove(move(2, 4), 2, NOW)
+    queue.enqueueMove(move(0, 0), 0, NOW + 1)
+    queue.enqueueRoom(createRoom("room", 1, [ALICE, BOB]), NOW + 2)
+    queue.enqueueMove(move(1, 3), 1, NOW + 3)
+
+    // A new queue over the same store stands in for a reload
+    const reloaded = new OutboundQueue(store)
+    expect(reloaded.list("room").map(({ kind, seq }) => [kind, seq])).toEqual([
+      ["move", 0],
+      ["room", 0],
+      ["move", 1],
+      ["move", 2],
+    ])
+    expect(reloaded.list("other")).toEqual([])
+  })
+
+  it("replaces a queued move with a newer one for the same seq", () => {
+    queue.enqueueMove(move(0, 0), 0, NOW)
+    const newer = queue.enqueueMove(move(0, 4), 0, NOW + 1)
+
+    expect(queue.list("room")).toEqual([newer])
+  })
+
+  it("keeps only the newest room announcement", () => {
+    queue.enqueueRoom(createRoom("room", 1, [ALICE]), NOW)
+    const joined = queue.enqueueRoom(createRoom("room", 1, [ALICE, BOB]), NOW + 1)
+
+    expect(queue.list("room")).toEqual([joined])
+  })
+
+  it("keeps an update that never reached the server, however often it is tried", () => {
+    const update = queue.enqueueMove(move(0, 0), 0, NOW)
+
+    for (let i = 0; i < MAX_OUTBOUND_ATTEMPTS + 1; i++) {
+      expect(queue.settle(update, { error: "offline", queued: true })).toBe("retry")
+    }
+    expect(queue.list("room")[0].attempts).toBeUndefined()
+  })
+
+  it("gives up on an update once the server failed it the maximum number of times", () => {
+    const update = queue.enqueueMove(move(0, 0), 0, NOW)
+
+    for (let attempt = 1; attempt < MAX_OUTBOUND_ATTEMPTS; attempt++) {
+      expect(queue.settle(update, { error: "boom", status: 500 })).toBe("retry")
+      expect(queue.list("room")[0].attempts).toBe(attempt)
+    }
+    expect(queue.settle(update, { error: "boom", status: 503 })).toBe("given-up")
+    expect(queue.list("room")).toEqual([])
+  })
+
+  it("counts failures only for updates still queued", () => {
+    const update = queue.enqueueMove(move(0, 0), 0, NOW)
+
+    expect(queue.recordFailure("room", update.id)).toEqual({ ...update, attempts: 1 })
+    expect(queue.recordFailure("room", "gone")).toBeUndefined()
+    expect(new OutboundQueue(store).list("room")[0].attempts).toBe(1)
+  })
+
+  it("drops an update the server rejected and one it took", () => {
+    const stale = queue.enqueueMove(move(0, 0), 0, NOW)
+    const announcement = queue.enqueueRoom(createRoom("room", 1, [ALICE, BOB]), NOW + 1)
+
+    expect(queue.settle(stale, { error: "Stale move", status: 409 })).toBe("rejected")
+    expect(queue.list("room")).toEqual([announcement])
+    expect(queue.settle(announcement, { status: 200 })).toBe("delivered")
+    expect(new OutboundQueue(store).list("room")).toEqual([])
+  })
+})
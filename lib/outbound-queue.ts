@@ -0,0 +1,163 @@
+/**
+ * Outbound Queue
+ *
+ * Room updates a client could not deliver because it was offline: signed moves and
+ * room announcements (see useWebSocketRoomSync). The queue is persisted so updates
+ * survive a reload, and each room's updates are flushed in move sequence order once
+ * a connection is back. An update the server rejects, e.g. a move that is stale
+ * because the game moved on, is dropped rather than retried. Server errors are retried
+ * a few times, counted in attempts, before the update is given up on too.
+ */
+
+import type { SignedMove } from "@/types/game"
+import type { Room } from "./room"
+import { browserRoomStore, ROOM_STORE_KEYS, type RoomStore } from "./room-store"
+
+interface QueuedUpdate {
+  id: string
+  roomId: string
+  seq: number
+  queuedAt: number
+  attempts?: number // Deliveries the server failed with an error of its own
+}
+
+// Server errors an update may get before it is dropped; being offline doesn't count
+export const MAX_OUTBOUND_ATTEMPTS = 5
+
+export type OutboundUpdate =
+  | (QueuedUpdate & { kind: "move"; move: SignedMove; version: number })
+  | (QueuedUpdate & { kind: "room"; room: Room })
+
+/**
+ * What happened to an update. A status means the server answered; without one the
+ * update never reached it. Queued updates will be sent again on reconnect.
+ */
+export interface OutboundResult {
+  room?: Room
+  error?: string
+  status?: number
+  queued?: boolean
+}
+
+/**
+ * What became of a queued update after trying to deliver it:
+ * - delivered: the server took it
+ * - rejected: the server refused it, so it was dropped
+ * - retry: it never reached the server or the server failed; it stays queued
+ * - given-up: the server failed it MAX_OUTBOUND_ATTEMPTS times, so it was dropped
+ */
+export type OutboundOutcome = "delivered" | "rejected" | "retry" | "given-up"
+
+/**
+ * The server looked at the update and refused it, so sending it again won't help
+ */
+export function isRejected(result: OutboundResult): boolean {
+  return result.status !== undefined && result.status >= 400 && result.status < 500
+}
+
+export class OutboundQueue {
+  constructor(private readonly store: RoomStore = browserRoomStore) {}
+
+  /**
+   * A room's queued updates in the order they should be sent
+   */
+  list(roomId: string): OutboundUpdate[] {
+    const updates = this.readAll()[roomId] || []
+    // Array.prototype.sort is stable, so updates with the same seq keep their queue order
+    return [...updates].sort((a, b) => a.seq - b.seq)
+  }
+
+  /**
+   * Queue a move, replacing any move already queued for the same seq since only one
+   * of them can be accepted. version is the room version the move was made against.
+   */
+  enqueueMove(move: SignedMove, version: number, now = Date.now()): OutboundUpdate {
+    const update: OutboundUpdate = {
+      id: createUpdateId(now),
+      kind: "move",
+      roomId: move.roomId,
+      seq: move.seq,
+      queuedAt: now,
+      move,
+      version,
+    }
+    this.save(move.roomId, [
+      ...this.list(move.roomId).filter((queued) => queued.kind !== "move" || queued.seq !== move.seq),
+      update,
+    ])
+    return update
+  }
+
+  /**
+   * Queue a room announcement; only the newest one per room is kept
+   */
+  enqueueRoom(room: Room, now = Date.now()): OutboundUpdate {
+    const update: OutboundUpdate = {
+      id: createUpdateId(now),
+      kind: "room",
+      roomId: room.roomId,
+      seq: room.moveLog.length,
+      queuedAt: now,
+      room,
+    }
+    this.save(room.roomId, [...this.list(room.roomId).filter((queued) => queued.kind !== "room"), update])
+    return update
+  }
+
+  /**
+   * Count a delivery the server failed, returning the updated entry
+   */
+  recordFailure(roomId: string, id: string): OutboundUpdate | undefined {
+    let failed: OutboundUpdate | undefined
+    this.save(
+      roomId,
+      this.list(roomId).map((queued) => {
+        if (queued.id !== id) return queued
+        failed = { ...queued, attempts: (queued.attempts || 0) + 1 }
+        return failed
+      }),
+    )
+    return failed
+  }
+
+  /**
+   * Settle a queued update with the result of delivering it, keeping it queued
+   * only while it is worth sending again
+   */
+  settle(update: OutboundUpdate, result: OutboundResult): OutboundOutcome {
+    if (result.status === undefined || result.status >= 500) {
+      const failed = result.status === undefined ? update : this.recordFailure(update.roomId, update.id) || update
+      if ((failed.attempts || 0) < MAX_OUTBOUND_ATTEMPTS) return "retry"
+
+      this.remove(update.roomId, update.id)
+      return "given-up"
+    }
+
+    this.remove(update.roomId, update.id)
+    return isRejected(result) ? "rejected" : "delivered"
+  }
+
+  remove(roomId: string, id: string): void {
+    this.save(roomId, this.list(roomId).filter((queued) => queued.id !== id))
+  }
+
+  private readAll(): Record<string, OutboundUpdate[]> {
+    return this.store.read<Record<string, OutboundUpdate[]>>(ROOM_STORE_KEYS.outboundQueue) || {}
+  }
+
+  private save(roomId: string, updates: OutboundUpdate[]): void {
+    const all = this.readAll()
+    if (updates.length > 0) {
+      all[roomId] = updates
+    } else {
+      delete all[roomId]
+    }
+    this.store.write(ROOM_STORE_KEYS.outboundQueue, all)
+  }
+}
+
+function createUpdateId(now: number): string {
+  return `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+export const outboundQueue = new OutboundQueue()
@@ -0,0 +1,206 @@
+/**
+ * Redis Client
+ *
+ * Just enough of the Redis protocol (RESP) for pub/sub: PUBLISH on one connection,
+ * SUBSCRIBE and message delivery on another. Reconnects with backoff and subscribes
+ * again after a reconnect. Works with any server that speaks RESP, over TLS for
+ * rediss:// URLs. Server-only: it uses the Node net and tls modules.
+ */
+
+import net from "net"
+import tls from "tls"
+import type { RedisPubSubClient } from "./room-pubsub"
+
+type RespValue = string | number | null | Error | RespValue[]
+
+const MAX_RECONNECT_DELAY_MS = 30000
+
+/**
+ * Read one reply starting at offset. Returns the reply and where the next one starts,
+ * or null when the buffer doesn't hold a whole reply yet.
+ */
+function parseReply(buffer: Buffer, offset: number): [RespValue, number] | null {
+  const lineEnd = buffer.indexOf("\r\n", offset)
+  if (lineEnd === -1) return null
+
+  const type = String.fromCharCode(buffer[offset])
+  const line = buffer.toString("utf8", offset + 1, lineEnd)
+  const next = lineEnd + 2
+
+  switch (type) {
+    case "+":
+      return [line, next]
+    case "-":
+      return [new Error(line), next]
+    case ":":
+      return [Number(line), next]
+    case "$": {
+      const length = parseLength(line)
+      if (length === -1) return [null, next]
+      if (buffer.length < next + length + 2) return null
+      return [buffer.toString("utf8", next, next + length), next + length + 2]
+    }
+    case "*": {
+      const count = parseLength(line)
+      if (count === -1) return [null, next]
+
+      const items: RespValue[] = []
+      let position = next
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, position)
+        if (!item) return null
+        items.push(item[0])
+        position = item[1]
+      }
+      return [items, position]
+    }
+    default:
+      throw new Error(`Unexpected Redis reply type: ${type}`)
+  }
+}
+
+// Bulk string and array lengths; -1 stands for null
+function parseLength(line: string): number {
+  const length = Number(line)
+  if (!Number.isInteger(length) || length < -1) throw new Error(`Invalid Redis reply length: ${line}`)
+  return length
+}
+
+function encodeCommand(args: string[]): Buffer {
+  return Buffer.from(`*${args.length}\r\n${args.map((arg) => `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`).join("")}`)
+}
+
+export class RespRedisClient implements RedisPubSubClient {
+  private socket: net.Socket | null = null
+  private buffer = Buffer.alloc(0)
+  // Replies arrive in the order commands were sent
+  private pending: { resolve: (value: RespValue) => void; reject: (error: Error) => void }[] = []
+  private listeners = new Map<string, Set<(message: string) => void>>()
+  private reconnectAttempts = 0
+  private closed = false
+
+  constructor(private readonly url: string) {
+    this.connect()
+  }
+
+  async publish(channel: string, message: string): Promise<number> {
+    return (await this.command(["PUBLISH", channel, message])) as number
+  }
+
+  async subscribe(channel: string, listener: (message: string) => void): Promise<void> {
+    const listeners = this.listeners.get(channel)
+    if (listeners) {
+      listeners.add(listener)
+      return
+    }
+
+    this.listeners.set(channel, new Set([listener]))
+    await this.command(["SUBSCRIBE", channel])
+  }
+
+  async unsubscribe(channel: string, listener: (message: string) => void): Promise<void> {
+    const listeners = this.listeners.get(channel)
+    if (!listeners?.delete(listener) || listeners.size > 0) return
+
+    this.listeners.delete(channel)
+    await this.command(["UNSUBSCRIBE", channel])
+  }
+
+  quit(): void {
+    this.closed = true
+    this.socket?.end()
+  }
+
+  private connect(): void {
+    const { protocol, hostname, port, username, password } = new URL(this.url)
+    const options = { host: hostname, port: Number(port) || 6379 }
+    const secure = protocol === "rediss:"
+    const socket = secure ? tls.connect({ ...options, servername: hostname }) : net.connect(options)
+    this.socket = socket
+    this.buffer = Buffer.alloc(0)
+
+    socket.once(secure ? "secureConnect" : "connect", () => {
+      this.reconnectAttempts = 0
+    })
+    socket.on("data", (chunk: Buffer) => this.handleData(chunk))
+    socket.on("error", (error) => console.error("[Redis] Connection error:", error.message))
+    socket.on("close", () => {
+      this.rejectPending(new Error("Redis connection closed"))
+      if (this.closed) return
+
+      const delay = Math.min(1000 * Math.pow(2, this.reconnectAttempts++), MAX_RECONNECT_DELAY_MS)
+      console.warn(`[Redis] Connection closed, reconnecting in ${delay}ms`)
+      setTimeout(() => this.connect(), delay)
+    })
+
+    // Written before anything else, so commands queued while connecting are authenticated
+    if (password) {
+      const credentials = username ? [username, password] : [password]
+      this.command(["AUTH", ...credentials.map(decodeURIComponent)]).catch((error) =>
+        console.error("[Redis] Authentication failed:", error.message),
+      )
+    }
+    this.listeners.forEach((_, channel) => {
+      this.command(["SUBSCRIBE", channel]).catch((error) => console.error("[Redis] Resubscribe failed:", error.message))
+    })
+  }
+
+  private command(args: string[]): Promise<RespValue> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket || this.socket.destroyed) {
+        reject(new Error("Redis connection closed"))
+        return
+      }
+      this.pending.push({ resolve, reject })
+      this.socket.write(encodeCommand(args))
+    })
+  }
+
+  private handleData(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk])
+
+    let reply = this.readReply()
+    while (reply) {
+      this.buffer = this.buffer.subarray(reply[1])
+      this.handleReply(reply[0])
+      reply = this.readReply()
+    }
+  }
+
+  /**
+   * Parse the next reply in the buffer. Nothing after a malformed reply can be read, so
+   * the commands waiting for replies fail and the client reconnects.
+   */
+  private readReply(): [RespValue, number] | null {
+    try {
+      return parseReply(this.buffer, 0)
+    } catch (error: any) {
+      console.error("[Redis] Malformed reply, reconnecting:", error.message)
+      this.rejectPending(error)
+      this.buffer = Buffer.alloc(0)
+      this.socket?.destroy()
+      return null
+    }
+  }
+
+  private rejectPending(error: Error): void {
+    this.pending.forEach(({ reject }) => reject(error))
+    this.pending = []
+  }
+
+  private handleReply(value: RespValue): void {
+    // Messages on subscribed channels are pushed, not replies to a command
+    if (Array.isArray(value) && value[0] === "message") {
+      this.listeners.get(String(value[1]))?.forEach((listener) => listener(String(value[2])))
+      return
+    }
+
+    const request = this.pending.shift()
+    if (!request) return
+    if (value instanceof Error) {
+      request.reject(value)
+    } else {
+      request.resolve(value)
+    }
+  }
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest"
+import { createRoom } from "./room"
+import { MAX_CHAT_MESSAGE_LENGTH, RoomChat } from "./room-chat"
+
+const ALICE = "0xa"
+const BOB = "0xb"
+const NOW = 1_000_000
+
+const room = createRoom("room", 1, [ALICE, BOB])
+
+function expectRefusal(post: () => unknown, status: number) {
+  expect(post).toThrow(expect.objectContaining({ name: "RoomChatError", status }))
+}
+
+describe("RoomChat", () => {
+  it("lets each player send five messages in ten seconds", () => {
+    const chat = new RoomChat()
+    for (let i = 0; i < 5; i++) chat.post(room, ALICE, { text: `hi ${i}` }, NOW + i * 1000)
+
+    expectRefusal(() => chat.post(room, ALICE, { emote: "gg" }, NOW + 9999), 429)
+    // The limit is per player
+    chat.post(room, BOB, { text: "hi" }, NOW + 9999)
+    // The first message has left the window
+    chat.post(room, ALICE, { text: "hi again" }, NOW + 10000)
+    expect(chat.getHistory("room")).toHaveLength(7)
+  })
+
+  it("refuses messages over 200 characters, after trimming", () => {
+    const chat = new RoomChat()
+    const longest = "a".repeat(MAX_CHAT_MESSAGE_LENGTH)
+
+    expect(chat.post(room, ALICE, { text: `  ${longest}  ` }, NOW).text).toBe(longest)
+    expectRefusal(() => chat.post(room, ALICE, { text: `${longest}a` }, NOW), 400)
+    expectRefusal(() => chat.post(room, ALICE, { text: "   " }, NOW), 400)
+    expectRefusal(() => chat.post(room, "0xc", { text: "hi" }, NOW), 403)
+  })
+
+  it("keeps the last 100 messages of a room", () => {
+    const chat = new RoomChat()
+    // Spaced out to stay under the rate limit
+    for (let i = 0; i < 101; i++) chat.post(room, ALICE, { text: `message ${i}` }, NOW + i * 2000)
+
+    const history = chat.getHistory("room")
+    expect(history).toHaveLength(100)
+    expect(history[0].text).toBe("message 1")
+    expect(history[99].text).toBe("message 100")
+  })
+
+  it("records a message delivered from another instance once", () => {
+    const posted = new RoomChat().post(room, ALICE, { text: "hi" }, NOW)
+    const chat = new RoomChat()
+
+    chat.record(posted)
+    chat.record(posted)
+    expect(chat.getHistory("room")).toEqual([posted])
+  })
+
+  it("forgets a closed room's messages and rate limits", () => {
+    const chat = new RoomChat()
+    for (let i = 0; i < 5; i++) chat.post(room, ALICE, { text: `hi ${i}` }, NOW)
+
+    chat.clearRoom("room")
+    expect(chat.getHistory("room")).toEqual([])
+    chat.post(room, ALICE, { text: "hi" }, NOW)
+  })
+})
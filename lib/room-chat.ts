@@ -0,0 +1,137 @@
+/**
+ * Room Chat
+ *
+ * Per-room chat between the two players, with a few preset emotes. Messages are
+ * validated here and fanned out over the room's SSE channel as `chat_message`
+ * events. Every server instance records the messages it delivers, so clients get a
+ * room's recent history back in a `chat_history` event when they reconnect to any
+ * of them. A room's chat is dropped once the room closes.
+ */
+
+import type { Room } from "./room"
+
+export const CHAT_EMOTES = {
+  gg: "gg",
+  "nice-move": "nice move",
+  "good-luck": "good luck",
+  "well-played": "well played",
+  oops: "oops",
+} as const
+
+export type ChatEmote = keyof typeof CHAT_EMOTES
+
+export const MAX_CHAT_MESSAGE_LENGTH = 200
+
+// Messages kept per room; older ones are dropped first
+const CHAT_HISTORY_LIMIT = 100
+
+// Each player may send this many messages within the window
+const CHAT_RATE_LIMIT = 5
+const CHAT_RATE_WINDOW_MS = 10000
+
+export interface ChatMessage {
+  id: string
+  roomId: string
+  sender: string
+  text: string // The emote's text for emotes
+  emote?: ChatEmote
+  sentAt: number
+}
+
+export class RoomChatError extends Error {
+  readonly status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.name = "RoomChatError"
+    this.status = status
+  }
+}
+
+export function isChatEmote(value: unknown): value is ChatEmote {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(CHAT_EMOTES, value)
+}
+
+export class RoomChat {
+  private history = new Map<string, ChatMessage[]>()
+  private recentSends = new Map<string, number[]>()
+
+  getHistory(roomId: string): ChatMessage[] {
+    return this.history.get(roomId) || []
+  }
+
+  /**
+   * Add a message to its room's history, unless it is already there. Messages posted
+   * on another instance are recorded when they are delivered here.
+   */
+  record(message: ChatMessage): void {
+    const history = this.getHistory(message.roomId)
+    if (history.some(({ id }) => id === message.id)) return
+    this.history.set(message.roomId, [...history, message].slice(-CHAT_HISTORY_LIMIT))
+  }
+
+  /**
+   * Forget a closed room's messages and its players' recent sends
+   */
+  clearRoom(roomId: string): void {
+    this.history.delete(roomId)
+    this.recentSends.forEach((_, rateKey) => {
+      if (rateKey.startsWith(`${roomId}:`)) this.recentSends.delete(rateKey)
+    })
+  }
+
+  /**
+   * Post a text message or an emote from one of the room's players.
+   * Throws a RoomChatError when the sender may not post it.
+   */
+  post(room: Room, sender: string, content: { text?: string; emote?: ChatEmote }, now = Date.now()): ChatMessage {
+    if (!room.players.includes(sender)) {
+      throw new RoomChatError("Only the room's players can chat", 403)
+    }
+
+    let text: string
+    if (content.emote) {
+      text = CHAT_EMOTES[content.emote]
+    } else {
+      text = (content.text || "").trim()
+      if (!text) throw new RoomChatError("Message is empty", 400)
+      if (text.length > MAX_CHAT_MESSAGE_LENGTH) {
+        throw new RoomChatError(`Message is longer than ${MAX_CHAT_MESSAGE_LENGTH} characters`, 400)
+      }
+    }
+
+    this.dropExpiredSends(now)
+    const rateKey = `${room.roomId}:${sender}`
+    const recent = this.recentSends.get(rateKey) || []
+    if (recent.length >= CHAT_RATE_LIMIT) {
+      throw new RoomChatError("Too many messages, slow down", 429)
+    }
+    this.recentSends.set(rateKey, [...recent, now])
+
+    const message: ChatMessage = {
+      id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      roomId: room.roomId,
+      sender,
+      text,
+      emote: content.emote,
+      sentAt: now,
+    }
+
+    this.record(message)
+    return message
+  }
+
+  // Keep only sends still inside the rate window, and forget senders with none
+  private dropExpiredSends(now: number): void {
+    this.recentSends.forEach((sends, rateKey) => {
+      const recent = sends.filter((sentAt) => now - sentAt < CHAT_RATE_WINDOW_MS)
+      if (recent.length > 0) {
+        this.recentSends.set(rateKey, recent)
+      } else {
+        this.recentSends.delete(rateKey)
+      }
+    })
+  }
+}
+
+export const roomChat = new RoomChat()
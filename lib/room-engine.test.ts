@@ -0,0 +1,256 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519"
+import type { SignedMove } from "@/types/game"
+import { encodeSettlementMessage } from "./move-signing"
+import type { SettlementRequest } from "./move-signing"
+import { RoomEngine, RoomEngineError } from "./room-engine"
+import { createRoom } from "./room"
+import type { Room } from "./room"
+import { MemoryRoomStore, ROOM_STORE_KEYS } from "./room-store"
+
+// The engine reads rooms from the chain and checks wallet signatures; both are faked here
+const { getRoomInfo, waitForTransaction, isRoomCancelled, verifySignedMove, verifyResignation } = vi.hoisted(() => ({
+  getRoomInfo: vi.fn(),
+  waitForTransaction: vi.fn(),
+  isRoomCancelled: vi.fn(),
+  verifySignedMove: vi.fn(),
+  verifyResignation: vi.fn(),
+}))
+
+vi.mock("./sui-integration", () => ({
+  suiContract: { getRoomInfo, waitForTransaction, isRoomCancelled, isRoomDeleted: vi.fn() },
+}))
+
+vi.mock("./move-signing", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./move-signing")>()),
+  verifySignedMove,
+  verifyResignation,
+}))
+
+const ALICE = "0xa"
+const BOB = "0xb"
+
+let store: MemoryRoomStore
+let archive: MemoryRoomStore
+let engine: RoomEngine
+
+function onChain(players: string[]) {
+  getRoomInfo.mockResolvedValue({ player1: players[0], player2: players[1], betAmount: 1 })
+}
+
+function move(seq: number, position: number, player: string): SignedMove {
+  return { roomId: "room", seq, position, player, signature: "sig" }
+}
+
+async function expectRejection(promise: Promise<unknown>, status: number) {
+  const error = await promise.then(
+    () => null,
+    (rejection: RoomEngineError) => rejection,
+  )
+  expect(error).toBeInstanceOf(RoomEngineError)
+  expect(error?.status).toBe(status)
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  vi.spyOn(console, "log").mockImplementation(() => {})
+  vi.spyOn(console, "warn").mockImplementation(() => {})
+  verifySignedMove.mockResolvedValue(true)
+  verifyResignation.mockResolvedValue(true)
+  store = new MemoryRoomStore()
+  archive = new MemoryRoomStore()
+  engine = new RoomEngine(store, archive)
+})
+
+describe("syncRoom", () => {
+  it("registers a room from the chain and ignores the client's copy of it", async () => {
+    onChain([ALICE])
+    const announced = { ...createRoom("room", 100, [ALICE, BOB]), board: Array(9).fill("X") }
+
+    const room = await engine.syncRoom("room", announced)
+    expect(room.players).toEqual([ALICE])
+    expect(room.betAmount).toBe(1)
+    expect(room.gameState).toBe("waiting")
+    expect(room.board.every((cell) => cell === null)).toBe(true)
+  })
+
+  it("asks the client to retry when the chain can't be read", async () => {
+    getRoomInfo.mockRejectedValue(new Error("RPC down"))
+    await expectRejection(engine.syncRoom("room", createRoom("room", 1, [ALICE])), 503)
+    expect(engine.getRoom("room")).toBeUndefined()
+  })
+
+  it("rejects a body that isn't a room", async () => {
+    onChain([ALICE])
+    await expectRejection(engine.syncRoom("room", {} as Room), 400)
+    await expectRejection(engine.syncRoom("room", { players: ALICE } as unknown as Room), 400)
+    await expectRejection(engine.syncRoom("room", null as unknown as Room), 400)
+    expect(getRoomInfo).not.toHaveBeenCalled()
+  })
+
+  it("starts the game once a join is visible on chain", async () => {
+    onChain([ALICE])
+    await engine.syncRoom("room", createRoom("room", 1, [ALICE]))
+
+    // Not on chain yet
+    const early = await engine.syncRoom("room", createRoom("room", 1, [ALICE, BOB]))
+    expect(early.gameState).toBe("waiting")
+
+    onChain([ALICE, BOB])
+    const joined = await engine.syncRoom("room", createRoom("room", 1, [ALICE, BOB]))
+    expect(joined.gameState).toBe("ready")
+    expect(joined.players).toEqual([ALICE, BOB])
+    expect(joined.version).toBe(1)
+  })
+})
+
+describe("makeMove", () => {
+  beforeEach(() => onChain([ALICE, BOB]))
+
+  it("applies a signed move and bumps the version", async () => {
+    const room = await engine.makeMove(move(0, 4, ALICE), 0)
+    expect(room.board[4]).toBe("X")
+    expect(room.moveLog).toHaveLength(1)
+    expect(room.version).toBe(1)
+    expect(room.gameState).toBe("playing")
+  })
+
+  it("rejects moves based on another version of the room", async () => {
+    await expectRejection(engine.makeMove(move(0, 4, ALICE), 3), 409)
+    await expectRejection(engine.makeMove(move(0, 4, ALICE), undefined as unknown as number), 409)
+    expect(engine.getRoom("room")?.moveLog).toHaveLength(0)
+  })
+
+  it("rejects moves out of sequence, out of turn or with a bad signature", async () => {
+    await expectRejection(engine.makeMove(move(1, 4, ALICE), 0), 409)
+    await expectRejection(engine.makeMove(move(0, 4, BOB), 0), 409)
+    await expectRejection(engine.makeMove(move(0, 4, "0xc"), 0), 403)
+
+    verifySignedMove.mockResolvedValue(false)
+    await expectRejection(engine.makeMove(move(0, 4, ALICE), 0), 401)
+    expect(engine.getRoom("room")?.board[4]).toBeNull()
+  })
+
+  it("applies only one of two moves made against the same version", async () => {
+    const results = await Promise.allSettled([
+      engine.makeMove(move(0, 4, ALICE), 0),
+      engine.makeMove(move(0, 0, ALICE), 0),
+    ])
+
+    expect(results.map((result) => result.status).sort()).toEqual(["fulfilled", "rejected"])
+    const room = engine.getRoom("room")!
+    expect(room.moveLog).toHaveLength(1)
+    expect(room.board.filter((cell) => cell !== null)).toHaveLength(1)
+  })
+
+  it("finishes the game and waits for settlement", async () => {
+    const positions = [0, 3, 1, 4, 2]
+    for (const [seq, position] of positions.entries()) {
+      await engine.makeMove(move(seq, position, seq % 2 === 0 ? ALICE : BOB), seq)
+    }
+
+    const room = engine.getRoom("room")!
+    expect(room.gameState).toBe("finished")
+    expect(room.winner).toBe(ALICE)
+    expect(room.settlement?.status).toBe("pending")
+    await expectRejection(engine.makeMove(move(5, 8, BOB), room.version!), 409)
+  })
+})
+
+describe("resign", () => {
+  beforeEach(() => onChain([ALICE, BOB]))
+
+  it("gives the game to the opponent", async () => {
+    const room = await engine.resign("room", ALICE, "sig", 0)
+    expect(room.gameState).toBe("finished")
+    expect(room.winner).toBe(BOB)
+    expect(room.forfeit).toEqual({ player: ALICE, reason: "resign" })
+    expect(room.settlement?.status).toBe("pending")
+  })
+
+  it("rejects a resignation the player didn't sign", async () => {
+    verifyResignation.mockResolvedValue(false)
+    await expectRejection(engine.resign("room", ALICE, "sig", 0), 401)
+    expect(engine.getRoom("room")?.gameState).toBe("ready")
+  })
+})
+
+describe("claimSettlement", () => {
+  // Settlement signatures are checked for real
+  const alice = new Ed25519Keypair()
+  const bob = new Ed25519Keypair()
+  const claim: SettlementRequest = { roomId: "room", player: alice.toSuiAddress(), action: "claim", attempt: 1 }
+
+  async function sign(keypair: Ed25519Keypair, request: SettlementRequest): Promise<string> {
+    return (await keypair.signPersonalMessage(encodeSettlementMessage(request))).signature
+  }
+
+  beforeEach(async () => {
+    onChain([alice.toSuiAddress(), bob.toSuiAddress()])
+    await engine.resign("room", bob.toSuiAddress(), "sig", 0)
+  })
+
+  it("grants a claim signed by the player", async () => {
+    const { granted, room } = await engine.claimSettlement("room", claim.player, await sign(alice, claim))
+    expect(granted).toBe(true)
+    expect(room.settlement).toMatchObject({ status: "submitted", submitter: claim.player, attempts: 1 })
+  })
+
+  it("rejects an unsigned claim or one signed by another wallet", async () => {
+    await expectRejection(engine.claimSettlement("room", claim.player, ""), 401)
+    await expectRejection(engine.claimSettlement("room", claim.player, await sign(bob, claim)), 401)
+    expect(engine.getRoom("room")?.settlement?.status).toBe("pending")
+  })
+
+  it("rejects a claim signature that was already used", async () => {
+    const signature = await sign(alice, claim)
+    await engine.claimSettlement("room", claim.player, signature)
+    await expectRejection(engine.claimSettlement("room", claim.player, signature), 401)
+  })
+})
+
+describe("closed rooms", () => {
+  it("archives a cancelled room an hour after it closed", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] })
+    try {
+      onChain([ALICE])
+      waitForTransaction.mockResolvedValue({ success: true })
+      isRoomCancelled.mockResolvedValue(true)
+      const closed = vi.fn()
+      engine.onClose(closed)
+      await engine.syncRoom("room", createRoom("room", 1, [ALICE]))
+      await engine.cancelRoom("room", ALICE, "digest")
+      expect(closed).toHaveBeenCalledWith(expect.objectContaining({ roomId: "room", gameState: "cancelled" }))
+
+      // Any later write prunes it
+      vi.advanceTimersByTime(30 * 60 * 1000)
+      await engine.syncRoom("other", createRoom("other", 1, [ALICE]))
+      expect(engine.getRoom("room")?.gameState).toBe("cancelled")
+
+      vi.advanceTimersByTime(31 * 60 * 1000)
+      await engine.syncRoom("another", createRoom("another", 1, [ALICE]))
+      expect(engine.getRoom("room")).toBeUndefined()
+      expect(closed).toHaveBeenCalledTimes(2)
+      expect(engine.getArchivedRoom("room")?.gameState).toBe("cancelled")
+      expect(new RoomEngine(store, archive).getArchivedRoom("room")?.gameState).toBe("cancelled")
+      // Live writes don't carry the archive along
+      expect(store.read(ROOM_STORE_KEYS.archivedRooms)).toBeNull()
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it("moves an archive kept next to the live rooms into the archive store", () => {
+    const closed = { ...createRoom("room", 1, [ALICE]), gameState: "cancelled" as const }
+    store.write(ROOM_STORE_KEYS.archivedRooms, { room: closed })
+
+    expect(new RoomEngine(store, archive).getArchivedRoom("room")?.gameState).toBe("cancelled")
+    expect(store.read(ROOM_STORE_KEYS.archivedRooms)).toBeNull()
+    expect(archive.read(ROOM_STORE_KEYS.archivedRooms)).toEqual({ room: closed })
+  })
+
+  it("doesn't load a room whose escrow was paid out", async () => {
+    getRoomInfo.mockResolvedValue({ player1: ALICE, player2: BOB, betAmount: 1, escrowBalance: 0 })
+    expect(await engine.getOrLoadRoom("room")).toBeNull()
+  })
+})
@@ -0,0 +1,721 @@
+/**
+ * Server-side Room Engine
+ *
+ * Holds the canonical Room for every active game on the server. Clients
+ * submit moves through the rooms API instead of pushing whole boards, and only
+ * state validated here is broadcast to the other players. Rooms are persisted
+ * through a RoomStore so games survive server restarts.
+ */
+
+import type { SignedMove } from "@/types/game"
+import { createArchiveRoomStore, FileRoomStore } from "./file-room-store"
+import { verifyResignation, verifyRoomSettings, verifySettlementRequest, verifySignedMove } from "./move-signing"
+import type { SettlementRequest } from "./move-signing"
+import {
+  applyMove,
+  applyResignation,
+  applyTimeout,
+  checkMove,
+  createRoom,
+  getRoomSettings,
+  isRoomClosed,
+  isRoomInProgress,
+  isRoomOver,
+  RoomMoveError,
+  transitionRoom,
+} from "./room"
+import type { MoveRejection, Room, Settlement } from "./room"
+import { suiContract } from "./sui-integration"
+import { ROOM_STORE_KEYS } from "./room-store"
+import type { RoomStore } from "./room-store"
+import { WinnerVerification } from "./winner-verification"
+
+// How long a claimed settlement may go without a transaction digest before another player can take over
+const SETTLEMENT_LEASE_MS = 60000
+
+// How often running clocks are checked for timeouts
+const CLOCK_SWEEP_INTERVAL_MS = 1000
+
+// How long a settled or cancelled room stays live before it's moved to the archive
+const CLOSED_ROOM_RETENTION_MS = 60 * 60 * 1000
+
+const MOVE_REJECTION_STATUS: Record<MoveRejection, number> = {
+  "not-a-player": 403,
+  "not-in-progress": 409,
+  "not-your-turn": 409,
+  "invalid-position": 400,
+  occupied: 409,
+  "wrong-sub-board": 409,
+  "invalid-mark": 400,
+}
+
+export class RoomEngineError extends Error {
+  readonly status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.name = "RoomEngineError"
+    this.status = status
+  }
+}
+
+export class RoomEngine {
+  private rooms = new Map<string, Room>()
+  private archivedRooms = new Map<string, Room>()
+  private forfeitListeners: ((room: Room) => void)[] = []
+  private closeListeners: ((room: Room) => void)[] = []
+  private clockSweep?: NodeJS.Timeout
+
+  /**
+   * Live rooms and archived ones are kept in separate stores, so saving a move only
+   * rewrites the rooms still in play
+   */
+  constructor(
+    private readonly store: RoomStore = new FileRoomStore(),
+    private readonly archiveStore: RoomStore = createArchiveRoomStore(),
+  ) {
+    try {
+      const roomsData = this.store.read<Record<string, Room>>(ROOM_STORE_KEYS.engineRooms)
+      Object.entries(roomsData || {}).forEach(([id, room]) => this.rooms.set(id, room))
+      const archivedData = this.loadArchivedRooms()
+      Object.entries(archivedData || {}).forEach(([id, room]) => this.archivedRooms.set(id, room))
+    } catch (error) {
+      console.warn("[RoomEngine] Failed to load rooms from store:", error)
+    }
+  }
+
+  getRoom(roomId: string): Room | undefined {
+    return this.rooms.get(roomId)
+  }
+
+  /**
+   * A settled or cancelled room that was moved out of the live rooms, with its move log,
+   * settlement and result, so finished games can still be read and replayed
+   */
+  getArchivedRoom(roomId: string): Room | undefined {
+    return this.archivedRooms.get(roomId)
+  }
+
+  /**
+   * Games being played right now, newest first, for spectators to pick from
+   */
+  listLiveRooms(): Room[] {
+    return Array.from(this.rooms.values())
+      .filter((room) => isRoomInProgress(room))
+      .sort((a, b) => b.createdAt - a.createdAt)
+  }
+
+  /**
+   * Get the canonical room, loading the player list from the Room object on chain
+   * when the server has not seen this room yet
+   */
+  async getOrLoadRoom(roomId: string): Promise<Room | null> {
+    const room = this.rooms.get(roomId)
+    if (room) return room
+
+    const roomInfo = await this.loadRoomFromChain(roomId)
+    if (!roomInfo) return null
+
+    // Another request may have loaded the room while the chain was read; keep its copy
+    const loaded = this.rooms.get(roomId)
+    if (loaded) return loaded
+
+    const loadedRoom = createRoom(roomId, roomInfo.betAmount, roomInfo.players)
+
+    this.rooms.set(roomId, loadedRoom)
+    this.persist()
+    console.log("[RoomEngine] Room loaded from blockchain:", roomId)
+    return loadedRoom
+  }
+
+  /**
+   * Reconcile a room pushed by a client with the canonical room.
+   * Clients may announce rooms and joins, but the board, turn and winner are
+   * owned by the engine and are never taken from client data. Joins are checked
+   * against the chain, and room settings are only taken from the creator's
+   * signature; any other announcement of an outdated copy is rejected.
+   */
+  async syncRoom(roomId: string, roomData: Room): Promise<Room> {
+    if (!isRoomAnnouncement(roomData)) {
+      throw new RoomEngineError("Room data must include the players and, if set, a numeric version", 400)
+    }
+    const room = this.rooms.get(roomId)
+
+    if (!room) {
+      // Players and stakes only ever come from the Room object on chain
+      const roomInfo = await this.loadRoomFromChain(roomId)
+      if (!roomInfo) {
+        throw new RoomEngineError(`Room ${roomId} could not be loaded from the blockchain; try again shortly`, 503)
+      }
+
+      const newRoom = createRoom(roomId, roomInfo.betAmount, roomInfo.players, {
+        createdAt: roomData.createdAt || Date.now(),
+      })
+      await this.applySignedSettings(newRoom, roomData)
+
+      // Another request may have registered the room meanwhile; reconcile with its copy instead
+      if (this.rooms.has(roomId)) return this.syncRoom(roomId, roomData)
+
+      this.rooms.set(roomId, newRoom)
+      this.persist()
+      console.log("[RoomEngine] Registered room from chain:", roomId)
+      return newRoom
+    }
+
+    // Someone else may have announced the room before its creator's signed settings arrived
+    if (room.gameState === "waiting" && !room.settingsSignature && (await this.applySignedSettings(room, roomData))) {
+      this.commit(room)
+      console.log("[RoomEngine] Applied the creator's room settings:", roomId)
+      return room
+    }
+
+    // A join is the only change a client can announce; confirm it on chain first
+    if (room.gameState === "waiting" && roomData.players.length > room.players.length) {
+      const roomInfo = await this.loadRoomFromChain(roomId)
+
+      if (roomInfo && roomInfo.players.length === 2) {
+        room.players = roomInfo.players
+        // Starting the game draws the opening player under the random-first-player rule
+        transitionRoom(room, "ready")
+        this.commit(room)
+        console.log("[RoomEngine] Join confirmed on chain, game started:", roomId)
+      } else {
+        console.warn("[RoomEngine] Ignoring join that is not visible on chain:", roomId)
+      }
+      return room
+    }
+
+    this.checkVersion(room, roomData.version)
+    return room
+  }
+
+  /**
+   * Validate a wallet-signed move, apply it and append it to the room's move log.
+   * expectedVersion is the room version the player saw when moving.
+   * Throws RoomEngineError with an HTTP status when the move is rejected.
+   */
+  async makeMove(move: SignedMove, expectedVersion: number): Promise<Room> {
+    const { roomId, position, player } = move
+    const room = await this.getOrLoadRoom(roomId)
+    if (!room) {
+      throw new RoomEngineError(`Room ${roomId} not found`, 404)
+    }
+
+    if (await this.enforceClock(roomId)) {
+      throw new RoomEngineError("Time ran out, the game was forfeited", 409)
+    }
+
+    this.checkVersion(room, expectedVersion)
+    this.checkMoveAllowed(room, move)
+
+    if (!(await verifySignedMove(move))) {
+      throw new RoomEngineError("Move signature does not match the player's wallet", 401)
+    }
+
+    // Another write may have landed while the signature was checked
+    this.checkVersion(room, expectedVersion)
+    this.checkMoveAllowed(room, move)
+
+    const gamesPlayed = room.games?.length || 0
+    try {
+      applyMove(room, position, player, move.mark)
+    } catch (error) {
+      if (error instanceof RoomMoveError) throw new RoomEngineError(error.message, 409)
+      throw error
+    }
+    room.moveLog = [...room.moveLog, move]
+
+    if (room.gameState !== "finished" && (room.games?.length || 0) > gamesPlayed) {
+      console.log(`[RoomEngine] Game ${room.games!.length} of ${room.bestOf} finished, next game started:`, roomId)
+    }
+
+    if (room.gameState === "finished") {
+      console.log(room.winner ? `[RoomEngine] Game finished! Winner: ${room.winner}` : `[RoomEngine] Game finished! It's a draw.`)
+      // A series settles once, after its deciding game
+      await this.prepareSettlement(room)
+    }
+
+    this.rooms.set(roomId, room)
+    this.commit(room)
+    return room
+  }
+
+  /**
+   * Forfeit the game for the current player if their clock has run out.
+   * Returns whether a forfeit was applied; forfeit listeners are notified when it was.
+   */
+  async enforceClock(roomId: string): Promise<boolean> {
+    const room = this.rooms.get(roomId)
+    if (!room || !applyTimeout(room)) return false
+
+    console.log(`[RoomEngine] ${room.forfeit!.player} ran out of time (${room.forfeit!.reason}), winner: ${room.winner}`)
+    await this.prepareSettlement(room)
+    this.commit(room)
+
+    this.forfeitListeners.forEach((listener) => listener(room))
+    return true
+  }
+
+  /**
+   * End the game as a loss for a player who signed a resignation.
+   * The opponent wins and the room goes to settlement like any finished game.
+   */
+  async resign(roomId: string, player: string, signature: string, expectedVersion: number): Promise<Room> {
+    const room = await this.getOrLoadRoom(roomId)
+    if (!room) {
+      throw new RoomEngineError(`Room ${roomId} not found`, 404)
+    }
+
+    if (await this.enforceClock(roomId)) {
+      throw new RoomEngineError("Time ran out, the game was forfeited", 409)
+    }
+
+    this.checkVersion(room, expectedVersion)
+
+    if (!(await verifyResignation(roomId, player, signature))) {
+      throw new RoomEngineError("Resignation signature does not match the player's wallet", 401)
+    }
+
+    // Another write may have landed while the signature was checked
+    this.checkVersion(room, expectedVersion)
+
+    try {
+      applyResignation(room, player)
+    } catch (error) {
+      if (error instanceof RoomMoveError) {
+        throw new RoomEngineError(error.message, MOVE_REJECTION_STATUS[error.reason])
+      }
+      throw error
+    }
+
+    console.log(`[RoomEngine] ${player} resigned, winner: ${room.winner}`)
+    await this.prepareSettlement(room)
+    this.commit(room)
+    return room
+  }
+
+  /**
+   * Close a room the creator cancelled on chain before anyone joined.
+   * The cancel transaction must have succeeded and deleted the Room object,
+   * so a late join can never lock the opponent's stake in a cancelled room.
+   */
+  async cancelRoom(roomId: string, player: string, transactionDigest: string): Promise<Room> {
+    const room = await this.getOrLoadRoom(roomId)
+    if (!room) {
+      throw new RoomEngineError(`Room ${roomId} not found`, 404)
+    }
+
+    if (player !== room.creator) {
+      throw new RoomEngineError("Only the room creator can cancel it", 403)
+    }
+
+    if (room.gameState !== "waiting") {
+      throw new RoomEngineError(`Only waiting rooms can be cancelled (${room.gameState})`, 409)
+    }
+
+    const { success, error } = await suiContract.waitForTransaction(transactionDigest)
+    if (!success) {
+      throw new RoomEngineError(`Cancel transaction failed: ${error}`, 409)
+    }
+
+    if (!(await suiContract.isRoomCancelled(roomId))) {
+      throw new RoomEngineError("Room is still open on chain", 409)
+    }
+
+    transitionRoom(room, "cancelled")
+    this.commit(room)
+    console.log("[RoomEngine] Room cancelled by its creator:", roomId)
+
+    this.closeListeners.forEach((listener) => listener(room))
+    return room
+  }
+
+  onForfeit(listener: (room: Room) => void): () => void {
+    this.forfeitListeners.push(listener)
+    return () => {
+      this.forfeitListeners = this.forfeitListeners.filter((l) => l !== listener)
+    }
+  }
+
+  /**
+   * Listen for rooms being settled or cancelled, and for closed rooms being archived,
+   * to let go of anything kept for them outside the engine
+   */
+  onClose(listener: (room: Room) => void): () => void {
+    this.closeListeners.push(listener)
+    return () => {
+      this.closeListeners = this.closeListeners.filter((l) => l !== listener)
+    }
+  }
+
+  /**
+   * Check every running clock periodically so abandoned games are forfeited without
+   * waiting for either player to act
+   */
+  startClockSweep(): void {
+    if (this.clockSweep) return
+
+    this.clockSweep = setInterval(() => {
+      this.rooms.forEach((room) => {
+        if (isRoomInProgress(room)) {
+          this.enforceClock(room.roomId).catch((error) => console.error("[RoomEngine] Clock check failed:", error))
+        }
+      })
+    }, CLOCK_SWEEP_INTERVAL_MS)
+  }
+
+  /**
+   * Ask for the right to submit the settlement transaction.
+   * Exactly one player is granted the claim; everyone else should watch the room
+   * until the settlement is confirmed. Failed or abandoned settlements can be claimed again.
+   * The claim is signed for the next attempt, so it can't be replayed to renew a lease.
+   */
+  async claimSettlement(roomId: string, player: string, signature: string): Promise<{ granted: boolean; room: Room }> {
+    const room = this.getFinishedRoom(roomId, player)
+    const attempt = (room.settlement?.attempts || 0) + 1
+    await this.checkSettlementSignature({ roomId, player, action: "claim", attempt }, signature)
+
+    // Another claim may have landed while the signature was checked
+    if ((room.settlement?.attempts || 0) + 1 !== attempt) {
+      throw new RoomEngineError("Settlement was claimed by someone else; refetch the room and try again", 409)
+    }
+
+    const settlement: Settlement = room.settlement || { status: "pending", attempts: 0, updatedAt: Date.now() }
+    room.settlement = settlement
+
+    if (settlement.status === "confirmed") {
+      return { granted: false, room }
+    }
+
+    if (settlement.status === "submitted") {
+      if (settlement.transactionDigest) {
+        // Resolve the outstanding transaction before anyone may retry
+        await this.confirmSettlement(roomId, 5000)
+        if (room.settlement.status !== "failed") {
+          return { granted: false, room }
+        }
+      } else if (Date.now() - settlement.updatedAt < SETTLEMENT_LEASE_MS) {
+        // The submitter is still signing
+        return { granted: false, room }
+      }
+    }
+
+    // Retrying: make sure an earlier attempt did not already release the escrow
+    if (room.settlement.attempts > 0 && (await this.isEscrowReleased(roomId))) {
+      this.recordSettlementConfirmed(room)
+      return { granted: false, room }
+    }
+
+    room.settlement = {
+      status: "submitted",
+      submitter: player,
+      attempts: room.settlement.attempts + 1,
+      updatedAt: Date.now(),
+    }
+    this.commit(room)
+    console.log(`[RoomEngine] Settlement claimed by ${player} (attempt ${room.settlement.attempts}):`, roomId)
+    return { granted: true, room }
+  }
+
+  /**
+   * Record the digest of the settlement transaction sent by the claiming player.
+   * The digest is only trusted once confirmSettlement has checked it settles this room.
+   */
+  async reportSettlement(roomId: string, player: string, transactionDigest: string, signature: string): Promise<Room> {
+    const room = this.getFinishedRoom(roomId, player)
+    const attempt = room.settlement?.attempts || 0
+    await this.checkSettlementSignature(
+      { roomId, player, action: "report", attempt, digest: transactionDigest },
+      signature,
+    )
+    const settlement = room.settlement
+
+    if (
+      !settlement ||
+      settlement.attempts !== attempt ||
+      settlement.status !== "submitted" ||
+      settlement.submitter !== player
+    ) {
+      throw new RoomEngineError("Settlement was not claimed by this player", 409)
+    }
+
+    if (settlement.transactionDigest && settlement.transactionDigest !== transactionDigest) {
+      throw new RoomEngineError("A different settlement transaction was already reported", 409)
+    }
+
+    room.settlement = { ...settlement, transactionDigest, updatedAt: Date.now() }
+    this.commit(room)
+    return room
+  }
+
+  /**
+   * Record that the claiming player could not submit the transaction, so it can be retried
+   */
+  async failSettlement(roomId: string, player: string, error: string, signature: string): Promise<Room> {
+    const room = this.getFinishedRoom(roomId, player)
+    const attempt = room.settlement?.attempts || 0
+    await this.checkSettlementSignature({ roomId, player, action: "fail", attempt }, signature)
+    const settlement = room.settlement
+
+    if (
+      settlement?.status === "submitted" &&
+      settlement.attempts === attempt &&
+      settlement.submitter === player &&
+      !settlement.transactionDigest
+    ) {
+      room.settlement = { ...settlement, status: "failed", error, updatedAt: Date.now() }
+      this.commit(room)
+      console.warn(`[RoomEngine] Settlement attempt failed before submission: ${error}`)
+    }
+
+    return room
+  }
+
+  /**
+   * Wait for the reported settlement transaction and mark it confirmed or failed.
+   * A transaction that succeeded but does not settle this room as the engine decided counts
+   * as failed, so the settlement can be claimed again. A wait that times out leaves
+   * the settlement submitted.
+   */
+  async confirmSettlement(roomId: string, timeout = 60000): Promise<Room | undefined> {
+    const room = this.rooms.get(roomId)
+    const digest = room?.settlement?.transactionDigest
+    if (!room || !room.settlement || !digest || room.settlement.status !== "submitted") return room
+
+    try {
+      const { success, error } = await suiContract.verifySettlementTransaction(
+        digest,
+        { roomId, winner: room.winner || null, players: room.players, betAmount: room.betAmount },
+        timeout,
+      )
+
+      if (success) {
+        this.recordSettlementConfirmed(room)
+      } else {
+        room.settlement = { ...room.settlement, status: "failed", error, updatedAt: Date.now() }
+        this.commit(room)
+        console.warn(`[RoomEngine] Settlement transaction failed: ${digest}`)
+      }
+    } catch (error) {
+      console.warn(`[RoomEngine] Settlement transaction not confirmed yet: ${digest}`)
+    }
+
+    return room
+  }
+
+  private recordSettlementConfirmed(room: Room): void {
+    const transactionDigest = room.settlement?.transactionDigest
+    room.settlement = {
+      attempts: 0,
+      ...room.settlement,
+      status: "confirmed",
+      error: undefined,
+      updatedAt: Date.now(),
+    }
+    if (room.gameState === "finished") transitionRoom(room, "settled")
+
+    const winner = room.winner || null
+    room.history = [
+      ...(room.history || []),
+      {
+        result: winner ? "win" : "draw",
+        winner,
+        payout: winner ? "prize" : "refund",
+        transactionDigest,
+        settledAt: Date.now(),
+      },
+    ]
+    this.commit(room)
+    console.log("[RoomEngine] Settlement confirmed:", room.roomId, transactionDigest)
+
+    if (isRoomClosed(room)) this.closeListeners.forEach((listener) => listener(room))
+  }
+
+  /**
+   * Save a change to a room, moving it to its next version
+   */
+  private commit(room: Room): void {
+    room.version = (room.version || 0) + 1
+    this.persist()
+  }
+
+  /**
+   * Reject a write based on an older version of the room, or one that doesn't say
+   * which version it was based on. Either way the client should refetch the room.
+   */
+  private checkVersion(room: Room, expectedVersion: number | undefined): void {
+    const version = room.version || 0
+    if (expectedVersion === undefined) {
+      throw new RoomEngineError(`Room version missing (current version is ${version}); refetch the room and try again`, 409)
+    }
+    if (expectedVersion !== version) {
+      throw new RoomEngineError(
+        `Room was updated by someone else (version ${version}, your copy is version ${expectedVersion}); refetch it and try again`,
+        409,
+      )
+    }
+  }
+
+  /**
+   * Reject a move that can't be applied to the room as it is now, or that was made
+   * for a different point in the move log
+   */
+  private checkMoveAllowed(room: Room, move: SignedMove): void {
+    const rejection = checkMove(room, move.position, move.player, move.mark)
+    if (rejection) {
+      throw new RoomEngineError(rejection.message, MOVE_REJECTION_STATUS[rejection.reason])
+    }
+
+    if (move.seq !== room.moveLog.length) {
+      throw new RoomEngineError(`Stale move: expected seq ${room.moveLog.length}, got ${move.seq}`, 409)
+    }
+  }
+
+  private persist(): void {
+    this.pruneClosedRooms()
+    try {
+      this.store.write(ROOM_STORE_KEYS.engineRooms, Object.fromEntries(this.rooms))
+    } catch (error) {
+      console.warn("[RoomEngine] Failed to persist rooms:", error)
+    }
+  }
+
+  // Move rooms that were settled or cancelled a while ago to the archive, so the live rooms
+  // the engine keeps rewriting don't grow with every game
+  private pruneClosedRooms(now = Date.now()): void {
+    const archived: Room[] = []
+    this.rooms.forEach((room, roomId) => {
+      // Rooms closed before closedAt was recorded are old enough
+      if (isRoomClosed(room) && now - (room.closedAt || 0) > CLOSED_ROOM_RETENTION_MS) {
+        this.archivedRooms.set(roomId, room)
+        this.rooms.delete(roomId)
+        archived.push(room)
+      }
+    })
+
+    if (archived.length === 0) return
+    try {
+      this.archiveStore.write(ROOM_STORE_KEYS.archivedRooms, Object.fromEntries(this.archivedRooms))
+    } catch (error) {
+      console.warn("[RoomEngine] Failed to persist archived rooms:", error)
+    }
+    archived.forEach((room) => this.closeListeners.forEach((listener) => listener(room)))
+  }
+
+  // Archives written before the archive had a store of its own sit next to the live rooms; move them over
+  private loadArchivedRooms(): Record<string, Room> | null {
+    const archived = this.archiveStore.read<Record<string, Room>>(ROOM_STORE_KEYS.archivedRooms)
+    if (archived || this.archiveStore === this.store) return archived
+
+    const legacy = this.store.read<Record<string, Room>>(ROOM_STORE_KEYS.archivedRooms)
+    if (legacy) {
+      this.archiveStore.write(ROOM_STORE_KEYS.archivedRooms, legacy)
+      this.store.remove(ROOM_STORE_KEYS.archivedRooms)
+    }
+    return legacy
+  }
+
+  private getFinishedRoom(roomId: string, player: string): Room {
+    const room = this.rooms.get(roomId)
+    if (!room) {
+      throw new RoomEngineError(`Room ${roomId} not found`, 404)
+    }
+
+    if (!room.players.includes(player)) {
+      throw new RoomEngineError("Player is not part of this room", 403)
+    }
+
+    if (!isRoomOver(room)) {
+      throw new RoomEngineError("Game is not finished", 409)
+    }
+
+    return room
+  }
+
+  private async checkSettlementSignature(request: SettlementRequest, signature: string): Promise<void> {
+    if (!(await verifySettlementRequest(request, signature))) {
+      throw new RoomEngineError(`Settlement ${request.action} signature does not match the player's wallet`, 401)
+    }
+  }
+
+  // Settling deletes or consumes the Room object, so a missing object means its escrow is gone
+  private async isEscrowReleased(roomId: string): Promise<boolean> {
+    try {
+      if (await suiContract.isRoomDeleted(roomId)) return true
+      const roomInfo = await suiContract.getRoomInfo(roomId)
+      return roomInfo.escrowBalance === 0
+    } catch (error) {
+      return false
+    }
+  }
+
+  /**
+   * Give a room the settings its creator signed. Returns false, leaving the room as
+   * it is, when the announcement carries no valid signature from the creator.
+   */
+  private async applySignedSettings(room: Room, roomData: Room): Promise<boolean> {
+    const signature = roomData.settingsSignature
+    if (!signature) return false
+
+    const settings = getRoomSettings(roomData)
+    if (!(await verifyRoomSettings(room.roomId, room.creator, settings, signature))) return false
+
+    const configured = createRoom(room.roomId, room.betAmount, room.players, { createdAt: room.createdAt, ...settings })
+    Object.assign(room, configured, { version: room.version, settingsSignature: signature })
+    return true
+  }
+
+  // A finished game, by board result, on time or by resignation, gets a proof and waits for settlement
+  private async prepareSettlement(room: Room): Promise<void> {
+    await this.attachWinnerProof(room)
+    room.settlement = { status: "pending", attempts: 0, updatedAt: Date.now() }
+  }
+
+  /**
+   * Sign the finished game with the oracle key so third parties can audit the payout
+   */
+  private async attachWinnerProof(room: Room): Promise<void> {
+    if (!WinnerVerification.isOracleConfigured()) {
+      console.warn("[RoomEngine] Oracle key not configured, finished game has no winner proof:", room.roomId)
+      return
+    }
+
+    try {
+      room.winnerProof = await WinnerVerification.generateGameProof(room)
+      console.log("[RoomEngine] Winner proof generated:", room.winnerProof.gameHash)
+    } catch (error) {
+      console.error("[RoomEngine] Failed to generate winner proof:", error)
+    }
+  }
+
+  private async loadRoomFromChain(roomId: string): Promise<{ players: string[]; betAmount: number } | null> {
+    try {
+      const roomInfo = await suiContract.getRoomInfo(roomId)
+      // A room whose escrow was paid out is over, even if its object is still on chain
+      if (!roomInfo?.player1 || roomInfo.escrowBalance === 0) return null
+      return {
+        players: roomInfo.player2 ? [roomInfo.player1, roomInfo.player2] : [roomInfo.player1],
+        betAmount: roomInfo.betAmount,
+      }
+    } catch (error) {
+      console.warn("[RoomEngine] Could not load room from blockchain:", roomId)
+      return null
+    }
+  }
+}
+
+/**
+ * Whether a request body has the fields syncRoom reads from a client's room
+ */
+function isRoomAnnouncement(roomData: unknown): roomData is Room {
+  if (!roomData || typeof roomData !== "object") return false
+  const { players, version, createdAt } = roomData as Partial<Room>
+  return (
+    Array.isArray(players) &&
+    players.every((player) => typeof player === "string") &&
+    (version === undefined || typeof version === "number") &&
+    (createdAt === undefined || typeof createdAt === "number")
+  )
+}
+
+export const roomEngine = new RoomEngine()
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest"
+import {
+  findStalledConnections,
+  getUnreadChunks,
+  MAX_UNREAD_CHUNKS,
+  REPLAY_BUFFER_SIZE,
+  RoomEventBuffer,
+  type StreamWriter,
+} from "./room-event-stream"
+
+function recordVersions(buffer: RoomEventBuffer, from: number, to: number) {
+  for (let version = from; version <= to; version++) {
+    buffer.record("room", version, { type: "room_state_changed", data: { version } })
+  }
+}
+
+function ids(events: { id: number }[] | null) {
+  return events?.map(({ id }) => id) ?? null
+}
+
+// The controller of a stream nobody reads from, as the SSE route holds for each connection
+function openStream(): StreamWriter {
+  let writer: StreamWriter | undefined
+  new ReadableStream({
+    start(controller) {
+      writer = controller
+    },
+  })
+  return writer!
+}
+
+describe("RoomEventBuffer", () => {
+  it("replays the events after the version a client last saw", () => {
+    const buffer = new RoomEventBuffer()
+    recordVersions(buffer, 1, 5)
+
+    expect(ids(buffer.getMissedEvents("room", 3))).toEqual([4, 5])
+    expect(ids(buffer.getMissedEvents("room", 5))).toEqual([])
+    expect(ids(buffer.getMissedEvents("other", 0))).toEqual([])
+    expect(JSON.parse(buffer.getMissedEvents("room", 4)![0].message)).toMatchObject({ roomId: "room", data: { version: 5 } })
+  })
+
+  it("keeps an event that arrives after a newer one out of the buffer", () => {
+    const buffer = new RoomEventBuffer()
+    recordVersions(buffer, 1, 3)
+    buffer.record("room", 2, { type: "room_state_changed" })
+
+    expect(ids(buffer.getMissedEvents("room", 0))).toEqual([1, 2, 3])
+  })
+
+  it("asks for a full resync instead of a partial replay once missed events were dropped", () => {
+    const buffer = new RoomEventBuffer()
+    recordVersions(buffer, 1, REPLAY_BUFFER_SIZE + 10)
+
+    // Versions 1 to 10 were dropped to keep the last 50
+    expect(buffer.getMissedEvents("room", 0)).toBeNull()
+    expect(buffer.getMissedEvents("room", 9)).toBeNull()
+    expect(ids(buffer.getMissedEvents("room", 10))).toHaveLength(REPLAY_BUFFER_SIZE)
+    expect(ids(buffer.getMissedEvents("room", REPLAY_BUFFER_SIZE + 9))).toEqual([REPLAY_BUFFER_SIZE + 10])
+  })
+})
+
+describe("findStalledConnections", () => {
+  it("counts the chunks a client left unread", () => {
+    const writer = openStream()
+    expect(getUnreadChunks(writer)).toBe(0)
+    writer.enqueue(new Uint8Array(1))
+    writer.enqueue(new Uint8Array(1))
+    expect(getUnreadChunks(writer)).toBe(2)
+  })
+
+  it("drops connections whose client stopped reading or that can't be written to", () => {
+    const unread = (count: number) => {
+      const writer = openStream()
+      for (let i = 0; i < count; i++) writer.enqueue(new Uint8Array(1))
+      return { writer }
+    }
+    // The heartbeat is one more chunk for each of them
+    const reading = unread(0)
+    const behind = unread(MAX_UNREAD_CHUNKS - 2)
+    const stopped = unread(MAX_UNREAD_CHUNKS - 1)
+    const closed = unread(0)
+    closed.writer.close()
+
+    const rooms = new Map([
+      ["room", new Set([reading, behind, stopped])],
+      ["other", new Set([closed])],
+    ])
+    const stalled = findStalledConnections(rooms, ({ writer }) => {
+      try {
+        writer.enqueue(new Uint8Array(1))
+        return true
+      } catch (error) {
+        return false
+      }
+    })
+
+    // Stream controllers have no fields to tell apart, so compare the connections themselves
+    expect(stalled.map(({ roomId }) => roomId)).toEqual(["room", "other"])
+    expect(stalled[0].connection).toBe(stopped)
+    expect(stalled[1].connection).toBe(closed)
+  })
+})
@@ -0,0 +1,90 @@
+/**
+ * Room Event Stream
+ *
+ * Bookkeeping behind the rooms' SSE channel (see app/api/socket). Each room keeps its
+ * most recent events so a client resuming with Last-Event-ID is sent what it missed,
+ * and every open connection gets a heartbeat that also finds clients which stopped
+ * reading. Event IDs are room versions, so they agree across server instances.
+ */
+
+export interface RoomEvent {
+  id: number // The room version the event carries
+  message: string
+}
+
+// Events kept per room for clients resuming with Last-Event-ID
+export const REPLAY_BUFFER_SIZE = 50
+
+// A connection whose client left this many chunks unread has stopped reading and is dropped
+export const MAX_UNREAD_CHUNKS = 8
+
+/**
+ * The writing end of an SSE stream; a ReadableStream's controller
+ */
+export interface StreamWriter {
+  readonly desiredSize: number | null
+  enqueue(chunk: Uint8Array): void
+  close(): void
+}
+
+export class RoomEventBuffer {
+  // Each room's most recent events, oldest first
+  private buffers = new Map<string, RoomEvent[]>()
+  // The newest event each room dropped to stay within the buffer size
+  private droppedThrough = new Map<string, number>()
+
+  constructor(private readonly size = REPLAY_BUFFER_SIZE) {}
+
+  /**
+   * Keep an event for replay. Events arrive in version order, except that a late one
+   * can't follow a newer one into the buffer.
+   */
+  record(roomId: string, id: number, event: Record<string, unknown>): RoomEvent {
+    const roomEvent = { id, message: JSON.stringify({ ...event, roomId, timestamp: Date.now() }) }
+    const buffer = this.buffers.get(roomId) || []
+    if (buffer.length > 0 && buffer[buffer.length - 1].id >= id) return roomEvent
+
+    const kept = [...buffer, roomEvent]
+    if (kept.length > this.size) {
+      const dropped = kept.splice(0, kept.length - this.size)
+      this.droppedThrough.set(roomId, dropped[dropped.length - 1].id)
+    }
+    this.buffers.set(roomId, kept)
+    return roomEvent
+  }
+
+  /**
+   * Events newer than the version a resuming client last saw. Null when some of them
+   * were already dropped, so the client needs the whole room again instead of a partial replay.
+   */
+  getMissedEvents(roomId: string, lastEventId: number): RoomEvent[] | null {
+    if (lastEventId < (this.droppedThrough.get(roomId) ?? -Infinity)) return null
+    return (this.buffers.get(roomId) || []).filter((roomEvent) => roomEvent.id > lastEventId)
+  }
+}
+
+/**
+ * Chunks written to a stream that its client hasn't read yet
+ */
+export function getUnreadChunks(writer: StreamWriter): number {
+  return Math.max(0, 1 - (writer.desiredSize ?? 1))
+}
+
+/**
+ * Write a heartbeat to every connection and return the ones to drop: those the heartbeat
+ * couldn't be written to, and those whose client left MAX_UNREAD_CHUNKS unread
+ */
+export function findStalledConnections<T extends { writer: StreamWriter }>(
+  rooms: Map<string, Set<T>>,
+  heartbeat: (connection: T) => boolean,
+): { roomId: string; connection: T }[] {
+  const stalled: { roomId: string; connection: T }[] = []
+  rooms.forEach((connections, roomId) => {
+    connections.forEach((connection) => {
+      if (!heartbeat(connection) || getUnreadChunks(connection.writer) >= MAX_UNREAD_CHUNKS) {
+        stalled.push({ roomId, connection })
+      }
+    })
+  })
+  return stalled
+}
@@ -0,0 +1,97 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import type { RoomEvent } from "./sui-integration"
+import { paginateRooms, roomIndexer } from "./room-indexer"
+
+// The indexer reads twoproom events from the chain; here they come from a list
+const { queryRoomEvents, subscribeRoomEvents } = vi.hoisted(() => ({
+  queryRoomEvents: vi.fn(),
+  subscribeRoomEvents: vi.fn(),
+}))
+
+vi.mock("./sui-integration", () => ({
+  suiContract: { queryRoomEvents, subscribeRoomEvents },
+}))
+
+function deliver(events: Partial<RoomEvent>[]) {
+  queryRoomEvents.mockResolvedValueOnce({ events, nextCursor: null, hasNextPage: false })
+}
+
+function created(roomId: string, timestamp: number, betAmount = 1): Partial<RoomEvent> {
+  return { kind: "RoomCreated", roomId, player1: "0xa", betAmount, timestamp }
+}
+
+beforeEach(async () => {
+  vi.spyOn(console, "log").mockImplementation(() => {})
+  await roomIndexer.stop()
+  queryRoomEvents.mockReset()
+  queryRoomEvents.mockResolvedValue({ events: [], nextCursor: null, hasNextPage: false })
+  subscribeRoomEvents.mockReset()
+  subscribeRoomEvents.mockResolvedValue(async () => true)
+})
+
+describe("roomIndexer", () => {
+  it("lists open rooms until they are joined or cancelled", async () => {
+    deliver([
+      created("open", 1),
+      created("joined", 2),
+      created("cancelled", 3),
+      { kind: "RoomJoined", roomId: "joined", player2: "0xb" },
+      { kind: "RoomCancelled", roomId: "cancelled" },
+    ])
+
+    const page = await roomIndexer.listOpenRooms()
+    expect(page.rooms.map((room) => room.roomId)).toContain("open")
+    expect(page.rooms.map((room) => room.roomId)).not.toContain("joined")
+    expect(page.rooms.map((room) => room.roomId)).not.toContain("cancelled")
+  })
+
+  it("leaves out rooms the caller rejects", async () => {
+    deliver([created("kept", 10), created("hidden", 11)])
+
+    const page = await roomIndexer.listOpenRooms({ pageSize: 50 }, (room) => (room.roomId === "hidden" ? null : room))
+    expect(page.rooms.map((room) => room.roomId)).toContain("kept")
+    expect(page.rooms.map((room) => room.roomId)).not.toContain("hidden")
+  })
+
+  it("serves later lists from the subscription without querying the chain", async () => {
+    let onEvent: (event: Partial<RoomEvent>) => void = () => {}
+    subscribeRoomEvents.mockImplementation(async (listener) => {
+      onEvent = listener
+      return async () => true
+    })
+
+    await Promise.all([roomIndexer.listOpenRooms(), roomIndexer.listOpenRooms()])
+    onEvent(created("pushed", 20))
+    const page = await roomIndexer.listOpenRooms({ pageSize: 50 })
+
+    expect(page.rooms.map((room) => room.roomId)).toContain("pushed")
+    expect(queryRoomEvents).toHaveBeenCalledTimes(1)
+  })
+
+  // The index is shared with the tests above, whose rooms are all older than these
+  it("drops the oldest open rooms once the index is full", async () => {
+    deliver(Array.from({ length: 1005 }, (_, i) => created(`bulk-${i}`, 1000 + i)))
+
+    const page = await roomIndexer.listOpenRooms({ pageSize: 50, sort: "oldest" })
+    expect(page.total).toBe(1000)
+    expect(page.rooms[0].roomId).toBe("bulk-5")
+  })
+})
+
+describe("paginateRooms", () => {
+  const rooms = [
+    { betAmount: 1, createdAt: 1 },
+    { betAmount: 5, createdAt: 2, rules: ["misere" as const] },
+    { betAmount: 3, createdAt: 3 },
+  ]
+
+  it("filters by bet and rule, sorts and pages", () => {
+    expect(paginateRooms(rooms, { minBet: 2 }).rooms.map((room) => room.betAmount)).toEqual([3, 5])
+    expect(paginateRooms(rooms, { rule: "classic" }).total).toBe(2)
+    expect(paginateRooms(rooms, { sort: "bet-desc", pageSize: 2, page: 2 })).toMatchObject({
+      rooms: [{ betAmount: 1 }],
+      total: 3,
+      hasMore: false,
+    })
+  })
+})
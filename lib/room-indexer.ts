@@ -0,0 +1,230 @@
+/**
+ * Room Indexer
+ *
+ * Builds a network-wide list of rooms from the twoproom module's RoomCreated,
+ * RoomJoined and RoomCancelled events. Owned-object queries only ever return the connected wallet's
+ * rooms, so the lobby is served from this index instead.
+ */
+
+import { suiContract } from "./sui-integration"
+import type { RoomEvent, RoomEventCursor } from "./sui-integration"
+import type { SeriesLength } from "./room"
+import type { BoardVariant, GameRule, GameType } from "@/types/game"
+
+// Fallback catch-up interval when the event subscription is unavailable
+const POLL_INTERVAL_MS = 15000
+// Catch-up interval alongside the subscription, for events it missed while reconnecting
+const CATCH_UP_INTERVAL_MS = 5 * 60 * 1000
+const DEFAULT_PAGE_SIZE = 10
+const MAX_PAGE_SIZE = 50
+// Rooms kept in the index; past this, joined rooms and then the oldest open ones are dropped
+const MAX_INDEXED_ROOMS = 1000
+
+export type RoomSortOrder = "newest" | "oldest" | "bet-asc" | "bet-desc"
+
+export interface IndexedRoom {
+  roomId: string
+  creator: string
+  players: string[]
+  betAmount: number
+  isFull: boolean
+  createdAt: number
+  // Off-chain room settings, filled in from the room engine when it knows the room
+  bestOf?: SeriesLength
+  variant?: BoardVariant
+  gameType?: GameType
+  rules?: GameRule[]
+}
+
+export interface RoomListOptions {
+  page?: number
+  pageSize?: number
+  minBet?: number
+  maxBet?: number
+  rule?: GameRule | "classic" // Only rooms played with this rule, or "classic" for rooms without rule variants
+  sort?: RoomSortOrder
+}
+
+export interface RoomListPage<T = IndexedRoom> {
+  rooms: T[]
+  total: number
+  page: number
+  pageSize: number
+  hasMore: boolean
+}
+
+class RoomIndexer {
+  private rooms = new Map<string, IndexedRoom>()
+  private cursor: RoomEventCursor | null = null
+  private syncing: Promise<void> | null = null
+  private unsubscribe?: () => Promise<boolean>
+  private pollTimer?: NodeJS.Timeout
+  private starting: Promise<void> | null = null
+
+  /**
+   * Catch up on past events once, then follow new ones through the event subscription
+   * (or by polling when the node does not support subscriptions). With a subscription
+   * the index still catches up now and then, in case it dropped events.
+   * Concurrent callers wait for the same start.
+   */
+  start(): Promise<void> {
+    if (!this.starting) {
+      this.starting = this.follow().catch((error) => {
+        this.starting = null
+        throw error
+      })
+    }
+    return this.starting
+  }
+
+  private async follow(): Promise<void> {
+    await this.sync()
+
+    let interval = CATCH_UP_INTERVAL_MS
+    try {
+      this.unsubscribe = await suiContract.subscribeRoomEvents((event) => this.applyEvent(event))
+      console.log("[RoomIndexer] Subscribed to twoproom events")
+    } catch (error) {
+      console.warn("[RoomIndexer] Event subscription unavailable, polling instead:", error)
+      interval = POLL_INTERVAL_MS
+    }
+
+    this.pollTimer = setInterval(() => {
+      this.sync().catch((syncError) => console.warn("[RoomIndexer] Poll failed:", syncError))
+    }, interval)
+  }
+
+  async stop(): Promise<void> {
+    if (this.pollTimer) clearInterval(this.pollTimer)
+    if (this.unsubscribe) await this.unsubscribe()
+    this.pollTimer = undefined
+    this.unsubscribe = undefined
+    this.starting = null
+  }
+
+  /**
+   * Read every event after the last cursor. Concurrent callers share one pass.
+   */
+  sync(): Promise<void> {
+    if (!this.syncing) {
+      this.syncing = this.readNewEvents().finally(() => {
+        this.syncing = null
+      })
+    }
+    return this.syncing
+  }
+
+  /**
+   * Open (not yet full) rooms across the whole network, filtered, sorted and paginated.
+   * Served from the index without reading the chain, except on the first call.
+   * resolveRoom fills in the off-chain room settings before filtering, or returns null
+   * for a room that should not be listed.
+   */
+  async listOpenRooms(
+    options: RoomListOptions = {},
+    resolveRoom: (room: IndexedRoom) => IndexedRoom | null = (room) => room,
+  ): Promise<RoomListPage<IndexedRoom>> {
+    await this.start()
+
+    const openRooms = Array.from(this.rooms.values())
+      .filter((room) => !room.isFull)
+      .map(resolveRoom)
+      .filter((room): room is IndexedRoom => room !== null)
+    return paginateRooms(openRooms, options)
+  }
+
+  private async readNewEvents(): Promise<void> {
+    let hasNextPage = true
+
+    while (hasNextPage) {
+      const result = await suiContract.queryRoomEvents(this.cursor)
+      result.events.forEach((event) => this.applyEvent(event))
+
+      if (result.nextCursor) this.cursor = result.nextCursor
+      hasNextPage = result.hasNextPage
+    }
+  }
+
+  private applyEvent(event: RoomEvent): void {
+    if (!event.roomId) return
+
+    if (event.kind === "RoomCreated" && event.player1) {
+      if (this.rooms.has(event.roomId)) return
+      this.rooms.set(event.roomId, {
+        roomId: event.roomId,
+        creator: event.player1,
+        players: [event.player1],
+        betAmount: event.betAmount ?? 0,
+        isFull: false,
+        createdAt: event.timestamp,
+      })
+      this.evictRooms()
+    } else if (event.kind === "RoomJoined" && event.player2) {
+      const room = this.rooms.get(event.roomId)
+      if (!room || room.isFull) return
+      room.players = [room.creator, event.player2]
+      room.isFull = true
+    } else if (event.kind === "RoomCancelled") {
+      this.rooms.delete(event.roomId)
+    }
+  }
+
+  // Joined rooms go first since the lobby no longer lists them, then the oldest open ones
+  private evictRooms(): void {
+    if (this.rooms.size <= MAX_INDEXED_ROOMS) return
+
+    Array.from(this.rooms.values())
+      .sort((a, b) => Number(b.isFull) - Number(a.isFull) || a.createdAt - b.createdAt)
+      .slice(0, this.rooms.size - MAX_INDEXED_ROOMS)
+      .forEach((room) => this.rooms.delete(room.roomId))
+  }
+}
+
+/**
+ * Apply the lobby's bet-range filter, sort order and pagination to a list of rooms
+ */
+export function paginateRooms<T extends { betAmount: number; createdAt: number; rules?: GameRule[] }>(
+  rooms: T[],
+  options: RoomListOptions = {},
+): RoomListPage<T> {
+  const page = Math.max(1, Math.floor(options.page || 1))
+  const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(options.pageSize || DEFAULT_PAGE_SIZE)))
+
+  const matching = rooms
+    .filter((room) => options.minBet === undefined || room.betAmount >= options.minBet)
+    .filter((room) => options.maxBet === undefined || room.betAmount <= options.maxBet)
+    .filter((room) => matchesRule(room.rules, options.rule))
+    .sort(compareRooms(options.sort || "newest"))
+
+  const start = (page - 1) * pageSize
+  return {
+    rooms: matching.slice(start, start + pageSize),
+    total: matching.length,
+    page,
+    pageSize,
+    hasMore: start + pageSize < matching.length,
+  }
+}
+
+function matchesRule(rules: GameRule[] | undefined, rule: RoomListOptions["rule"]): boolean {
+  if (!rule) return true
+  if (rule === "classic") return !rules?.length
+  return !!rules?.includes(rule)
+}
+
+function compareRooms(sort: RoomSortOrder) {
+  return (a: { betAmount: number; createdAt: number }, b: { betAmount: number; createdAt: number }) => {
+    switch (sort) {
+      case "oldest":
+        return a.createdAt - b.createdAt
+      case "bet-asc":
+        return a.betAmount - b.betAmount || b.createdAt - a.createdAt
+      case "bet-desc":
+        return b.betAmount - a.betAmount || b.createdAt - a.createdAt
+      default:
+        return b.createdAt - a.createdAt
+    }
+  }
+}
+
+export const roomIndexer = new RoomIndexer()
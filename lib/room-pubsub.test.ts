@@ -0,0 +1,59 @@
+import { describe, expect, it, vi } from "vitest"
+import { InProcessPubSub, MemoryRedisServer, RedisPubSub } from "./room-pubsub"
+
+// MemoryRedisServer delivers messages in a microtask, like a network round trip
+const delivered = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+function createInstance(server: MemoryRedisServer): RedisPubSub {
+  return new RedisPubSub(server.createClient(), server.createClient())
+}
+
+describe("RedisPubSub", () => {
+  it("fans a message out to every instance, including the one that published it", async () => {
+    const server = new MemoryRedisServer()
+    const first = createInstance(server)
+    const second = createInstance(server)
+    const onFirst = vi.fn()
+    const onSecond = vi.fn()
+
+    first.subscribe("room:1", onFirst)
+    second.subscribe("room:1", onSecond)
+    await first.publish("room:1", "hello")
+    await delivered()
+
+    expect(onFirst).toHaveBeenCalledWith("hello")
+    expect(onSecond).toHaveBeenCalledWith("hello")
+  })
+
+  it("keeps channels apart and stops delivering after unsubscribing", async () => {
+    const server = new MemoryRedisServer()
+    const instance = createInstance(server)
+    const onRoom = vi.fn()
+    const onOther = vi.fn()
+
+    const unsubscribe = instance.subscribe("room:1", onRoom)
+    instance.subscribe("room:2", onOther)
+    await instance.publish("room:1", "first")
+    await delivered()
+    unsubscribe()
+    await instance.publish("room:1", "second")
+    await delivered()
+
+    expect(onRoom.mock.calls).toEqual([["first"]])
+    expect(onOther).not.toHaveBeenCalled()
+  })
+})
+
+describe("InProcessPubSub", () => {
+  it("delivers to this process's subscribers until they unsubscribe", async () => {
+    const pubsub = new InProcessPubSub()
+    const handler = vi.fn()
+
+    const unsubscribe = pubsub.subscribe("room:1", handler)
+    await pubsub.publish("room:1", "first")
+    unsubscribe()
+    await pubsub.publish("room:1", "second")
+
+    expect(handler.mock.calls).toEqual([["first"]])
+  })
+})
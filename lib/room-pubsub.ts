@@ -0,0 +1,116 @@
+/**
+ * Room Pub/Sub
+ *
+ * Fan-out for room events between server instances. Each instance only holds its own
+ * SSE and WebSocket clients, so the API routes publish every room event here and
+ * deliver what they receive from it (see app/api/socket). The in-process adapter is
+ * enough for a single server; with REDIS_URL set, events go through Redis channels
+ * and reach every instance. Server-only: the Redis adapter opens TCP connections.
+ */
+
+import { RespRedisClient } from "./redis-client"
+
+export interface RoomPubSub {
+  publish(channel: string, message: string): Promise<void>
+  // Returns a function that ends the subscription
+  subscribe(channel: string, handler: (message: string) => void): () => void
+}
+
+/**
+ * The part of a Redis client the Redis adapter uses. Subscribing takes a connection
+ * over, so publishing needs a second client. Matches node-redis v4 clients as well as
+ * RespRedisClient and MemoryRedisServer clients.
+ */
+export interface RedisPubSubClient {
+  publish(channel: string, message: string): Promise<unknown>
+  subscribe(channel: string, listener: (message: string) => void): Promise<unknown>
+  unsubscribe(channel: string, listener: (message: string) => void): Promise<unknown>
+}
+
+/**
+ * Single-instance adapter: messages go straight to this process's subscribers
+ */
+export class InProcessPubSub implements RoomPubSub {
+  private handlers = new Map<string, Set<(message: string) => void>>()
+
+  async publish(channel: string, message: string): Promise<void> {
+    this.handlers.get(channel)?.forEach((handler) => handler(message))
+  }
+
+  subscribe(channel: string, handler: (message: string) => void): () => void {
+    if (!this.handlers.has(channel)) this.handlers.set(channel, new Set())
+    this.handlers.get(channel)!.add(handler)
+    return () => {
+      this.handlers.get(channel)?.delete(handler)
+    }
+  }
+}
+
+/**
+ * Multi-instance adapter over Redis PUBLISH/SUBSCRIBE. The publishing instance gets
+ * its own messages back through the subscription like every other instance.
+ */
+export class RedisPubSub implements RoomPubSub {
+  constructor(
+    private readonly publisher: RedisPubSubClient,
+    private readonly subscriber: RedisPubSubClient,
+  ) {}
+
+  async publish(channel: string, message: string): Promise<void> {
+    await this.publisher.publish(channel, message)
+  }
+
+  subscribe(channel: string, handler: (message: string) => void): () => void {
+    this.subscriber
+      .subscribe(channel, handler)
+      .catch((error) => console.error(`[PubSub] Failed to subscribe to ${channel}:`, error.message))
+    return () => {
+      this.subscriber
+        .unsubscribe(channel, handler)
+        .catch((error) => console.error(`[PubSub] Failed to unsubscribe from ${channel}:`, error.message))
+    }
+  }
+}
+
+/**
+ * In-memory stand-in for a Redis server, for tests and for trying multi-instance
+ * fan-out locally. Every client it creates shares its channels, and messages are
+ * delivered asynchronously as they would be over the network.
+ */
+export class MemoryRedisServer {
+  private listeners = new Map<string, Set<(message: string) => void>>()
+
+  createClient(): RedisPubSubClient {
+    return {
+      publish: async (channel, message) => {
+        const listeners = Array.from(this.listeners.get(channel) || [])
+        queueMicrotask(() => listeners.forEach((listener) => listener(message)))
+        return listeners.length
+      },
+      subscribe: async (channel, listener) => {
+        if (!this.listeners.has(channel)) this.listeners.set(channel, new Set())
+        this.listeners.get(channel)!.add(listener)
+      },
+      unsubscribe: async (channel, listener) => {
+        this.listeners.get(channel)?.delete(listener)
+      },
+    }
+  }
+}
+
+// Dev reloads evaluate the API routes again; keep one set of Redis connections per process
+const globalForPubSub = globalThis as unknown as { roomPubSub?: RoomPubSub }
+
+/**
+ * The process-wide pub/sub: Redis when REDIS_URL is set, in-process otherwise
+ */
+export function getRoomPubSub(): RoomPubSub {
+  if (globalForPubSub.roomPubSub) return globalForPubSub.roomPubSub
+
+  const url = process.env.REDIS_URL
+  globalForPubSub.roomPubSub = url
+    ? new RedisPubSub(new RespRedisClient(url), new RespRedisClient(url))
+    : new InProcessPubSub()
+  console.log(`[PubSub] Using ${url ? "Redis" : "in-process"} room pub/sub`)
+  return globalForPubSub.roomPubSub
+}
@@ -0,0 +1,52 @@
+/**
+ * Room Sessions
+ *
+ * Proof that a connection speaks for a wallet. A player signs the challenge the server
+ * handed their connection (see createRoomSessionMessage) and gets back a session token
+ * bound to the room and their address. Connections opened with the token are trusted as
+ * that wallet without asking it to sign again. Tokens are HMACs, so every instance that
+ * shares ROOM_SESSION_SECRET accepts them. Server-only: it uses the Node crypto module.
+ */
+
+import crypto from "crypto"
+
+// How long a token is accepted after the wallet signed for it
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000
+
+// Without a configured secret, tokens only work on the instance that issued them
+const globalForSessions = globalThis as unknown as { roomSessionSecret?: string }
+
+function getSessionSecret(): string {
+  if (process.env.ROOM_SESSION_SECRET) return process.env.ROOM_SESSION_SECRET
+
+  if (!globalForSessions.roomSessionSecret) {
+    console.warn("[RoomSession] ROOM_SESSION_SECRET is not set; session tokens only hold on this instance")
+    globalForSessions.roomSessionSecret = crypto.randomBytes(32).toString("hex")
+  }
+  return globalForSessions.roomSessionSecret
+}
+
+function signSession(roomId: string, address: string, expiresAt: number): string {
+  return crypto.createHmac("sha256", getSessionSecret()).update(`${roomId}\n${address}\n${expiresAt}`).digest("hex")
+}
+
+/**
+ * A token for a wallet that proved it holds a connection to the room
+ */
+export function issueRoomSessionToken(roomId: string, address: string, now = Date.now()): string {
+  const expiresAt = now + SESSION_TTL_MS
+  return `${expiresAt}.${signSession(roomId, address, expiresAt)}`
+}
+
+/**
+ * Whether a token was issued for this room and address and has not expired
+ */
+export function verifyRoomSessionToken(token: string, roomId: string, address: string, now = Date.now()): boolean {
+  const [expiry, mac] = token.split(".")
+  const expiresAt = Number(expiry)
+  if (!mac || !Number.isFinite(expiresAt) || expiresAt < now) return false
+
+  const expected = Buffer.from(signSession(roomId, address, expiresAt), "hex")
+  const actual = Buffer.from(mac, "hex")
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected)
+}
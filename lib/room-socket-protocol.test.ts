@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest"
+import { parseRoomClientMessage } from "./room-socket-protocol"
+
+const move = { roomId: "room", seq: 0, position: 4, player: "0xa", signature: "sig" }
+
+describe("parseRoomClientMessage", () => {
+  it("accepts the known message shapes", () => {
+    expect(parseRoomClientMessage(JSON.stringify({ type: "ping", id: "1" }))).toEqual({ type: "ping", id: "1" })
+    expect(parseRoomClientMessage(JSON.stringify({ type: "move", id: "2", move, version: 3 }))).toEqual({
+      type: "move",
+      id: "2",
+      move,
+      version: 3,
+    })
+    expect(
+      parseRoomClientMessage(JSON.stringify({ type: "presence", roomId: "room", address: "0xa", sessionToken: "t" })),
+    ).toEqual({ type: "presence", roomId: "room", address: "0xa", sessionToken: "t" })
+  })
+
+  it("drops fields the protocol doesn't define", () => {
+    expect(parseRoomClientMessage(JSON.stringify({ type: "ping", id: "1", extra: true }))).toEqual({
+      type: "ping",
+      id: "1",
+    })
+  })
+
+  it("rejects anything else", () => {
+    expect(parseRoomClientMessage("not json")).toBeNull()
+    expect(parseRoomClientMessage("null")).toBeNull()
+    expect(parseRoomClientMessage(JSON.stringify([{ type: "ping", id: "1" }]))).toBeNull()
+    expect(parseRoomClientMessage(JSON.stringify({ type: "presence", roomId: "room", address: 7 }))).toBeNull()
+    expect(parseRoomClientMessage(JSON.stringify({ type: "move", id: "2", move }))).toBeNull()
+    expect(parseRoomClientMessage(JSON.stringify({ type: "move", id: "2", move: { ...move, mark: "Z" }, version: 0 }))).toBeNull()
+    expect(parseRoomClientMessage(JSON.stringify({ type: "chat", id: "3" }))).toBeNull()
+  })
+})
@@ -0,0 +1,81 @@
+/**
+ * Room Socket Protocol
+ *
+ * Messages exchanged over the room WebSocket (see room-socket-server.ts and
+ * hooks/use-websocket-room.ts). Every message is one JSON object with a `type`.
+ *
+ * Client to server:
+ * - presence: join a room's channel, as one of its players when an address comes with
+ *   a session token for it (see lib/room-session.ts), otherwise as a spectator
+ * - move: submit a wallet-signed move, with the room version it was made against,
+ *   answered by an ack or an error with the same id
+ * - ping: keep the connection alive, answered by an ack
+ *
+ * Server to client:
+ * - state: the canonical room and who is present, on join and after every change
+ * - error: a rejected message, or a problem with the connection
+ * - ack: a message with this id was accepted
+ */
+
+import type { SignedMove } from "@/types/game"
+import type { Room } from "./room"
+
+export type RoomClientMessage =
+  | { type: "presence"; roomId: string; address?: string; sessionToken?: string }
+  | { type: "move"; id: string; move: SignedMove; version: number }
+  | { type: "ping"; id: string }
+
+export type RoomServerMessage =
+  | { type: "state"; roomId: string; room: Room | null; presence: string[] }
+  | { type: "error"; id?: string; error: string; status?: number; room?: Room }
+  | { type: "ack"; id: string; room?: Room }
+
+/**
+ * Parse a message from a client, or null when it is not one of the known shapes
+ */
+export function parseRoomClientMessage(data: string): RoomClientMessage | null {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(data)
+  } catch {
+    return null
+  }
+  if (!isRecord(parsed)) return null
+
+  switch (parsed.type) {
+    case "presence": {
+      const { roomId, address, sessionToken } = parsed
+      if (typeof roomId !== "string" || !isOptionalString(address) || !isOptionalString(sessionToken)) return null
+      return { type: "presence", roomId, address, sessionToken }
+    }
+    case "move": {
+      const { id, move, version } = parsed
+      if (typeof id !== "string" || typeof version !== "number" || !isSignedMove(move)) return null
+      return { type: "move", id, move, version }
+    }
+    case "ping":
+      return typeof parsed.id === "string" ? { type: "ping", id: parsed.id } : null
+    default:
+      return null
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+function isOptionalString(value: unknown): value is string | undefined {
+  return value === undefined || typeof value === "string"
+}
+
+function isSignedMove(value: unknown): value is SignedMove {
+  return (
+    isRecord(value) &&
+    typeof value.roomId === "string" &&
+    typeof value.seq === "number" &&
+    typeof value.position === "number" &&
+    typeof value.player === "string" &&
+    typeof value.signature === "string" &&
+    (value.mark === undefined || value.mark === "X" || value.mark === "O")
+  )
+}
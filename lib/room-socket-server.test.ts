@@ -0,0 +1,42 @@
+import { EventEmitter } from "events"
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import type { WebSocket, WebSocketServer } from "ws"
+import { RoomSocketServer } from "./room-socket-server"
+
+// The server shares the room engine with the API routes; only the calls it makes are faked here
+const { getRoom, getOrLoadRoom } = vi.hoisted(() => ({ getRoom: vi.fn(), getOrLoadRoom: vi.fn() }))
+
+vi.mock("./room-engine", () => ({
+  roomEngine: { getRoom, getOrLoadRoom, makeMove: vi.fn() },
+  RoomEngineError: class extends Error {},
+}))
+
+function connect() {
+  const server = new EventEmitter()
+  new RoomSocketServer(server as unknown as WebSocketServer, vi.fn())
+
+  const socket = Object.assign(new EventEmitter(), { OPEN: 1, readyState: 1, send: vi.fn() })
+  server.emit("connection", socket as unknown as WebSocket)
+  return socket
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  vi.spyOn(console, "error").mockImplementation(() => {})
+})
+
+describe("RoomSocketServer", () => {
+  it("answers a message it failed to handle with an error instead of rejecting", async () => {
+    getOrLoadRoom.mockRejectedValue(new Error("store unavailable"))
+    const socket = connect()
+
+    socket.emit("message", Buffer.from(JSON.stringify({ type: "presence", roomId: "room" })))
+    await vi.waitFor(() => expect(socket.send).toHaveBeenCalled())
+
+    expect(JSON.parse(socket.send.mock.calls[0][0])).toEqual({
+      type: "error",
+      error: "Failed to handle message",
+      status: 500,
+    })
+  })
+})
@@ -0,0 +1,163 @@
+/**
+ * Room Socket Server
+ *
+ * WebSocket transport for rooms, next to the SSE endpoint in app/api/socket. Next.js
+ * route handlers cannot upgrade connections, so the server listens on its own port
+ * (ROOM_WS_PORT) inside the same process and shares the room engine with the API
+ * routes. Clients fall back to SSE and HTTP when it is not configured or unreachable.
+ *
+ * Presence is tracked per room from open sockets: a player is present while at least
+ * one of their connections has announced itself in the room with a session token for
+ * their address, which only a wallet that signed in to the room gets (lib/room-session.ts).
+ * Server-only: it uses the ws package.
+ */
+
+import { WebSocketServer, type WebSocket } from "ws"
+import type { Room } from "./room"
+import { roomEngine, RoomEngineError } from "./room-engine"
+import { verifyRoomSessionToken } from "./room-session"
+import { parseRoomClientMessage, type RoomServerMessage } from "./room-socket-protocol"
+
+interface RoomSocket {
+  socket: WebSocket
+  roomId?: string
+  address?: string // Only set once the socket proved it speaks for this wallet
+}
+
+export class RoomSocketServer {
+  private sockets = new Set<RoomSocket>()
+
+  /**
+   * onRoomChanged is called with every room a socket message changed, so the caller
+   * can fan it out to every transport (including this one, via broadcastState)
+   */
+  constructor(
+    private readonly server: WebSocketServer,
+    private readonly onRoomChanged: (room: Room) => void,
+  ) {
+    server.on("connection", (socket) => this.handleConnection(socket))
+  }
+
+  /**
+   * Players with at least one open socket in the room
+   */
+  getPresence(roomId: string): string[] {
+    const players = roomEngine.getRoom(roomId)?.players || []
+    const present = new Set<string>()
+    this.sockets.forEach(({ roomId: socketRoom, address }) => {
+      if (socketRoom === roomId && address && players.includes(address)) present.add(address)
+    })
+    return Array.from(present)
+  }
+
+  /**
+   * Push the room's state to every socket in it
+   */
+  broadcastState(roomId: string, room: Room | null = roomEngine.getRoom(roomId) || null): void {
+    const message: RoomServerMessage = { type: "state", roomId, room, presence: this.getPresence(roomId) }
+    this.sockets.forEach((client) => {
+      if (client.roomId === roomId) this.send(client, message)
+    })
+  }
+
+  private handleConnection(socket: WebSocket): void {
+    const client: RoomSocket = { socket }
+    this.sockets.add(client)
+
+    socket.on("message", (data) => {
+      // A failure here would otherwise surface as an unhandled rejection and can take the process down
+      this.handleMessage(client, data.toString()).catch((error) => {
+        console.error("[RoomSocket] Failed to handle message:", error)
+        this.send(client, { type: "error", error: "Failed to handle message", status: 500 })
+      })
+    })
+    socket.on("close", () => {
+      this.sockets.delete(client)
+      if (client.roomId) this.broadcastState(client.roomId)
+    })
+    socket.on("error", (error) => console.warn("[RoomSocket] Socket error:", error.message))
+  }
+
+  private async handleMessage(client: RoomSocket, data: string): Promise<void> {
+    const message = parseRoomClientMessage(data)
+    if (!message) {
+      this.send(client, { type: "error", error: "Malformed message" })
+      return
+    }
+
+    switch (message.type) {
+      case "presence": {
+        const { roomId, address, sessionToken } = message
+        const proven = !!address && !!sessionToken && verifyRoomSessionToken(sessionToken, roomId, address)
+        if (address && !proven) {
+          console.log(`[RoomSocket] ${address} has no session for room ${roomId}, joining as a spectator`)
+        }
+
+        const previousRoom = client.roomId
+        client.roomId = roomId
+        client.address = proven ? address : undefined
+
+        if (previousRoom && previousRoom !== roomId) this.broadcastState(previousRoom)
+        const room = (await roomEngine.getOrLoadRoom(roomId)) || null
+        this.broadcastState(roomId, room)
+        break
+      }
+
+      case "move":
+        try {
+          const room = await roomEngine.makeMove(message.move, message.version)
+          this.send(client, { type: "ack", id: message.id, room })
+          this.onRoomChanged(room)
+        } catch (error) {
+          if (error instanceof RoomEngineError) {
+            console.log(`[RoomSocket] Rejected move in room ${message.move.roomId}: ${error.message}`)
+            this.send(client, {
+              type: "error",
+              id: message.id,
+              error: error.message,
+              status: error.status,
+              room: roomEngine.getRoom(message.move.roomId),
+            })
+          } else {
+            console.error(`[RoomSocket] Failed to process move in room ${message.move.roomId}:`, error)
+            this.send(client, { type: "error", id: message.id, error: "Failed to process move", status: 500 })
+          }
+        }
+        break
+
+      case "ping":
+        this.send(client, { type: "ack", id: message.id })
+        break
+    }
+  }
+
+  private send(client: RoomSocket, message: RoomServerMessage): void {
+    if (client.socket.readyState === client.socket.OPEN) {
+      client.socket.send(JSON.stringify(message))
+    }
+  }
+}
+
+// Dev reloads evaluate the API routes again; keep a single server bound to the port
+const globalForRoomSocket = globalThis as unknown as { roomSocketServer?: RoomSocketServer | null }
+
+/**
+ * Start the room WebSocket server on ROOM_WS_PORT, once per process. Returns null
+ * when no port is configured, e.g. on serverless hosts where only SSE works.
+ */
+export function startRoomSocketServer(onRoomChanged: (room: Room) => void): RoomSocketServer | null {
+  if (globalForRoomSocket.roomSocketServer !== undefined) return globalForRoomSocket.roomSocketServer
+
+  const port = Number(process.env.ROOM_WS_PORT)
+  if (!port) {
+    globalForRoomSocket.roomSocketServer = null
+    return null
+  }
+
+  const server = new WebSocketServer({ port })
+  server.on("listening", () => console.log(`[RoomSocket] Listening on port ${port}`))
+  server.on("error", (error) => console.error("[RoomSocket] Server error:", error.message))
+
+  globalForRoomSocket.roomSocketServer = new RoomSocketServer(server, onRoomChanged)
+  return globalForRoomSocket.roomSocketServer
+}
@@ -0,0 +1,72 @@
+/**
+ * Room Store
+ *
+ * Persistence for room state behind one key/value interface. Managers read and
+ * write whole collections (e.g. every Room keyed by room ID) under a storage
+ * key, and the adapter decides where they live: localStorage in the browser, a
+ * JSON file on the server (see file-room-store.ts) or memory for tests.
+ */
+
+// Storage keys used by the room managers
+export const ROOM_STORE_KEYS = {
+  simpleRooms: "simple-game-rooms",
+  gameRooms: "game-rooms",
+  globalRooms: "global-game-rooms",
+  networkSync: "network-room-sync",
+  legacySharedRooms: "shared-game-rooms",
+  engineRooms: "room-engine-rooms",
+  archivedRooms: "room-engine-archive",
+  outboundQueue: "room-outbound-queue",
+  roomSessions: "room-sessions",
+} as const
+
+export interface RoomStore {
+  read<T>(key: string): T | null
+  write<T>(key: string, value: T): void
+  remove(key: string): void
+}
+
+/**
+ * Browser adapter. Does nothing during server-side rendering, where there is no localStorage.
+ */
+export class LocalStorageRoomStore implements RoomStore {
+  read<T>(key: string): T | null {
+    if (typeof window === "undefined") return null
+
+    const stored = localStorage.getItem(key)
+    return stored ? (JSON.parse(stored) as T) : null
+  }
+
+  write<T>(key: string, value: T): void {
+    if (typeof window === "undefined") return
+    localStorage.setItem(key, JSON.stringify(value))
+  }
+
+  remove(key: string): void {
+    if (typeof window === "undefined") return
+    localStorage.removeItem(key)
+  }
+}
+
+/**
+ * In-memory adapter for tests and short-lived processes. Values are copied through
+ * JSON so callers cannot mutate stored state by reference.
+ */
+export class MemoryRoomStore implements RoomStore {
+  private data = new Map<string, string>()
+
+  read<T>(key: string): T | null {
+    const stored = this.data.get(key)
+    return stored ? (JSON.parse(stored) as T) : null
+  }
+
+  write<T>(key: string, value: T): void {
+    this.data.set(key, JSON.stringify(value))
+  }
+
+  remove(key: string): void {
+    this.data.delete(key)
+  }
+}
+
+export const browserRoomStore: RoomStore = new LocalStorageRoomStore()
@@ -0,0 +1,191 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { BOARD_VARIANTS } from "./game-logic"
+import {
+  applyMove,
+  applyResignation,
+  applyTimeout,
+  canTransition,
+  checkMove,
+  createRoom,
+  getRoomSettings,
+  getXPlayer,
+  isStaleRoom,
+  RoomMoveError,
+  RoomTransitionError,
+  TIME_CONTROLS,
+  transitionRoom,
+} from "./room"
+import type { Room } from "./room"
+
+const ALICE = "0xa"
+const BOB = "0xb"
+const NOW = 1_000_000
+
+// Rooms start their clocks at the current time
+beforeEach(() => {
+  vi.useFakeTimers()
+  vi.setSystemTime(NOW)
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+function readyRoom(options: Parameters<typeof createRoom>[3] = {}): Room {
+  return createRoom("room", 1, [ALICE, BOB], { createdAt: NOW, ...options })
+}
+
+// Alternate moves between the players, starting with whoever's turn it is
+function playMoves(room: Room, positions: number[], now = NOW): Room {
+  positions.forEach((position) => applyMove(room, position, room.currentPlayer, undefined, now))
+  return room
+}
+
+describe("createRoom", () => {
+  it("waits for an opponent with one player and is ready with two", () => {
+    expect(createRoom("room", 1, [ALICE]).gameState).toBe("waiting")
+
+    const ready = readyRoom()
+    expect(ready.gameState).toBe("ready")
+    expect(ready.currentPlayer).toBe(ALICE)
+  })
+
+  it("starts the clock once both players are in", () => {
+    expect(createRoom("room", 1, [ALICE]).clock?.turnStartedAt).toBeUndefined()
+    expect(readyRoom().clock?.remainingMs[BOB]).toBe(TIME_CONTROLS.standard.gameTimeMs)
+  })
+
+  it("starts at version 0", () => {
+    expect(readyRoom().version).toBe(0)
+  })
+
+  it("sizes the board for the variant", () => {
+    expect(readyRoom({ variant: BOARD_VARIANTS["5x5"] }).board).toHaveLength(25)
+  })
+
+  it("sizes an ultimate board as nine classic boards", () => {
+    expect(readyRoom({ gameType: "ultimate" }).board).toHaveLength(81)
+  })
+
+  it("reports the settings it was created with", () => {
+    const room = readyRoom({ timeControl: TIME_CONTROLS.blitz, bestOf: 3, rules: ["misere"] })
+    expect(getRoomSettings(room)).toEqual({
+      timeControl: TIME_CONTROLS.blitz,
+      bestOf: 3,
+      variant: BOARD_VARIANTS.classic,
+      rules: ["misere"],
+    })
+  })
+})
+
+describe("room state machine", () => {
+  it("allows only the documented transitions", () => {
+    expect(canTransition("waiting", "ready")).toBe(true)
+    expect(canTransition("finished", "settled")).toBe(true)
+    expect(canTransition("settled", "playing")).toBe(false)
+    expect(() => transitionRoom(createRoom("room", 1, [ALICE]), "finished")).toThrow(RoomTransitionError)
+  })
+
+  it("gives the first turn to the player drawn under the random-first-player rule", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.9)
+    const room = createRoom("room", 1, [ALICE], { rules: ["random-first-player"] })
+    room.players.push(BOB)
+
+    transitionRoom(room, "ready")
+    expect(room.firstPlayer).toBe(BOB)
+    expect(room.currentPlayer).toBe(BOB)
+    expect(getXPlayer(room)).toBe(BOB)
+    vi.mocked(Math.random).mockRestore()
+  })
+
+  it("starts playing on the first move and finishes on a line", () => {
+    const room = readyRoom()
+    playMoves(room, [0])
+    expect(room.gameState).toBe("playing")
+
+    playMoves(room, [3, 1, 4, 2])
+    expect(room.gameState).toBe("finished")
+    expect(room.winner).toBe(ALICE)
+  })
+
+  it("finishes a drawn game without a winner", () => {
+    const room = playMoves(readyRoom(), [0, 1, 2, 4, 3, 5, 7, 6, 8])
+    expect(room.gameState).toBe("finished")
+    expect(room.winner).toBeUndefined()
+  })
+
+  it("starts the next game of a series with the players swapped", () => {
+    const room = playMoves(readyRoom({ bestOf: 3 }), [0, 3, 1, 4, 2])
+    expect(room.gameState).toBe("ready")
+    expect(room.games).toHaveLength(1)
+    expect(getXPlayer(room)).toBe(BOB)
+    expect(room.currentPlayer).toBe(BOB)
+  })
+})
+
+describe("checkMove and applyMove", () => {
+  it("explains why a move is refused", () => {
+    const room = readyRoom()
+    expect(checkMove(room, 0, "0xc")?.reason).toBe("not-a-player")
+    expect(checkMove(room, 0, BOB)?.reason).toBe("not-your-turn")
+    expect(checkMove(room, 9, ALICE)?.reason).toBe("invalid-position")
+    expect(checkMove(room, 0, ALICE, "O")?.reason).toBe("invalid-mark")
+
+    playMoves(room, [0])
+    expect(checkMove(room, 0, BOB)?.reason).toBe("occupied")
+    expect(checkMove(createRoom("room", 1, [ALICE]), 0, ALICE)?.reason).toBe("not-in-progress")
+  })
+
+  it("throws the refusal instead of applying the move", () => {
+    const room = readyRoom()
+    expect(() => applyMove(room, 0, BOB)).toThrow(RoomMoveError)
+    expect(room.board.every((cell) => cell === null)).toBe(true)
+  })
+
+  it("charges the mover's clock for the time they took", () => {
+    const room = readyRoom()
+    applyMove(room, 0, ALICE, undefined, NOW + 5000)
+    expect(room.clock?.remainingMs[ALICE]).toBe(TIME_CONTROLS.standard.gameTimeMs - 5000)
+    expect(room.clock?.turnStartedAt).toBe(NOW + 5000)
+  })
+})
+
+describe("forfeits", () => {
+  it("forfeits the series for a player out of move time", () => {
+    const room = readyRoom({ bestOf: 3 })
+    expect(applyTimeout(room, NOW + 1000)).toBe(false)
+    expect(applyTimeout(room, NOW + TIME_CONTROLS.standard.moveTimeMs)).toBe(true)
+    expect(room.gameState).toBe("finished")
+    expect(room.winner).toBe(BOB)
+    expect(room.forfeit).toEqual({ player: ALICE, reason: "move-timeout" })
+  })
+
+  it("gives the win to the opponent of a player who resigns", () => {
+    const room = applyResignation(playMoves(readyRoom(), [0]), ALICE, NOW)
+    expect(room.winner).toBe(BOB)
+    expect(room.forfeit?.reason).toBe("resign")
+    expect(() => applyResignation(room, BOB)).toThrow(RoomMoveError)
+  })
+
+  // A forfeit isn't scored as one game; it ends the match, even for the player ahead
+  it("loses the whole series for a player who forfeits while leading", () => {
+    const room = playMoves(readyRoom({ bestOf: 3 }), [0, 3, 1, 4, 2])
+    expect(room.games?.[0].winner).toBe(ALICE)
+
+    applyResignation(room, ALICE, NOW)
+    expect(room.gameState).toBe("finished")
+    expect(room.winner).toBe(BOB)
+    expect(room.games?.map((game) => game.winner)).toEqual([ALICE, BOB])
+    expect(room.games?.[1].forfeit).toEqual({ player: ALICE, reason: "resign" })
+  })
+})
+
+describe("isStaleRoom", () => {
+  it("compares versions of the same room only", () => {
+    const current = { ...readyRoom(), version: 3 }
+    expect(isStaleRoom({ ...current, version: 2 }, current)).toBe(true)
+    expect(isStaleRoom({ ...current, version: 3 }, current)).toBe(false)
+    expect(isStaleRoom({ ...current, roomId: "other", version: 0 }, current)).toBe(false)
+    expect(isStaleRoom(current, null)).toBe(false)
+  })
+})
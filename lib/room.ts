@@ -0,0 +1,660 @@
+/**
+ * Room Domain Model
+ *
+ * The single room shape shared by the server engine, the client managers, the
+ * rooms API and every page, together with its state machine:
+ *
+ *   waiting → ready → playing → finished → settled
+ *      ↘ cancelled
+ *
+ * - waiting:  created on chain, only the creator's stake is escrowed
+ * - ready:    the second player joined on chain, no move made yet; the clock starts
+ * - playing:  at least one move was made
+ * - finished: won, drawn, resigned or forfeited on time, payout not yet confirmed on chain
+ * - settled:  the prize or refund transaction was confirmed
+ * - cancelled: the creator cancelled before anyone joined and got their stake back
+ *
+ * A match room plays a best-of-N series inside one escrow: when a game ends and the
+ * series is still open the room goes back to ready with a fresh board and the players
+ * swap X and O. It only finishes, and settles once, when the series is decided.
+ *
+ * Rule variants (misère, wild, random first player) are fixed when the room is created.
+ * With random-first-player the X player of the first game is drawn when the room becomes ready.
+ *
+ * Older shapes (GameRoom from game-state.ts, Room from types/game.ts) are converted
+ * with the adapters at the bottom of this file.
+ */
+
+import type {
+  BoardVariant,
+  GameProof,
+  GameRule,
+  GameState,
+  GameType,
+  Player,
+  Room as LegacyRoom,
+  SignedMove,
+  UltimateGameState,
+} from "@/types/game"
+import type { GameRoom } from "./game-state"
+import {
+  CLASSIC_BOARD,
+  createInitialUltimateState,
+  decideSeries,
+  findBoardVariant,
+  findGameRules,
+  getUltimateMoveError,
+  hasRule,
+  makeMove,
+  makeUltimateMove,
+} from "./game-logic"
+
+export type RoomStatus = "waiting" | "ready" | "playing" | "finished" | "settled" | "cancelled"
+
+export interface RoomOutcome {
+  result: "win" | "draw"
+  winner: string | null
+  payout: "prize" | "refund" // Winner takes both stakes, a draw returns each stake
+  transactionDigest?: string
+  settledAt: number
+}
+
+export type SettlementStatus = "pending" | "submitted" | "confirmed" | "failed"
+
+export interface Settlement {
+  status: SettlementStatus
+  submitter?: string // The one player allowed to submit the settlement transaction
+  transactionDigest?: string
+  attempts: number
+  error?: string
+  updatedAt: number
+}
+
+export interface TimeControl {
+  moveTimeMs: number // Time allowed for a single move
+  gameTimeMs: number // Total time each player has for the whole game
+}
+
+export type TimeControlName = "blitz" | "standard" | "relaxed"
+
+export const TIME_CONTROLS: Record<TimeControlName, TimeControl> = {
+  blitz: { moveTimeMs: 15000, gameTimeMs: 120000 },
+  standard: { moveTimeMs: 30000, gameTimeMs: 300000 },
+  relaxed: { moveTimeMs: 60000, gameTimeMs: 600000 },
+}
+
+/**
+ * The preset matching a requested time control, or the standard one
+ */
+export function findTimeControl(requested?: Partial<TimeControl>): TimeControl {
+  const match = Object.values(TIME_CONTROLS).find(
+    (control) => control.moveTimeMs === requested?.moveTimeMs && control.gameTimeMs === requested?.gameTimeMs,
+  )
+  return match || TIME_CONTROLS.standard
+}
+
+export interface RoomClock extends TimeControl {
+  remainingMs: Record<string, number> // Total time left per player address
+  turnStartedAt?: number // When the current player's turn started; unset while the clock is stopped
+}
+
+export interface Forfeit {
+  player: string // The player who lost without the board deciding: out of time or resigned
+  reason: "move-timeout" | "game-timeout" | "resign"
+}
+
+export const SERIES_LENGTHS = [1, 3, 5, 7] as const
+
+export type SeriesLength = (typeof SERIES_LENGTHS)[number]
+
+/**
+ * The supported series length matching a requested one, or a single game
+ */
+export function findSeriesLength(requested?: number): SeriesLength {
+  return SERIES_LENGTHS.find((length) => length === requested) || 1
+}
+
+export interface SeriesGame {
+  board: (string | null)[] // Final board of the game
+  xPlayer: string // Who played X in this game
+  winner: string | null // null for a drawn game
+  moves: number // Moves this game took in the room's moveLog
+  forfeit?: Forfeit // Set when the game, and with it the series, was lost on time or by resignation
+}
+
+export interface Room {
+  roomId: string // The Room object ID on chain
+  betAmount: number
+  creator: string
+  players: string[] // Player addresses, players[0] plays X and players[1] plays O
+  currentPlayer: string
+  board: (string | null)[] // Cells row by row, variant.width per row
+  variant?: BoardVariant // Board size and marks in a row to win; rooms created before variants are classic 3x3
+  gameType?: GameType // Classic TicTacToe when unset
+  subBoardWinners?: (Player | "draw")[] // Ultimate only: result of each sub-board
+  activeSubBoard?: number | null // Ultimate only: the sub-board the current player must play in
+  rules?: GameRule[] // Rule variants; classic rules when unset or empty
+  firstPlayer?: string // Who plays X in the first game; players[0] when unset
+  gameState: RoomStatus
+  winner?: string
+  moveLog: SignedMove[] // Append-only log of wallet-signed moves
+  winnerProof?: GameProof // Oracle-signed proof of the result, for auditing payouts
+  history?: RoomOutcome[] // Settled outcomes recorded for this room
+  settlement?: Settlement // On-chain settlement progress, coordinated by the server
+  clock?: RoomClock // Rooms created before turn timers have no clock
+  forfeit?: Forfeit // Set when the game was lost on time or by resignation
+  bestOf?: SeriesLength // Games in the match series; rooms created before series have a single game
+  games?: SeriesGame[] // Games finished so far, in order
+  version?: number // Bumped by the server on every change; rooms created before versions count from 0
+  settingsSignature?: string // The creator's wallet signature over the room's settings (see move-signing)
+  createdAt: number
+  closedAt?: number // When the room was settled or cancelled
+}
+
+// A game in progress as listed for spectators
+export interface LiveRoom extends Pick<Room, "roomId" | "players" | "betAmount" | "bestOf" | "variant" | "gameType" | "rules" | "createdAt"> {
+  spectatorCount: number
+}
+
+export interface RoomOptions {
+  createdAt?: number
+  timeControl?: TimeControl
+  bestOf?: SeriesLength
+  variant?: BoardVariant
+  gameType?: GameType
+  rules?: GameRule[]
+}
+
+// What the creator picks when opening a room. The server only takes settings from an
+// announcement the creator signed; unsigned rooms get the defaults.
+export type RoomSettings = Pick<RoomOptions, "timeControl" | "bestOf" | "variant" | "gameType" | "rules">
+
+/**
+ * The settings a room was created with, as the creator signs them
+ */
+export function getRoomSettings(room: Room): RoomSettings {
+  return {
+    timeControl: findTimeControl(room.clock),
+    bestOf: findSeriesLength(room.bestOf),
+    // Ultimate is always played on its 9x9 grid, so only classic games have a variant
+    ...(room.gameType === "ultimate" ? { gameType: "ultimate" } : { variant: findBoardVariant(room.variant) }),
+    rules: findGameRules(room.rules, room.gameType),
+  }
+}
+
+const ROOM_TRANSITIONS: Record<RoomStatus, RoomStatus[]> = {
+  waiting: ["ready", "cancelled"],
+  ready: ["playing", "finished"], // A player can forfeit before the first move
+  playing: ["ready", "finished"], // Back to ready when the next game of a series starts
+  finished: ["settled"],
+  settled: [],
+  cancelled: [],
+}
+
+export type MoveRejection =
+  | "not-a-player"
+  | "not-in-progress"
+  | "not-your-turn"
+  | "invalid-position"
+  | "occupied"
+  | "wrong-sub-board"
+  | "invalid-mark"
+
+export class RoomTransitionError extends Error {
+  constructor(readonly from: RoomStatus, readonly to: RoomStatus) {
+    super(`Invalid room transition: ${from} → ${to}`)
+    this.name = "RoomTransitionError"
+  }
+}
+
+export class RoomMoveError extends Error {
+  constructor(message: string, readonly reason: MoveRejection) {
+    super(message)
+    this.name = "RoomMoveError"
+  }
+}
+
+/**
+ * A new room for the players escrowed on chain: waiting with one player, ready with two
+ */
+export function createRoom(roomId: string, betAmount: number, players: string[], options: RoomOptions = {}): Room {
+  const { createdAt = Date.now(), timeControl = TIME_CONTROLS.standard, bestOf = 1, variant = CLASSIC_BOARD } = options
+  const room: Room = {
+    roomId,
+    betAmount,
+    creator: players[0],
+    players,
+    currentPlayer: players[0], // First player (creator) starts
+    board: Array(variant.width * variant.height).fill(null),
+    variant,
+    rules: findGameRules(options.rules, options.gameType),
+    gameState: players.length === 2 ? "ready" : "waiting",
+    moveLog: [],
+    clock: { ...timeControl, remainingMs: {} },
+    bestOf,
+    games: [],
+    version: 0,
+    createdAt,
+  }
+
+  if (options.gameType === "ultimate") resetUltimateBoard(room)
+  if (room.gameState === "ready") {
+    assignFirstPlayer(room)
+    startClock(room)
+  }
+  return room
+}
+
+/**
+ * Whether a copy of a room is older than the one already held, so it must not replace it
+ */
+export function isStaleRoom(incoming: Room, current: Room | null | undefined): boolean {
+  if (!current || current.roomId !== incoming.roomId) return false
+  return (incoming.version || 0) < (current.version || 0)
+}
+
+export function isUltimateRoom(room: Room): boolean {
+  return room.gameType === "ultimate"
+}
+
+function resetUltimateBoard(room: Room): void {
+  const initial = createInitialUltimateState()
+  room.gameType = "ultimate"
+  room.variant = undefined
+  room.board = initial.board
+  room.subBoardWinners = initial.subBoardWinners
+  room.activeSubBoard = initial.activeSubBoard
+}
+
+export function canTransition(from: RoomStatus, to: RoomStatus): boolean {
+  return ROOM_TRANSITIONS[from].includes(to)
+}
+
+/**
+ * Move the room to the next state, throwing RoomTransitionError for anything the state machine does not allow
+ */
+export function transitionRoom(room: Room, to: RoomStatus): Room {
+  if (!canTransition(room.gameState, to)) {
+    throw new RoomTransitionError(room.gameState, to)
+  }
+  room.gameState = to
+
+  // The first player is settled and the clock runs from the moment both stakes are in until the game ends
+  if (to === "ready" && !room.firstPlayer) assignFirstPlayer(room)
+  if (to === "ready") startClock(room)
+  if (to === "finished" && room.clock) room.clock.turnStartedAt = undefined
+  if (to === "settled" || to === "cancelled") room.closedAt = Date.now()
+  return room
+}
+
+export function isRoomOpen(room: Room): boolean {
+  return room.gameState === "waiting"
+}
+
+export function isRoomInProgress(room: Room): boolean {
+  return room.gameState === "ready" || room.gameState === "playing"
+}
+
+export function isRoomOver(room: Room): boolean {
+  return room.gameState === "finished" || room.gameState === "settled"
+}
+
+export function isRoomClosed(room: Room): boolean {
+  return room.gameState === "settled" || room.gameState === "cancelled"
+}
+
+/**
+ * Who plays X in the current game (or the last one once the room is over).
+ * The creator plays X in the first game and the players swap after every game.
+ */
+export function getXPlayer(room: Room): string {
+  const gamesPlayed = room.games?.length || 0
+  const gameIndex = isRoomOver(room) ? Math.max(0, gamesPlayed - 1) : gamesPlayed
+  const firstIndex = Math.max(0, room.players.indexOf(room.firstPlayer || room.players[0]))
+  return room.players[(firstIndex + gameIndex) % 2] || room.players[0]
+}
+
+/**
+ * Decide who opens the match: the creator, or a random player under the random-first-player rule
+ */
+function assignFirstPlayer(room: Room): void {
+  room.firstPlayer = hasRule(room.rules, "random-first-player")
+    ? room.players[Math.floor(Math.random() * room.players.length)]
+    : room.players[0]
+  room.currentPlayer = room.firstPlayer
+}
+
+export function getPlayerSymbol(room: Room, player: string): "X" | "O" | null {
+  if (!room.players.includes(player)) return null
+  return getXPlayer(room) === player ? "X" : "O"
+}
+
+/**
+ * Games won by each player in the series so far
+ */
+export function getSeriesScore(room: Room): Record<string, number> {
+  return Object.fromEntries(
+    room.players.map((player) => [player, (room.games || []).filter((game) => game.winner === player).length]),
+  )
+}
+
+/**
+ * The room's moveLog split into one slice per game, in order. The game in progress,
+ * if any moves were made in it yet, comes last.
+ */
+export function getGameMoveLogs(room: Room): SignedMove[][] {
+  const logs: SignedMove[][] = []
+  let start = 0
+  for (const game of room.games || []) {
+    logs.push(room.moveLog.slice(start, start + game.moves))
+    start += game.moves
+  }
+
+  if (start < room.moveLog.length) logs.push(room.moveLog.slice(start))
+  return logs
+}
+
+/**
+ * Check whether a player may place a mark at a position, returning why not if they can't
+ */
+export function checkMove(room: Room, position: number, player: string, mark?: Player): RoomMoveError | null {
+  if (!room.players.includes(player)) {
+    return new RoomMoveError("Player is not part of this room", "not-a-player")
+  }
+
+  if (!isRoomInProgress(room)) {
+    return new RoomMoveError(`Game is not in playing state (${room.gameState})`, "not-in-progress")
+  }
+
+  if (room.currentPlayer !== player) {
+    return new RoomMoveError("Not your turn", "not-your-turn")
+  }
+
+  if (!Number.isInteger(position) || position < 0 || position >= room.board.length) {
+    return new RoomMoveError(`Invalid position: ${position}`, "invalid-position")
+  }
+
+  if (room.board[position] !== null) {
+    return new RoomMoveError(`Position ${position} already occupied`, "occupied")
+  }
+
+  if (isUltimateRoom(room)) {
+    const error = getUltimateMoveError(toUltimateGameState(room), position)
+    if (error) return new RoomMoveError(error, "wrong-sub-board")
+  }
+
+  if (mark && mark !== getPlayerSymbol(room, player) && !hasRule(room.rules, "wild")) {
+    return new RoomMoveError(`Only wild games let a player place ${mark}`, "invalid-mark")
+  }
+
+  if (mark && mark !== "X" && mark !== "O") {
+    return new RoomMoveError(`Invalid mark: ${mark}`, "invalid-mark")
+  }
+
+  return null
+}
+
+/**
+ * Place the player's mark, pass the turn and finish the game on a win or a full board.
+ * Throws RoomMoveError when the move is not allowed.
+ */
+export function applyMove(room: Room, position: number, player: string, mark?: Player, now = Date.now()): Room {
+  const rejection = checkMove(room, position, player, mark)
+  if (rejection) throw rejection
+
+  if (room.gameState === "ready") transitionRoom(room, "playing")
+
+  const { winner, gameOver } = placeMark(room, position, getPlayerSymbol(room, player), mark)
+  room.currentPlayer = room.players.find((p) => p !== player) || player
+
+  if (room.clock?.turnStartedAt) {
+    room.clock.remainingMs[player] -= now - room.clock.turnStartedAt
+    room.clock.turnStartedAt = now
+  }
+
+  if (gameOver) {
+    const xPlayer = getXPlayer(room)
+    const winnerAddress = winner === "X" ? xPlayer : winner === "O" ? room.players.find((p) => p !== xPlayer)! : null
+    endGame(room, winnerAddress, now)
+  }
+
+  return room
+}
+
+/**
+ * Put a mark on the board under the room's game rules and report whether that decided the game
+ */
+function placeMark(room: Room, position: number, symbol: Player, mark?: Player): { winner: Player; gameOver: boolean } {
+  if (isUltimateRoom(room)) {
+    const next = makeUltimateMove({ ...toUltimateGameState(room), currentPlayer: symbol }, position)
+    room.board = next.board
+    room.subBoardWinners = next.subBoardWinners
+    room.activeSubBoard = next.activeSubBoard
+    return { winner: next.winner === "draw" ? null : next.winner, gameOver: next.gameOver }
+  }
+
+  const next = makeMove({ ...toGameState(room), currentPlayer: symbol, winner: null, gameOver: false }, position, mark)
+  room.board = next.board
+  return { winner: next.winner === "draw" ? null : next.winner, gameOver: next.gameOver }
+}
+
+/**
+ * Record the current game in the series, then either start the next game or finish
+ * the room with the series winner. A forfeit always finishes the room, whatever the
+ * score: the move log only shows where games ended on the board, so a series that went
+ * on past a forfeited game could not be replayed or proven (see winner-verification).
+ */
+function endGame(room: Room, winner: string | null, now: number, forfeit?: Forfeit): void {
+  const game: SeriesGame = {
+    board: [...room.board],
+    xPlayer: getXPlayer(room),
+    winner,
+    moves: room.board.filter((cell) => cell !== null).length,
+  }
+  if (forfeit) game.forfeit = forfeit
+  room.games = [...(room.games || []), game]
+
+  if (forfeit) {
+    room.forfeit = forfeit
+    room.winner = winner || undefined
+    transitionRoom(room, "finished")
+    return
+  }
+
+  const wins = room.players.map((player) => room.games!.filter((g) => g.winner === player).length)
+  const result = decideSeries(wins, room.games.length, room.bestOf || 1)
+
+  if (result === null) {
+    startNextGame(room, now)
+    return
+  }
+
+  room.winner = result === "draw" ? undefined : room.players[result]
+  transitionRoom(room, "finished")
+}
+
+function startNextGame(room: Room, now: number): void {
+  room.board = Array(room.board.length).fill(null)
+  if (isUltimateRoom(room)) resetUltimateBoard(room)
+  room.currentPlayer = getXPlayer(room) // X always opens
+  if (room.clock) room.clock.remainingMs = {}
+  transitionRoom(room, "ready")
+  if (room.clock) room.clock.turnStartedAt = now
+}
+
+/**
+ * Start the current player's turn with full clocks for any player that has none yet
+ */
+function startClock(room: Room, now = Date.now()): void {
+  if (!room.clock) return
+
+  room.players.forEach((player) => {
+    if (room.clock!.remainingMs[player] === undefined) room.clock!.remainingMs[player] = room.clock!.gameTimeMs
+  })
+  room.clock.turnStartedAt = now
+}
+
+/**
+ * Time the current player has left on their move clock and total clock
+ */
+export function getClockRemaining(room: Room, now = Date.now()): { moveMs: number; gameMs: number } | null {
+  const clock = room.clock
+  if (!clock) return null
+
+  const elapsed = clock.turnStartedAt && isRoomInProgress(room) ? now - clock.turnStartedAt : 0
+  const gameMs = clock.remainingMs[room.currentPlayer] ?? clock.gameTimeMs
+  return {
+    moveMs: Math.max(0, clock.moveTimeMs - elapsed),
+    gameMs: Math.max(0, gameMs - elapsed),
+  }
+}
+
+/**
+ * Which player has run out of time, if any
+ */
+export function getExpiredClock(room: Room, now = Date.now()): Forfeit | null {
+  if (!isRoomInProgress(room) || !room.clock?.turnStartedAt) return null
+
+  const remaining = getClockRemaining(room, now)!
+  if (remaining.gameMs <= 0) return { player: room.currentPlayer, reason: "game-timeout" }
+  if (remaining.moveMs <= 0) return { player: room.currentPlayer, reason: "move-timeout" }
+  return null
+}
+
+/**
+ * Finish the game, and the whole series, as a loss for a player whose clock ran out.
+ * Returns whether a forfeit was applied.
+ */
+export function applyTimeout(room: Room, now = Date.now()): boolean {
+  const forfeit = getExpiredClock(room, now)
+  if (!forfeit) return false
+
+  const clock = room.clock!
+  clock.remainingMs[forfeit.player] = Math.max(0, clock.remainingMs[forfeit.player] - (now - clock.turnStartedAt!))
+  endGame(room, room.players.find((p) => p !== forfeit.player) || null, now, forfeit)
+  return true
+}
+
+/**
+ * Finish the game, and the whole series, as a loss for a player who resigned
+ */
+export function applyResignation(room: Room, player: string, now = Date.now()): Room {
+  if (!room.players.includes(player)) {
+    throw new RoomMoveError("Player is not part of this room", "not-a-player")
+  }
+
+  if (!isRoomInProgress(room)) {
+    throw new RoomMoveError(`Game is not in playing state (${room.gameState})`, "not-in-progress")
+  }
+
+  const clock = room.clock
+  if (clock?.turnStartedAt && clock.remainingMs[room.currentPlayer] !== undefined) {
+    clock.remainingMs[room.currentPlayer] -= now - clock.turnStartedAt
+  }
+
+  endGame(room, room.players.find((p) => p !== player) || null, now, { player, reason: "resign" })
+  return room
+}
+
+/**
+ * The board as seen by GameBoard, with X/O symbols instead of addresses
+ */
+export function toGameState(room: Room): GameState {
+  // Once a series is over the board shows its last game, which the series winner may not have won
+  const lastGame = isRoomOver(room) ? room.games?.[room.games.length - 1] : undefined
+  const boardWinner = lastGame ? lastGame.winner : room.winner
+
+  let winner: GameState["winner"] = null
+  if (boardWinner) {
+    winner = getPlayerSymbol(room, boardWinner)
+  } else if (isRoomOver(room)) {
+    winner = "draw"
+  }
+
+  return {
+    board: room.board as Player[],
+    currentPlayer: getPlayerSymbol(room, room.currentPlayer) || "X",
+    winner,
+    gameOver: isRoomOver(room),
+    moves: room.board.filter((cell) => cell !== null).length,
+    variant: room.variant,
+    rules: room.rules,
+  }
+}
+
+/**
+ * The Ultimate board as seen by UltimateGameBoard
+ */
+export function toUltimateGameState(room: Room): UltimateGameState {
+  const { winner, gameOver, currentPlayer, moves } = toGameState(room)
+  return {
+    board: room.board as Player[],
+    subBoardWinners: room.subBoardWinners || createInitialUltimateState().subBoardWinners,
+    activeSubBoard: room.activeSubBoard ?? null,
+    currentPlayer,
+    winner,
+    gameOver,
+    moves,
+  }
+}
+
+// Adapters for the older room shapes
+
+export function fromGameRoom(gameRoom: GameRoom): Room {
+  return {
+    roomId: gameRoom.treasuryId || gameRoom.id,
+    betAmount: gameRoom.betAmount,
+    creator: gameRoom.players[0],
+    players: gameRoom.players,
+    currentPlayer: gameRoom.currentPlayer,
+    board: gameRoom.board,
+    gameState:
+      gameRoom.gameState === "playing" && gameRoom.board.every((cell) => cell === null) ? "ready" : gameRoom.gameState,
+    winner: gameRoom.winner,
+    moveLog: [],
+    createdAt: gameRoom.createdAt,
+  }
+}
+
+/**
+ * Copy a room's state back onto a GameRoom, keeping the fields only GameRoom has (name, presence, treasury)
+ */
+export function toGameRoom(room: Room, gameRoom: GameRoom): GameRoom {
+  return {
+    ...gameRoom,
+    betAmount: room.betAmount,
+    players: room.players,
+    currentPlayer: room.currentPlayer,
+    board: room.board,
+    gameState:
+      room.gameState === "ready"
+        ? "playing"
+        : room.gameState === "settled" || room.gameState === "cancelled"
+          ? "finished"
+          : room.gameState,
+    winner: room.winner,
+  }
+}
+
+export function fromLegacyRoom(legacyRoom: LegacyRoom): Room {
+  const players = [legacyRoom.players.X?.address, legacyRoom.players.O?.address].filter(
+    (address): address is string => !!address,
+  )
+  const { gameState } = legacyRoom
+  const symbolToAddress = (symbol: Player) => (symbol === "X" ? players[0] : symbol === "O" ? players[1] : undefined)
+
+  return {
+    roomId: legacyRoom.id,
+    betAmount: legacyRoom.betAmount,
+    creator: players[0],
+    players,
+    currentPlayer: symbolToAddress(gameState.currentPlayer) || players[0],
+    board: gameState.board,
+    gameState:
+      legacyRoom.status === "playing" && gameState.moves === 0 ? "ready" : legacyRoom.status,
+    winner: gameState.winner && gameState.winner !== "draw" ? symbolToAddress(gameState.winner) : undefined,
+    moveLog: [],
+    winnerProof: legacyRoom.winnerProof,
+    createdAt: new Date(legacyRoom.createdAt).getTime(),
+  }
+}
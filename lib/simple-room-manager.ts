@@ -1,35 +1,44 @@
+import type { SignedMove } from "@/types/game"
 import { suiContract } from "./sui-integration"
+import {
+  encodeMoveMessage,
+  encodeResignMessage,
+  encodeRoomSessionMessage,
+  encodeRoomSettingsMessage,
+  encodeSettlementMessage,
+} from "./move-signing"
+import type { SettlementRequest } from "./move-signing"
+import { checkMove, createRoom, getRoomSettings, isRoomOpen, isStaleRoom, transitionRoom } from "./room"
+import type { LiveRoom, Room, RoomOptions } from "./room"
+import { paginateRooms } from "./room-indexer"
+import type { ChatEmote, ChatMessage } from "./room-chat"
+import type { OutboundResult } from "./outbound-queue"
+import { browserRoomStore, ROOM_STORE_KEYS } from "./room-store"
+import type { RoomStore } from "./room-store"
+import type { IndexedRoom, RoomListOptions, RoomListPage } from "./room-indexer"
 
-export interface SimpleRoom {
-  roomId: string // This is the room ID - the Room object ID from blockchain
-  betAmount: number
-  creator: string
-  players: string[] // Array of player addresses, max 2
-  currentPlayer: string
-  board: (string | null)[] // TicTacToe board state
-  gameState: "waiting" | "playing" | "finished"
-  winner?: string
-  createdAt: number
-}
+export type { RoomOutcome, Settlement, SettlementStatus } from "./room"
+
+/**
+ * @deprecated Use Room from lib/room
+ */
+export type SimpleRoom = Room
 
-class SimpleRoomManager {
-  private rooms = new Map<string, SimpleRoom>()
-  private listeners = new Map<string, ((room: SimpleRoom) => void)[]>()
-  private readonly STORAGE_KEY = 'simple-game-rooms'
+export class SimpleRoomManager {
+  private rooms = new Map<string, Room>()
+  private listeners = new Map<string, ((room: Room) => void)[]>()
 
-  constructor() {
+  constructor(private readonly store: RoomStore = browserRoomStore) {
     this.loadRoomsFromStorage()
   }
 
   private loadRoomsFromStorage(): void {
-    if (typeof window === 'undefined') return
-    
     try {
-      const stored = localStorage.getItem(this.STORAGE_KEY)
-      if (stored) {
-        const roomsData = JSON.parse(stored)
-        Object.entries(roomsData).forEach(([id, room]) => {
-          this.rooms.set(id, room as SimpleRoom)
+      const roomsData = this.store.read<Record<string, Room>>(ROOM_STORE_KEYS.simpleRooms)
+      if (roomsData) {
+        Object.entries(roomsData).forEach(([id, storedRoom]) => {
+          // Rooms stored before move logging have no moveLog
+          this.rooms.set(id, { ...storedRoom, moveLog: storedRoom.moveLog || [] })
         })
         console.log('[SimpleRoomManager] Loaded rooms from storage:', Object.keys(roomsData).length)
       }
@@ -39,14 +48,12 @@ class SimpleRoomManager {
   }
 
   private saveRoomsToStorage(): void {
-    if (typeof window === 'undefined') return
-    
     try {
-      const roomsData: Record<string, SimpleRoom> = {}
+      const roomsData: Record<string, Room> = {}
       this.rooms.forEach((room, id) => {
         roomsData[id] = room
       })
-      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(roomsData))
+      this.store.write(ROOM_STORE_KEYS.simpleRooms, roomsData)
       console.log('[SimpleRoomManager] Saved rooms to storage')
     } catch (error) {
       console.warn('[SimpleRoomManager] Failed to save rooms to storage:', error)
@@ -55,9 +62,16 @@ class SimpleRoomManager {
 
   /**
    * Create a new room by calling the blockchain contract
+   * The creator then signs the room's settings so the server accepts them.
    * Returns the roomId which serves as the room identifier
    */
-  async createRoom(creatorAddress: string, betAmount: number, signAndExecute: any): Promise<string> {
+  async createRoom(
+    creatorAddress: string,
+    betAmount: number,
+    signAndExecute: any,
+    signPersonalMessage: any,
+    settings: Pick<RoomOptions, "timeControl" | "bestOf" | "variant" | "gameType" | "rules"> = {},
+  ): Promise<string> {
     console.log("[v0] Creating new room with Room system")
 
     try {
@@ -217,15 +231,17 @@ class SimpleRoomManager {
       console.log("[v0] Room ID extracted successfully:", roomId)
 
       // Create the room object using room ID as the key
-      const room: SimpleRoom = {
-        roomId,
-        betAmount,
-        creator: creatorAddress,
-        players: [creatorAddress],
-        currentPlayer: creatorAddress,
-        board: Array(9).fill(null),
-        gameState: "waiting",
-        createdAt: Date.now(),
+      let room = createRoom(roomId, betAmount, [creatorAddress], settings)
+
+      try {
+        const { signature } = await signPersonalMessage({
+          message: encodeRoomSettingsMessage(roomId, creatorAddress, getRoomSettings(room)),
+        })
+        room.settingsSignature = signature
+      } catch (signError: any) {
+        // The room exists on chain either way; without a signature the server plays it with the defaults
+        console.warn("[v0] Room settings were not signed, using the default settings:", signError.message || signError)
+        room = createRoom(roomId, betAmount, [creatorAddress])
       }
 
       // Store the room using room ID as the key
@@ -258,38 +274,33 @@ class SimpleRoomManager {
 
   /**
    * Join a room using room ID
+   * The stake is read from the Room object so the joiner escrows exactly the creator's bet
    */
-  async joinRoom(roomId: string, playerAddress: string, betAmount: number, signAndExecute: any): Promise<SimpleRoom> {
+  async joinRoom(roomId: string, playerAddress: string, signAndExecute: any): Promise<Room> {
     console.log("[v0] Joining room with room ID:", roomId)
 
     try {
+      const roomInfo = await suiContract.getRoomInfo(roomId)
+      if (!roomInfo) {
+        throw new Error(`Room ${roomId} not found. Invalid room ID.`)
+      }
+
       // First, try to get the room from local storage
       let room = this.rooms.get(roomId)
 
-      // If room doesn't exist locally, try to get room info from blockchain
+      // If room doesn't exist locally, create it from the blockchain room info
       if (!room) {
-        console.log("[v0] Room not found locally, checking room on blockchain...")
-        
-        const roomInfo = await suiContract.getRoomInfo(roomId)
-        if (!roomInfo) {
-          throw new Error(`Room ${roomId} not found. Invalid room ID.`)
-        }
+        console.log("[v0] Room not found locally, using room on blockchain...")
 
-        // Create room from blockchain room info if it doesn't exist locally
-        room = {
-          roomId,
-          betAmount: betAmount, // Use the joining player's bet amount
-          creator: roomInfo.player1, // player1 is the creator
-          players: roomInfo.player2 ? [roomInfo.player1, roomInfo.player2] : [roomInfo.player1],
-          currentPlayer: roomInfo.player1,
-          board: Array(9).fill(null),
-          gameState: roomInfo.isFull ? "playing" : "waiting",
-          createdAt: Date.now(),
-        }
+        // player1 is the creator
+        room = createRoom(roomId, roomInfo.betAmount, roomInfo.player2 ? [roomInfo.player1, roomInfo.player2] : [roomInfo.player1])
         
         console.log("[v0] Created room from blockchain info:", roomInfo)
       }
 
+      // The on-chain stake is authoritative
+      room.betAmount = roomInfo.betAmount
+
       // Validate room state
       if (room.players.length >= 2) {
         throw new Error("Room is full. Cannot join a room with 2 players.")
@@ -313,8 +324,8 @@ class SimpleRoomManager {
         return room
       }
 
-      // Call the blockchain contract to join the room
-      const result = await suiContract.joinRoom(roomId, betAmount, signAndExecute)
+      // Call the blockchain contract to join the room, matching the escrowed bet
+      const result = await suiContract.joinRoom(roomId, roomInfo.betAmount, signAndExecute)
       
       console.log("[v0] Join transaction successful:", result)
 
@@ -323,8 +334,8 @@ class SimpleRoomManager {
       
       // If we now have 2 players, start the game
       if (room.players.length === 2) {
-        room.gameState = "playing"
-        room.currentPlayer = room.players[0] // First player (creator) starts
+        // The opening player is drawn by the engine; the broadcast below adopts its copy
+        transitionRoom(room, "ready")
         console.log("[v0] Room is full, starting game automatically")
         
         // Update the room immediately
@@ -348,8 +359,9 @@ class SimpleRoomManager {
         this.notifyListeners(roomId, room)
       }
 
-      console.log("[v0] Player joined successfully, room updated:", room)
-      return room
+      const joinedRoom = this.rooms.get(roomId) || room
+      console.log("[v0] Player joined successfully, room updated:", joinedRoom)
+      return joinedRoom
 
     } catch (error) {
       console.error("[v0] Failed to join room:", error)
@@ -362,7 +374,7 @@ class SimpleRoomManager {
    * This method handles creators accessing their own rooms without needing blockchain transactions
    * Enhanced with better state synchronization, validation, and retry logic
    */
-  async enterRoom(roomId: string, playerAddress: string, maxRetries: number = 3): Promise<SimpleRoom | null> {
+  async enterRoom(roomId: string, playerAddress: string, maxRetries: number = 3): Promise<Room | null> {
     console.log("[v0] Attempting to enter room:", roomId, "for player:", playerAddress)
     
     let attempt = 0
@@ -441,83 +453,294 @@ class SimpleRoomManager {
 
   /**
    * Make a move in the game
+   * The move is signed with the player's wallet and validated by the server room engine,
+   * which appends it to the move log and broadcasts the resulting state.
+   * Pass submitMove to send it another way, e.g. over the room WebSocket or through
+   * the offline queue; by default it goes over HTTP.
    */
-  makeMove(roomId: string, position: number, player: string): SimpleRoom | null {
+  async makeMove(
+    roomId: string,
+    position: number,
+    player: string,
+    signPersonalMessage: any,
+    mark?: "X" | "O",
+    submitMove: (move: SignedMove, version: number) => Promise<OutboundResult> = (signedMove, version) =>
+      this.submitSignedMove(signedMove, version),
+  ): Promise<Room | null> {
     const room = this.rooms.get(roomId)
-    if (!room || room.gameState !== "playing" || room.currentPlayer !== player) {
-      console.log(`[v0] Invalid move attempt: roomExists=${!!room}, gameState=${room?.gameState}, currentPlayer=${room?.currentPlayer}, attemptingPlayer=${player}`)
+    if (!room) {
+      console.log(`[v0] Invalid move attempt: room ${roomId} not found`)
       return null
     }
 
-    if (room.board[position] !== null) {
-      console.log(`[v0] Invalid move: position ${position} already occupied by ${room.board[position]}`)
+    const rejection = checkMove(room, position, player, mark)
+    if (rejection) {
+      console.log(`[v0] Invalid move attempt: ${rejection.message}`)
       return null
     }
 
-    const playerSymbol = room.players[0] === player ? "X" : "O"
-    console.log(`[v0] Making move: Player ${playerSymbol} at position ${position}`)
+    console.log(`[v0] Submitting move to server: position ${position} by ${player}`)
 
-    // Make the move
-    room.board[position] = playerSymbol
-    
-    // Switch current player
-    room.currentPlayer = room.players.find((p) => p !== player) || player
-
-    // Check for winner
-    const winner = this.checkWinner(room.board)
-    if (winner || room.board.every((cell) => cell !== null)) {
-      room.gameState = "finished"
-      if (winner) {
-        const winnerAddress = winner === "X" ? room.players[0] : room.players[1]
-        room.winner = winnerAddress
-        console.log(`[v0] Game finished! Winner: ${winner} (${winnerAddress})`)
-      } else {
-        console.log(`[v0] Game finished! It's a draw.`)
+    try {
+      // Only wild games send a mark; other moves keep the original signed message
+      const move = { roomId, seq: room.moveLog.length, position, player, ...(mark ? { mark } : {}) }
+
+      // Sign the move so the server and any later dispute can prove who made it
+      const { signature } = await signPersonalMessage({ message: encodeMoveMessage(move) })
+
+      // The version lets the server reject the move if the room changed since we saw it
+      const result = await submitMove({ ...move, signature }, room.version || 0)
+      if (result.room) {
+        this.applyServerRoom(roomId, result.room)
+      } else if (result.status === 409) {
+        await this.refetchRoom(roomId)
+      }
+
+      if (result.queued) {
+        console.log(`[v0] Offline, move queued until the connection is back: position ${position}`)
+        return null
       }
-    } else {
-      console.log(`[v0] Move completed. Next turn: ${room.currentPlayer === room.players[0] ? 'X' : 'O'} (${room.currentPlayer})`)
+      if (result.error) {
+        console.warn(`[v0] Move rejected by server: ${result.error}`)
+        return null
+      }
+
+      console.log(`[v0] Move accepted. Game state: ${result.room?.gameState}`)
+      return result.room || null
+    } catch (error: any) {
+      console.error("[v0] Failed to submit move:", error.message || error)
+      return null
     }
+  }
 
-    this.rooms.set(roomId, room)
-    this.saveRoomsToStorage()
-    this.notifyListeners(roomId, room)
-    
-    return room
+  /**
+   * Send a signed move over HTTP. Resolves without a status when the request never
+   * reached the server, so callers can queue the move and try again later.
+   */
+  async submitSignedMove(move: SignedMove, version: number): Promise<OutboundResult> {
+    try {
+      const response = await fetch(`/api/rooms/${encodeURIComponent(move.roomId)}/moves`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ ...move, version }),
+        signal: AbortSignal.timeout(5000) // 5 second timeout
+      })
+
+      const result = await response.json()
+      // The canonical room comes back with rejections too, so the client can resync
+      return response.ok
+        ? { room: result.room, status: response.status }
+        : { room: result.room, error: result.error, status: response.status }
+    } catch (error: any) {
+      return { error: error.message || "Network error" }
+    }
+  }
+
+  /**
+   * Resign the game with a wallet-signed message: the opponent wins and the room
+   * goes to settlement like any finished game
+   */
+  async resign(roomId: string, player: string, signPersonalMessage: any): Promise<Room | null> {
+    try {
+      const { signature } = await signPersonalMessage({ message: encodeResignMessage(roomId, player) })
+      return await this.postRoomAction(roomId, "resign", { player, signature, version: this.rooms.get(roomId)?.version || 0 })
+    } catch (error: any) {
+      console.error("[v0] Failed to resign:", error.message || error)
+      return null
+    }
+  }
+
+  /**
+   * Cancel a room nobody has joined yet. The contract refunds the creator's stake,
+   * then the server closes the room once the transaction is confirmed.
+   */
+  async cancelRoom(roomId: string, player: string, signAndExecute: any): Promise<Room | null> {
+    const room = this.rooms.get(roomId)
+    if (!room || room.creator !== player || room.gameState !== "waiting") {
+      console.log(`[v0] Cannot cancel room ${roomId}: only the creator can cancel a waiting room`)
+      return null
+    }
+
+    try {
+      const result: any = await suiContract.cancelRoom(roomId, signAndExecute)
+      return await this.postRoomAction(roomId, "cancel", { player, transactionDigest: result.digest })
+    } catch (error: any) {
+      console.error("[v0] Failed to cancel room:", error.message || error)
+      return null
+    }
   }
 
   /**
    * Finish the game and distribute prizes
+   * The result comes from the server's copy of the room, never from the client: a draw
+   * (winner null) refunds both stakes from the room escrow.
+   * The server grants exactly one player the right to submit the settlement;
+   * the others watch for the submitted transaction to be confirmed. Every step is
+   * signed with the player's wallet.
    */
-  async finishGame(roomId: string, winner: string | null, signAndExecute: any): Promise<void> {
+  async finishGame(
+    roomId: string,
+    playerAddress: string,
+    signAndExecute: any,
+    signPersonalMessage: any,
+  ): Promise<void> {
     const room = this.rooms.get(roomId)
     if (!room) return
 
-    console.log("[v0] Finishing game and distributing prize")
+    const claim = await this.postSettlement(
+      { roomId, player: playerAddress, action: "claim", attempt: (room.settlement?.attempts || 0) + 1 },
+      signPersonalMessage,
+    )
+    if (!claim) return
+    this.applyServerRoom(roomId, claim.room)
 
-    if (winner) {
-      try {
-        // Execute blockchain transaction to finish the game and distribute prizes
-        // Note: This may need to be updated based on the actual Room contract implementation
-        const result = await suiContract.finishGame(roomId, winner, signAndExecute)
-        
-        console.log("[v0] Finish game transaction successful:", result)
-        room.winner = winner
-        room.gameState = "finished"
-        console.log("[v0] Prize distributed to winner:", winner)
-      } catch (error) {
-        console.error("[v0] Failed to distribute prize:", error)
+    if (!claim.granted) {
+      const settlement = claim.room.settlement
+      console.log(`[v0] Settlement handled by another player (status: ${settlement?.status})`)
+      if (settlement?.status === "submitted" && settlement.transactionDigest) {
+        await this.watchSettlement(roomId, settlement.transactionDigest)
       }
+      return
     }
 
-    this.rooms.set(roomId, room)
-    this.saveRoomsToStorage()
-    this.notifyListeners(roomId, room)
+    const winner = claim.room.winner || null
+    console.log(winner ? "[v0] Finishing game and distributing prize" : "[v0] Finishing drawn game and refunding stakes")
+    const attempt = claim.room.settlement?.attempts || 0
+
+    let digest: string
+    try {
+      // Execute blockchain transaction to settle the game
+      const result: any = winner
+        ? await suiContract.finishGame(roomId, winner, signAndExecute)
+        : await suiContract.finishGameDraw(roomId, signAndExecute)
+
+      console.log("[v0] Finish game transaction submitted:", result)
+      digest = result.digest
+    } catch (error: any) {
+      console.error(winner ? "[v0] Failed to distribute prize:" : "[v0] Failed to refund stakes:", error)
+      const failed = await this.postSettlement(
+        { roomId, player: playerAddress, action: "fail", attempt },
+        signPersonalMessage,
+        error.message || String(error),
+      )
+      if (failed) this.applyServerRoom(roomId, failed.room)
+      return
+    }
+
+    // The server waits for the transaction and broadcasts the confirmed settlement
+    const report = await this.postSettlement(
+      { roomId, player: playerAddress, action: "report", attempt, digest },
+      signPersonalMessage,
+    )
+    if (report) {
+      this.applyServerRoom(roomId, report.room)
+      console.log(`[v0] Settlement status: ${report.room.settlement?.status}`)
+    }
+  }
+
+  /**
+   * Ask the server to enforce the room's clock once a countdown reaches zero
+   */
+  async checkClock(roomId: string): Promise<Room | null> {
+    try {
+      const response = await fetch(`/api/rooms/${encodeURIComponent(roomId)}/clock`, {
+        method: 'POST',
+        signal: AbortSignal.timeout(5000),
+      })
+
+      const result = await response.json()
+      if (!response.ok) {
+        console.warn(`[v0] Clock check rejected by server: ${result.error}`)
+        return null
+      }
+
+      this.applyServerRoom(roomId, result.room)
+      if (result.forfeited) console.log(`[v0] Game forfeited on time by ${result.room.forfeit?.player}`)
+      return result.room
+    } catch (error: any) {
+      console.error("[v0] Clock check failed:", error.message || error)
+      return null
+    }
+  }
+
+  /**
+   * Watch a settlement transaction submitted by another player until it is final.
+   * Only the server decides whether it settled the room, so once the transaction is
+   * done the room is fetched again instead of being marked settled here.
+   */
+  async watchSettlement(roomId: string, digest: string): Promise<void> {
+    try {
+      await suiContract.waitForTransaction(digest)
+      const room = await this.fetchRoom(roomId)
+      if (!room) return
+
+      this.applyServerRoom(roomId, room)
+      console.log(`[v0] Watched settlement ${digest}: ${room.settlement?.status}`)
+    } catch (error: any) {
+      console.warn("[v0] Failed to watch settlement transaction:", error.message)
+    }
+  }
+
+  private async postSettlement(
+    request: SettlementRequest,
+    signPersonalMessage: any,
+    reason?: string,
+  ): Promise<{ granted?: boolean; room: Room } | null> {
+    const { roomId, action } = request
+    try {
+      const { signature } = await signPersonalMessage({ message: encodeSettlementMessage(request) })
+      const response = await fetch(`/api/rooms/${encodeURIComponent(roomId)}/settlement`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ action, player: request.player, digest: request.digest, error: reason, signature }),
+      })
+
+      const result = await response.json()
+      if (!response.ok) {
+        console.warn(`[v0] Settlement ${action} rejected by server: ${result.error}`)
+        if (result.room) this.applyServerRoom(roomId, result.room)
+        return null
+      }
+
+      return result
+    } catch (error: any) {
+      console.error(`[v0] Settlement ${action} request failed:`, error.message || error)
+      return null
+    }
+  }
+
+  private async postRoomAction(
+    roomId: string,
+    action: "resign" | "cancel",
+    body: Record<string, string | number | undefined>,
+  ): Promise<Room | null> {
+    const response = await fetch(`/api/rooms/${encodeURIComponent(roomId)}/${action}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    })
+
+    const result = await response.json()
+    if (!response.ok) {
+      console.warn(`[v0] ${action} rejected by server: ${result.error}`)
+      if (result.room) this.applyServerRoom(roomId, result.room)
+      return null
+    }
+
+    this.applyServerRoom(roomId, result.room)
+    return result.room
   }
 
   /**
    * Get room by room ID, with fallback to blockchain lookup
    */
-  async getOrLoadRoom(roomId: string): Promise<SimpleRoom | null> {
+  async getOrLoadRoom(roomId: string): Promise<Room | null> {
     // First try local storage
     let room = this.rooms.get(roomId)
     
@@ -536,16 +759,8 @@ class SimpleRoomManager {
       }
       
       // Create room from room info
-      room = {
-        roomId,
-        betAmount: 0.1, // Default bet amount since Room struct doesn't store this
-        creator: roomInfo.player1, // player1 is the creator
-        players: roomInfo.player2 ? [roomInfo.player1, roomInfo.player2] : [roomInfo.player1],
-        currentPlayer: roomInfo.player1,
-        board: Array(9).fill(null),
-        gameState: roomInfo.isFull ? "playing" : "waiting",
-        createdAt: Date.now(),
-      }
+      // player1 is the creator
+      room = createRoom(roomId, roomInfo.betAmount, roomInfo.player2 ? [roomInfo.player1, roomInfo.player2] : [roomInfo.player1])
       
       // Store it locally for future access
       this.rooms.set(roomId, room)
@@ -563,14 +778,111 @@ class SimpleRoomManager {
   /**
    * Get room by room ID
    */
-  getRoom(roomId: string): SimpleRoom | undefined {
+  getRoom(roomId: string): Room | undefined {
     return this.rooms.get(roomId)
   }
 
+  /**
+   * The session token this browser holds for a player in a room, while it is valid
+   */
+  getRoomSessionToken(roomId: string, player: string): string | undefined {
+    const token = this.store.read<Record<string, string>>(ROOM_STORE_KEYS.roomSessions)?.[`${roomId}:${player}`]
+    // Tokens start with their expiry time
+    return token && Number(token.split(".")[0]) > Date.now() ? token : undefined
+  }
+
+  /**
+   * Sign the challenge of this client's SSE connection so the server trusts it as the
+   * player's, e.g. to chat. The token that comes back is kept so later connections are
+   * trusted without signing again.
+   */
+  async openRoomSession(
+    roomId: string,
+    player: string,
+    connectionId: string,
+    signPersonalMessage: any,
+  ): Promise<{ sessionToken?: string; error?: string }> {
+    try {
+      const { signature } = await signPersonalMessage({ message: encodeRoomSessionMessage(roomId, player, connectionId) })
+
+      const response = await fetch(`/api/rooms/${encodeURIComponent(roomId)}/session`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ player, connectionId, signature }),
+        signal: AbortSignal.timeout(5000),
+      })
+
+      const result = await response.json()
+      if (!response.ok) {
+        console.warn(`[v0] Room session rejected by server: ${result.error}`)
+        return { error: result.error }
+      }
+
+      const sessions = this.store.read<Record<string, string>>(ROOM_STORE_KEYS.roomSessions) || {}
+      this.store.write(ROOM_STORE_KEYS.roomSessions, { ...sessions, [`${roomId}:${player}`]: result.sessionToken })
+      return { sessionToken: result.sessionToken }
+    } catch (error: any) {
+      console.error("[v0] Room session failed:", error.message || error)
+      return { error: "Could not confirm your wallet" }
+    }
+  }
+
+  /**
+   * Post a chat message or emote to a room. The message itself arrives back over SSE
+   * like everyone else's; the error is meant to be shown to the sender.
+   */
+  async sendChatMessage(
+    roomId: string,
+    player: string,
+    connectionId: string,
+    content: { text?: string; emote?: ChatEmote },
+  ): Promise<{ chatMessage?: ChatMessage; error?: string }> {
+    try {
+      const response = await fetch(`/api/rooms/${encodeURIComponent(roomId)}/chat`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ player, connectionId, ...content }),
+        signal: AbortSignal.timeout(5000),
+      })
+
+      const result = await response.json()
+      if (!response.ok) {
+        console.warn(`[v0] Chat message rejected by server: ${result.error}`)
+        return { error: result.error }
+      }
+      return { chatMessage: result.chatMessage }
+    } catch (error: any) {
+      console.error("[v0] Chat message failed:", error.message || error)
+      return { error: "Could not send message" }
+    }
+  }
+
+  /**
+   * Fetch the server's copy of a room without caching it, e.g. to replay a game the
+   * viewer did not play in
+   */
+  async fetchRoom(roomId: string): Promise<Room | null> {
+    try {
+      const response = await fetch(`/api/rooms/${encodeURIComponent(roomId)}`, {
+        signal: AbortSignal.timeout(5000),
+      })
+
+      const result = await response.json()
+      if (!response.ok) {
+        console.warn(`[v0] Room fetch rejected by server: ${result.error}`)
+        return null
+      }
+      return result.room
+    } catch (error: any) {
+      console.error("[v0] Room fetch failed:", error.message || error)
+      return null
+    }
+  }
+
   /**
    * Subscribe to room updates
    */
-  subscribeToRoom(roomId: string, callback: (room: SimpleRoom) => void): () => void {
+  subscribeToRoom(roomId: string, callback: (room: Room) => void): () => void {
     if (!this.listeners.has(roomId)) {
       this.listeners.set(roomId, [])
     }
@@ -585,7 +897,13 @@ class SimpleRoomManager {
     }
   }
 
-  private notifyListeners(roomId: string, room: SimpleRoom): void {
+  // A broadcast that was just rejected may have cached a newer server state; never hand out an older one
+  private notifyListeners(roomId: string, room: Room): void {
+    if (isStaleRoom(room, this.rooms.get(roomId))) {
+      console.log(`[v0] Not notifying out-of-date room state (version ${room.version}) for room: ${roomId}`)
+      return
+    }
+
     const callbacks = this.listeners.get(roomId) || []
     callbacks.forEach((callback) => callback(room))
     
@@ -593,12 +911,47 @@ class SimpleRoomManager {
     this.broadcastRoomUpdate(roomId, room)
   }
 
+  /**
+   * Cache a room state received over SSE so the next move builds on the server's move log
+   */
+  syncRoomState(room: Room): void {
+    if (isStaleRoom(room, this.rooms.get(room.roomId))) return
+    this.rooms.set(room.roomId, room)
+    this.saveRoomsToStorage()
+  }
+
+  /**
+   * Store a room state that came from the server and notify local listeners
+   * without broadcasting it again. States older than the cached one arrived out of
+   * order and are ignored.
+   */
+  private applyServerRoom(roomId: string, room: Room): void {
+    if (isStaleRoom(room, this.rooms.get(roomId))) {
+      console.log(`[v0] Ignoring out-of-date room state (version ${room.version}) for room: ${roomId}`)
+      return
+    }
+    this.rooms.set(roomId, room)
+    this.saveRoomsToStorage()
+
+    const callbacks = this.listeners.get(roomId) || []
+    callbacks.forEach((callback) => callback(room))
+  }
+
+  /**
+   * Replace the cached room with the server's after a write was rejected as outdated
+   */
+  private async refetchRoom(roomId: string): Promise<Room | null> {
+    const room = await this.fetchRoom(roomId)
+    if (room) this.applyServerRoom(roomId, room)
+    return room
+  }
+
   /**
    * Broadcast room update via Server-Sent Events API
    * Made public to allow explicit synchronization calls
    * Enhanced with retry logic and better error handling
    */
-  async broadcastRoomUpdate(roomId: string, roomData: SimpleRoom, maxRetries: number = 2): Promise<void> {
+  async broadcastRoomUpdate(roomId: string, roomData: Room, maxRetries: number = 2): Promise<void> {
     let attempt = 0
     let lastError: Error | null = null
 
@@ -620,10 +973,26 @@ class SimpleRoomManager {
           signal: AbortSignal.timeout(5000) // 5 second timeout
         })
         
+        if (response.status === 409) {
+          // Our copy is out of date; take the server's instead of retrying
+          const result = await response.json()
+          console.warn(`[v0] Room update rejected: ${result.error}`)
+          if (result.room) {
+            this.applyServerRoom(roomId, result.room)
+          } else {
+            await this.refetchRoom(roomId)
+          }
+          return
+        }
+
         if (!response.ok) {
           throw new Error(`HTTP ${response.status}: ${response.statusText}`)
         }
         
+        // The engine's copy is canonical, e.g. it decides who opens a game
+        const result = await response.json()
+        if (result.room) this.applyServerRoom(roomId, result.room)
+
         console.log('[v0] Room update successfully broadcasted via SSE:', roomId)
         return // Success, exit the retry loop
 
@@ -651,11 +1020,72 @@ class SimpleRoomManager {
   }
 
   /**
-   * List all available rooms from the blockchain
+   * List open rooms across the network from the server's on-chain event index.
+   * Falls back to the rooms owned by the connected wallet when the index is unreachable.
+   */
+  async listAvailableRooms(walletAddress?: string, options: RoomListOptions = {}): Promise<RoomListPage<Room>> {
+    const params = new URLSearchParams()
+    Object.entries(options).forEach(([key, value]) => {
+      if (value !== undefined) params.set(key, String(value))
+    })
+
+    try {
+      const response = await fetch(`/api/rooms?${params.toString()}`, {
+        signal: AbortSignal.timeout(10000),
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || `HTTP ${response.status}`)
+      }
+
+      const page: RoomListPage<IndexedRoom> = result
+      const rooms = page.rooms.map((indexedRoom) => {
+        const room = createRoom(indexedRoom.roomId, indexedRoom.betAmount, indexedRoom.players, {
+          createdAt: indexedRoom.createdAt,
+          bestOf: indexedRoom.bestOf,
+          variant: indexedRoom.variant,
+          gameType: indexedRoom.gameType,
+          rules: indexedRoom.rules,
+        })
+
+        // Keep rooms we already track (they may hold moves); only cache new ones
+        if (!this.rooms.has(room.roomId)) this.rooms.set(room.roomId, room)
+        return room
+      })
+      this.saveRoomsToStorage()
+
+      console.log(`[v0] Loaded ${rooms.length} of ${page.total} open rooms from the room index`)
+      return { ...page, rooms }
+    } catch (error: any) {
+      console.warn("[v0] Room index unavailable, listing rooms owned by this wallet:", error.message)
+      const ownedRooms = await this.listOwnedRooms(walletAddress)
+      return paginateRooms(ownedRooms.filter(isRoomOpen), options)
+    }
+  }
+
+  /**
+   * List the games being played right now, for spectators
+   */
+  async listLiveRooms(): Promise<LiveRoom[]> {
+    try {
+      const response = await fetch("/api/rooms/live", { signal: AbortSignal.timeout(10000) })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || `HTTP ${response.status}`)
+      }
+      return result.rooms
+    } catch (error: any) {
+      console.warn("[v0] Could not list live rooms:", error.message)
+      return []
+    }
+  }
+
+  /**
+   * List the Room objects owned by a wallet
    * Requires a wallet address since Sui queries are address-specific
    * Enhanced with better error handling for address validation issues
    */
-  async listAvailableRooms(walletAddress?: string): Promise<SimpleRoom[]> {
+  private async listOwnedRooms(walletAddress?: string): Promise<Room[]> {
     if (!walletAddress) {
       console.warn("[v0] Cannot list rooms without wallet address")
       return []
@@ -677,7 +1107,7 @@ class SimpleRoomManager {
         return []
       }
       
-      const availableRooms: SimpleRoom[] = []
+      const availableRooms: Room[] = []
       
       for (const roomInfo of blockchainRooms) {
         try {
@@ -687,17 +1117,12 @@ class SimpleRoomManager {
             continue
           }
           
-          // Convert blockchain room info to SimpleRoom format
-          const room: SimpleRoom = {
-            roomId: roomInfo.id,
-            betAmount: 0.1, // Default bet amount since Room struct doesn't store this
-            creator: roomInfo.player1,
-            players: roomInfo.player2 ? [roomInfo.player1, roomInfo.player2] : [roomInfo.player1],
-            currentPlayer: roomInfo.player1,
-            board: Array(9).fill(null),
-            gameState: roomInfo.isFull ? "playing" : "waiting",
-            createdAt: Date.now(),
-          }
+          // Convert blockchain room info to Room format
+          const room = createRoom(
+            roomInfo.id,
+            roomInfo.betAmount,
+            roomInfo.player2 ? [roomInfo.player1, roomInfo.player2] : [roomInfo.player1],
+          )
           
           // Cache the room locally
           this.rooms.set(room.roomId, room)
@@ -728,33 +1153,13 @@ class SimpleRoomManager {
       if (error.message && (error.message.includes("network") || error.message.includes("connection"))) {
         console.warn("[v0] Network error while listing rooms, returning cached rooms")
         // Return locally cached rooms as fallback
-        return Array.from(this.rooms.values()).filter(room => room.gameState === "waiting")
+        return Array.from(this.rooms.values()).filter(isRoomOpen)
       }
       
       // For any other errors, return locally cached rooms as fallback
       console.warn("[v0] Using locally cached rooms as fallback")
-      return Array.from(this.rooms.values()).filter(room => room.gameState === "waiting")
-    }
-  }
-
-  private checkWinner(board: (string | null)[]): string | null {
-    const lines = [
-      [0, 1, 2],
-      [3, 4, 5],
-      [6, 7, 8], // rows
-      [0, 3, 6],
-      [1, 4, 7],
-      [2, 5, 8], // columns
-      [0, 4, 8],
-      [2, 4, 6], // diagonals
-    ]
-
-    for (const [a, b, c] of lines) {
-      if (board[a] && board[a] === board[b] && board[a] === board[c]) {
-        return board[a]
-      }
+      return Array.from(this.rooms.values()).filter(isRoomOpen)
     }
-    return null
   }
 }
 
@@ -0,0 +1,211 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+
+// The contract reads the package ID when the module loads, and every chain read goes through the client
+const { waitForTransaction, tryGetPastObject } = vi.hoisted(() => {
+  process.env.NEXT_PUBLIC_SUI_NETWORK = "devnet"
+  process.env.NEXT_PUBLIC_SUI_PACKAGE_ID = "0xc0ffee"
+  return { waitForTransaction: vi.fn(), tryGetPastObject: vi.fn() }
+})
+
+vi.mock("@mysten/sui/client", () => ({
+  SuiClient: class {
+    waitForTransaction = waitForTransaction
+    tryGetPastObject = tryGetPastObject
+  },
+  getFullnodeUrl: () => "http://localhost:9000",
+}))
+
+import { bcs } from "@mysten/sui/bcs"
+import type { Transaction } from "@mysten/sui/transactions"
+import { mistToSui, suiContract, suiToMist } from "./sui-integration"
+
+const ROOM = "0x1"
+const ALICE = "0xa"
+const BOB = "0xb"
+const SUI = "0x2::sui::SUI"
+const STAKE = "1000000000" // 1 SUI in MIST
+const GAS = { computationCost: "1000", storageCost: "0", storageRebate: "0" }
+
+interface Call {
+  module: string
+  function: string
+  winner?: string
+}
+
+function settlementTransaction(call: Call, balanceChanges: { owner: string; amount: string }[], roomChange = "deleted") {
+  const inputs = call.winner
+    ? [
+        { type: "pure", valueType: "address", value: call.winner },
+        { type: "object", objectType: "sharedObject", objectId: ROOM },
+      ]
+    : [{ type: "object", objectType: "sharedObject", objectId: ROOM }]
+
+  return {
+    transaction: {
+      data: {
+        sender: ALICE,
+        transaction: {
+          kind: "ProgrammableTransaction",
+          inputs,
+          transactions: [
+            {
+              MoveCall: {
+                package: "0xc0ffee",
+                module: call.module,
+                function: call.function,
+                arguments: inputs.map((_, index) => ({ Input: index })),
+              },
+            },
+          ],
+        },
+      },
+    },
+    effects: { status: { status: "success" }, gasUsed: GAS },
+    objectChanges: [{ type: roomChange, objectId: ROOM, version: "7" }],
+    balanceChanges: balanceChanges.map(({ owner, amount }) => ({
+      owner: { AddressOwner: owner },
+      coinType: SUI,
+      amount,
+    })),
+  }
+}
+
+const win = { module: "main", function: "finish_game" }
+const draw = { module: "twoproom", function: "finish_game_draw" }
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  vi.spyOn(console, "log").mockImplementation(() => {})
+  vi.spyOn(console, "warn").mockImplementation(() => {})
+})
+
+describe("suiToMist and mistToSui", () => {
+  it("converts whole and fractional SUI amounts", () => {
+    expect(suiToMist(1)).toBe(BigInt(1_000_000_000))
+    expect(suiToMist(1.5)).toBe(BigInt(1_500_000_000))
+    expect(suiToMist(0.001)).toBe(BigInt(1_000_000))
+    expect(mistToSui("1500000000")).toBe(1.5)
+    expect(mistToSui(BigInt(1_000_000))).toBe(0.001)
+    expect(mistToSui(1)).toBe(0.000000001)
+  })
+
+  it("rounds away floating point error to whole MIST", () => {
+    // 1.1 * 10^9 is 1100000000.0000002 in floating point
+    expect(suiToMist(1.1)).toBe(BigInt(1_100_000_000))
+    expect(suiToMist(0.1 + 0.2)).toBe(BigInt(300_000_000))
+    expect(suiToMist(0.0000000014)).toBe(BigInt(1))
+    expect(suiToMist(0.0000000015)).toBe(BigInt(2))
+    expect(suiToMist(0.0000000001)).toBe(BigInt(0))
+  })
+
+  it("round-trips an amount through MIST", () => {
+    for (const amount of [0.001, 0.1, 1.1, 2.75, 123.456789]) {
+      expect(mistToSui(suiToMist(amount))).toBe(amount)
+    }
+  })
+})
+
+describe("stake transactions", () => {
+  // Run the contract call and hand back the transaction the wallet was asked to sign
+  async function signedTransaction(send: (sign: unknown) => Promise<unknown>): Promise<Transaction> {
+    const sign = vi.fn((_input: { transaction: Transaction }, { onSuccess }: { onSuccess: (result: unknown) => void }) =>
+      onSuccess({ digest: "digest" }),
+    )
+    await send(sign)
+    return sign.mock.calls[0][0].transaction
+  }
+
+  // The stake is the first coin split from gas, in MIST, and is passed on to the Move call
+  function stakeOf(tx: Transaction) {
+    const { commands, inputs } = tx.getData()
+    const [split, call] = commands
+    expect(split.SplitCoins?.coin.$kind).toBe("GasCoin")
+    expect(split.SplitCoins?.amounts).toHaveLength(1)
+    expect(call.MoveCall?.arguments).toContainEqual(expect.objectContaining({ NestedResult: [0, 0] }))
+
+    const { Input } = split.SplitCoins!.amounts[0] as { Input: number }
+    return BigInt(bcs.u64().fromBase64(inputs[Input].Pure!.bytes))
+  }
+
+  it("splits exactly the bet from gas to create a room", async () => {
+    const tx = await signedTransaction((sign) => suiContract.createRoom(ALICE, 1.1, sign))
+    expect(tx.getData().commands[1].MoveCall?.function).toBe("create_room")
+    expect(stakeOf(tx)).toBe(suiToMist(1.1))
+  })
+
+  it("splits exactly the bet from gas to join a room", async () => {
+    const tx = await signedTransaction((sign) => suiContract.joinRoom(ROOM, 0.25, sign))
+    expect(tx.getData().commands[1].MoveCall?.function).toBe("join_room")
+    expect(stakeOf(tx)).toBe(suiToMist(0.25))
+  })
+})
+
+describe("verifySettlementTransaction", () => {
+  const expectedWin = { roomId: ROOM, winner: ALICE, players: [ALICE, BOB], betAmount: 1 }
+  const expectedDraw = { ...expectedWin, winner: null }
+
+  it("accepts a finish_game call that pays the recorded winner the whole pot", async () => {
+    // Alice submitted it herself, so the gas she paid comes off what she received
+    waitForTransaction.mockResolvedValue(
+      settlementTransaction({ ...win, winner: ALICE }, [{ owner: ALICE, amount: String(2 * Number(STAKE) - 1000) }]),
+    )
+
+    await expect(suiContract.verifySettlementTransaction("digest", expectedWin)).resolves.toEqual({ success: true })
+  })
+
+  it("rejects a finish_game call naming someone other than the recorded winner", async () => {
+    waitForTransaction.mockResolvedValue(
+      settlementTransaction({ ...win, winner: BOB }, [{ owner: BOB, amount: String(2 * Number(STAKE)) }]),
+    )
+
+    const result = await suiContract.verifySettlementTransaction("digest", expectedWin)
+    expect(result.success).toBe(false)
+  })
+
+  it("rejects a finish_game call on a drawn room", async () => {
+    waitForTransaction.mockResolvedValue(
+      settlementTransaction({ ...win, winner: ALICE }, [{ owner: ALICE, amount: String(2 * Number(STAKE) - 1000) }]),
+    )
+
+    const result = await suiContract.verifySettlementTransaction("digest", expectedDraw)
+    expect(result.success).toBe(false)
+  })
+
+  it("rejects a win that pays less than the pot", async () => {
+    waitForTransaction.mockResolvedValue(
+      settlementTransaction({ ...win, winner: ALICE }, [{ owner: ALICE, amount: String(Number(STAKE) - 1000) }]),
+    )
+
+    const result = await suiContract.verifySettlementTransaction("digest", expectedWin)
+    expect(result).toEqual({ success: false, error: "Transaction does not pay the winner" })
+  })
+
+  it("accepts a draw that refunds each stake to its owner", async () => {
+    waitForTransaction.mockResolvedValue(
+      settlementTransaction(draw, [
+        { owner: ALICE, amount: String(Number(STAKE) - 1000) },
+        { owner: BOB, amount: STAKE },
+      ]),
+    )
+
+    await expect(suiContract.verifySettlementTransaction("digest", expectedDraw)).resolves.toEqual({ success: true })
+  })
+
+  it("rejects a draw that leaves funds in the escrow", async () => {
+    waitForTransaction.mockResolvedValue(
+      settlementTransaction(
+        draw,
+        [
+          { owner: ALICE, amount: String(Number(STAKE) - 1000) },
+          { owner: BOB, amount: STAKE },
+        ],
+        "mutated",
+      ),
+    )
+    tryGetPastObject.mockResolvedValue({ status: "VersionFound", details: { content: { fields: { balance: STAKE } } } })
+
+    const result = await suiContract.verifySettlementTransaction("digest", expectedDraw)
+    expect(result).toEqual({ success: false, error: "Transaction does not empty the room escrow" })
+    expect(tryGetPastObject).toHaveBeenCalledWith(expect.objectContaining({ id: ROOM, version: 7 }))
+  })
+})
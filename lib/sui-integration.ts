@@ -1,11 +1,84 @@
 import { Transaction } from "@mysten/sui/transactions"
 import { SuiClient } from "@mysten/sui/client"
+import { MIST_PER_SUI, SUI_TYPE_ARG, normalizeStructTag } from "@mysten/sui/utils"
 import { getCurrentNetwork, getCurrentNetworkUrl, getNetworkInfo } from "@/lib/network-config"
 
 const NETWORK = getCurrentNetwork()
 const CONTRACT_PACKAGE_ID = process.env.NEXT_PUBLIC_SUI_PACKAGE_ID
 const DEFAULT_GAS_BUDGET = parseInt(process.env.NEXT_PUBLIC_DEFAULT_GAS_BUDGET || "10000000") // 0.01 SUI default
 
+/**
+ * Convert a SUI amount to MIST (1 SUI = 10^9 MIST)
+ */
+export function suiToMist(amount: number): bigint {
+  return BigInt(Math.round(amount * Number(MIST_PER_SUI)))
+}
+
+/**
+ * Convert a MIST amount (as returned in Move object fields) to SUI
+ */
+export function mistToSui(amount: string | number | bigint): number {
+  return Number(amount) / Number(MIST_PER_SUI)
+}
+
+/**
+ * Read the escrow state out of a twoproom::Room object's fields.
+ * bet_amount is the stake each player locks; balance is the Balance<SUI> currently escrowed.
+ */
+function parseRoomFields(fields: any) {
+  return {
+    player1: fields.player1,
+    player2: fields.player2?.vec?.[0] || null, // Option<address> is represented as {vec: [...]} or {vec: []}
+    isFull: !!fields.player2?.vec?.[0],
+    betAmount: mistToSui(fields.bet_amount ?? 0),
+    escrowBalance: mistToSui(fields.balance ?? 0),
+  }
+}
+
+/**
+ * What a settlement transaction must do for a room: pay the whole pot to the winner,
+ * or refund each player's stake when there is no winner
+ */
+export interface ExpectedSettlement {
+  roomId: string
+  winner: string | null
+  players: string[]
+  betAmount: number
+}
+
+export interface RoomEventCursor {
+  txDigest: string
+  eventSeq: string
+}
+
+/**
+ * A twoproom event reduced to what the room indexer needs.
+ * RoomCreated carries room_id, player1 and bet_amount; RoomJoined carries room_id and player2;
+ * RoomCancelled carries room_id.
+ */
+export interface RoomEvent {
+  id: RoomEventCursor
+  kind: string
+  roomId: string
+  player1?: string
+  player2?: string
+  betAmount?: number
+  timestamp: number
+}
+
+function parseRoomEvent(event: any): RoomEvent {
+  const fields = event.parsedJson || {}
+  return {
+    id: event.id,
+    kind: event.type.split("::").pop(),
+    roomId: fields.room_id,
+    player1: fields.player1,
+    player2: fields.player2,
+    betAmount: fields.bet_amount !== undefined ? mistToSui(fields.bet_amount) : undefined,
+    timestamp: Number(event.timestampMs || Date.now()),
+  }
+}
+
 export class SuiGameContract {
   private client: SuiClient
 
@@ -74,11 +147,14 @@ export class SuiGameContract {
       // Set gas budget to avoid automatic calculation issues
       tx.setGasBudget(DEFAULT_GAS_BUDGET)
 
+      // Split a coin of exactly the bet amount from gas to lock in the room's escrow
+      const [stake] = tx.splitCoins(tx.gas, [tx.pure.u64(suiToMist(betAmount))])
+
       // Call the create_room function from the new Sui Move contract
-      // This creates a Room object with the caller as player1
+      // This creates a Room object with the caller as player1 and the stake in escrow
       tx.moveCall({
         target: `${CONTRACT_PACKAGE_ID}::twoproom::create_room`,
-        arguments: [],
+        arguments: [stake],
       })
 
       console.log(`[v0] Transaction prepared, calling smart contract: ${CONTRACT_PACKAGE_ID}::twoproom::create_room`)
@@ -144,11 +220,14 @@ export class SuiGameContract {
       // Set gas budget to avoid automatic calculation issues
       tx.setGasBudget(DEFAULT_GAS_BUDGET)
 
+      // The joining stake must match the creator's bet exactly
+      const [stake] = tx.splitCoins(tx.gas, [tx.pure.u64(suiToMist(betAmount))])
+
       // Call the join_room function from the new Sui Move contract
-      // This adds the caller as player2 to the existing Room object
+      // This adds the caller as player2 to the existing Room object and escrows the stake
       tx.moveCall({
         target: `${CONTRACT_PACKAGE_ID}::twoproom::join_room`,
-        arguments: [tx.object(roomId)],
+        arguments: [tx.object(roomId), stake],
       })
 
       console.log(`[v0] Transaction prepared, calling smart contract: ${CONTRACT_PACKAGE_ID}::twoproom::join_room with room ${roomId}`)
@@ -232,6 +311,262 @@ export class SuiGameContract {
     }
   }
 
+  /**
+   * Settle a drawn game: the contract returns each player's stake from the Room escrow
+   */
+  async finishGameDraw(roomId: string, signAndExecuteTransaction: any) {
+    if (!this.validateContract()) {
+      throw new Error("Contract not configured. Please set NEXT_PUBLIC_SUI_PACKAGE_ID.")
+    }
+
+    try {
+      const tx = new Transaction()
+      
+      // Set gas budget to avoid automatic calculation issues
+      tx.setGasBudget(DEFAULT_GAS_BUDGET)
+
+      // Refund both stakes held by the Room object
+      tx.moveCall({
+        target: `${CONTRACT_PACKAGE_ID}::twoproom::finish_game_draw`,
+        arguments: [tx.object(roomId)],
+      })
+
+      // Execute the transaction using the modern dapp-kit pattern
+      return new Promise((resolve, reject) => {
+        signAndExecuteTransaction(
+          {
+            transaction: tx,
+          },
+          {
+            onSuccess: (result: any) => {
+              console.log(`[v0] Draw refund transaction successful with digest: ${result.digest}`)
+              resolve(result)
+            },
+            onError: (error: any) => {
+              console.error(`[v0] Draw refund transaction failed:`, error)
+              reject(error)
+            },
+          }
+        )
+      })
+    } catch (error) {
+      console.error("Error refunding drawn game:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Cancel a room nobody has joined yet: the contract refunds the creator's stake.
+   * Only the creator can call it, and it aborts once player2 is set.
+   */
+  async cancelRoom(roomId: string, signAndExecuteTransaction: any) {
+    if (!this.validateContract()) {
+      throw new Error("Contract not configured. Please set NEXT_PUBLIC_SUI_PACKAGE_ID.")
+    }
+
+    try {
+      const tx = new Transaction()
+
+      // Set gas budget to avoid automatic calculation issues
+      tx.setGasBudget(DEFAULT_GAS_BUDGET)
+
+      // Return the creator's stake held by the Room object
+      tx.moveCall({
+        target: `${CONTRACT_PACKAGE_ID}::twoproom::cancel_room`,
+        arguments: [tx.object(roomId)],
+      })
+
+      // Execute the transaction using the modern dapp-kit pattern
+      return new Promise((resolve, reject) => {
+        signAndExecuteTransaction(
+          {
+            transaction: tx,
+          },
+          {
+            onSuccess: (result: any) => {
+              console.log(`[v0] Cancel room transaction successful with digest: ${result.digest}`)
+              resolve(result)
+            },
+            onError: (error: any) => {
+              console.error(`[v0] Cancel room transaction failed:`, error)
+              reject(error)
+            },
+          }
+        )
+      })
+    } catch (error) {
+      console.error("Error cancelling room:", error)
+      throw error
+    }
+  }
+
+  /**
+   * Wait for a transaction to be finalized and report whether it succeeded
+   */
+  async waitForTransaction(digest: string, timeout = 60000): Promise<{ success: boolean; error?: string }> {
+    try {
+      console.log(`[v0] Waiting for transaction: ${digest}`)
+
+      const transaction = await this.client.waitForTransaction({
+        digest,
+        timeout,
+        options: { showEffects: true },
+      })
+
+      const status = transaction.effects?.status
+      if (status?.status === "success") {
+        console.log(`[v0] Transaction confirmed: ${digest}`)
+        return { success: true }
+      }
+
+      console.warn(`[v0] Transaction failed on chain: ${digest}`, status?.error)
+      return { success: false, error: status?.error || "Transaction failed" }
+    } catch (error: any) {
+      console.error(`[v0] Error waiting for transaction ${digest}:`, error)
+      throw new Error(`Failed to confirm transaction: ${error.message}`)
+    }
+  }
+
+  /**
+   * Wait for a settlement transaction and check that it actually settled this room the
+   * way the engine decided: a win must call main::finish_game naming the recorded winner
+   * and pay them the whole pot, a draw must call twoproom::finish_game_draw and give each
+   * player their stake back. Either way the room's escrow must be left empty.
+   */
+  async verifySettlementTransaction(
+    digest: string,
+    expected: ExpectedSettlement,
+    timeout = 60000,
+  ): Promise<{ success: boolean; error?: string }> {
+    const { roomId, winner, players, betAmount } = expected
+
+    try {
+      console.log(`[v0] Verifying settlement transaction ${digest} for room ${roomId}`)
+
+      const transaction: any = await this.client.waitForTransaction({
+        digest,
+        timeout,
+        options: { showInput: true, showEffects: true, showObjectChanges: true, showBalanceChanges: true },
+      })
+
+      const status = transaction.effects?.status
+      if (status?.status !== "success") {
+        console.warn(`[v0] Settlement transaction failed on chain: ${digest}`, status?.error)
+        return { success: false, error: status?.error || "Transaction failed" }
+      }
+
+      if (!this.hasSettlementCall(transaction, roomId, winner)) {
+        console.warn(`[v0] Settlement transaction ${digest} does not settle room ${roomId} for ${winner || "a draw"}`)
+        return { success: false, error: "Transaction does not settle this room" }
+      }
+
+      if (!(await this.isEscrowEmptied(transaction, roomId))) {
+        console.warn(`[v0] Settlement transaction ${digest} leaves funds in room ${roomId}`)
+        return { success: false, error: "Transaction does not empty the room escrow" }
+      }
+
+      const stake = suiToMist(betAmount)
+      const payouts = winner
+        ? [{ address: winner, amount: stake * BigInt(2) }]
+        : players.map((address) => ({ address, amount: stake }))
+      const received = this.getSuiReceived(transaction)
+      const unpaid = payouts.find(({ address, amount }) => received.get(this.normalizeSuiAddress(address)) !== amount)
+      if (unpaid) {
+        console.warn(`[v0] Settlement transaction ${digest} does not pay ${unpaid.address} ${unpaid.amount} MIST`)
+        return { success: false, error: winner ? "Transaction does not pay the winner" : "Transaction does not refund both stakes" }
+      }
+
+      console.log(`[v0] Settlement transaction verified: ${digest}`)
+      return { success: true }
+    } catch (error: any) {
+      console.error(`[v0] Error verifying settlement transaction ${digest}:`, error)
+      throw new Error(`Failed to confirm transaction: ${error.message}`)
+    }
+  }
+
+  /**
+   * Whether the transaction calls the settlement function for this result on this room:
+   * main::finish_game(winner, room) for a win, twoproom::finish_game_draw(room) for a draw
+   */
+  private hasSettlementCall(transaction: any, roomId: string, winner: string | null): boolean {
+    const data = transaction.transaction?.data?.transaction
+    if (data?.kind !== "ProgrammableTransaction" || !CONTRACT_PACKAGE_ID) return false
+
+    const inputs: any[] = data.inputs || []
+    const input = (argument: any) => (typeof argument?.Input === "number" ? inputs[argument.Input] : undefined)
+    const isRoom = (argument: any) => {
+      const arg = input(argument)
+      return arg?.type === "object" && this.normalizeSuiAddress(arg.objectId) === this.normalizeSuiAddress(roomId)
+    }
+    const packageId = this.normalizeSuiAddress(CONTRACT_PACKAGE_ID)
+
+    return (data.transactions || []).some((command: any) => {
+      const call = command.MoveCall
+      if (!call || this.normalizeSuiAddress(call.package) !== packageId) return false
+      const args = call.arguments || []
+
+      if (!winner) {
+        return call.module === "twoproom" && call.function === "finish_game_draw" && isRoom(args[0])
+      }
+
+      const winnerArg = input(args[0])
+      return (
+        call.module === "main" &&
+        call.function === "finish_game" &&
+        winnerArg?.type === "pure" &&
+        typeof winnerArg.value === "string" &&
+        this.normalizeSuiAddress(winnerArg.value) === this.normalizeSuiAddress(winner) &&
+        isRoom(args[1])
+      )
+    })
+  }
+
+  /**
+   * Whether the room holds no SUI after the transaction: either the transaction deleted
+   * the Room object, or the version it left behind has an empty balance
+   */
+  private async isEscrowEmptied(transaction: any, roomId: string): Promise<boolean> {
+    const room = this.normalizeSuiAddress(roomId)
+    const change = (transaction.objectChanges || []).find(
+      (change: any) => "objectId" in change && this.normalizeSuiAddress(change.objectId) === room,
+    )
+    if (!change) return false
+    if (change.type === "deleted" || change.type === "wrapped") return true
+    if (change.type !== "mutated") return false
+
+    const past: any = await this.client.tryGetPastObject({
+      id: roomId,
+      version: Number(change.version),
+      options: { showContent: true },
+    })
+    const fields = past.status === "VersionFound" ? past.details?.content?.fields : undefined
+    return !!fields && BigInt(fields.balance ?? 0) === BigInt(0)
+  }
+
+  /**
+   * SUI each address received in the transaction, in MIST. The gas the sender paid is
+   * added back so a player who submits their own payout still shows the full amount.
+   */
+  private getSuiReceived(transaction: any): Map<string, bigint> {
+    const received = new Map<string, bigint>()
+    for (const change of transaction.balanceChanges || []) {
+      const owner = change.owner?.AddressOwner
+      if (typeof owner !== "string" || normalizeStructTag(change.coinType) !== SUI_TYPE_ARG) continue
+      const address = this.normalizeSuiAddress(owner)
+      received.set(address, (received.get(address) || BigInt(0)) + BigInt(change.amount))
+    }
+
+    const sender = transaction.transaction?.data?.sender
+    const gas = transaction.effects?.gasUsed
+    if (typeof sender === "string" && gas) {
+      const address = this.normalizeSuiAddress(sender)
+      const gasPaid = BigInt(gas.computationCost) + BigInt(gas.storageCost) - BigInt(gas.storageRebate)
+      received.set(address, (received.get(address) || BigInt(0)) + gasPaid)
+    }
+
+    return received
+  }
+
   /**
    * Validate a Sui address format
    */
@@ -330,9 +665,7 @@ export class SuiGameContract {
           
           return {
             id: obj.data?.objectId,
-            player1: fields.player1,
-            player2: fields.player2?.vec?.[0] || null, // Option<address> is represented as {vec: [...]} or {vec: []}
-            isFull: !!fields.player2?.vec?.[0],
+            ...parseRoomFields(fields),
             type: roomType,
           }
         })
@@ -356,6 +689,47 @@ export class SuiGameContract {
     }
   }
 
+  /**
+   * Page through the twoproom module's events (RoomCreated, RoomJoined, ...) in ascending order,
+   * starting after the given cursor
+   */
+  async queryRoomEvents(cursor?: RoomEventCursor | null, limit = 50): Promise<{
+    events: RoomEvent[]
+    nextCursor: RoomEventCursor | null
+    hasNextPage: boolean
+  }> {
+    if (!this.validateContract()) {
+      throw new Error("Contract not configured. Cannot query room events.")
+    }
+
+    const response = await this.client.queryEvents({
+      query: { MoveModule: { package: CONTRACT_PACKAGE_ID, module: "twoproom" } },
+      cursor: cursor || null,
+      limit,
+      order: "ascending",
+    })
+
+    return {
+      events: response.data.map(parseRoomEvent),
+      nextCursor: response.nextCursor || null,
+      hasNextPage: response.hasNextPage,
+    }
+  }
+
+  /**
+   * Subscribe to new twoproom events. Resolves to a function that ends the subscription.
+   */
+  async subscribeRoomEvents(onEvent: (event: RoomEvent) => void): Promise<() => Promise<boolean>> {
+    if (!this.validateContract()) {
+      throw new Error("Contract not configured. Cannot subscribe to room events.")
+    }
+
+    return this.client.subscribeEvent({
+      filter: { MoveModule: { package: CONTRACT_PACKAGE_ID, module: "twoproom" } },
+      onMessage: (event: any) => onEvent(parseRoomEvent(event)),
+    })
+  }
+
   /**
    * Get detailed information about a specific Room object
    */
@@ -387,9 +761,7 @@ export class SuiGameContract {
         
         const roomInfo = {
           id: roomId,
-          player1: fields.player1,
-          player2: fields.player2?.vec?.[0] || null, // Option<address> handling
-          isFull: !!fields.player2?.vec?.[0],
+          ...parseRoomFields(fields),
           isActive: true,
           type: object.data.type,
         }
@@ -406,6 +778,23 @@ export class SuiGameContract {
     }
   }
 
+  /**
+   * Whether a room was cancelled on chain: cancel_room deletes the Room object
+   * once the creator's stake is refunded
+   */
+  async isRoomCancelled(roomId: string): Promise<boolean> {
+    return this.isRoomDeleted(roomId)
+  }
+
+  /**
+   * Whether the Room object is gone from chain: deleted or consumed by the
+   * transaction that released its escrow
+   */
+  async isRoomDeleted(roomId: string): Promise<boolean> {
+    const object = await this.client.getObject({ id: roomId })
+    return object.error?.code === "deleted"
+  }
+
   /**
    * Get Room ID from transaction result (for room creation)
    * Enhanced with multiple extraction strategies and better error handling
@@ -575,10 +964,10 @@ export class SuiGameContract {
   }
 
   async getTreasuryBalance(treasuryId: string) {
-    // Legacy method - redirect to room info for compatibility
+    // Legacy method - the room's escrow is the treasury
     try {
       const roomInfo = await this.getRoomInfo(treasuryId)
-      return roomInfo ? 1 : 0 // Simplified: room exists or not
+      return roomInfo ? roomInfo.escrowBalance : 0
     } catch (error) {
       console.error("Error getting room balance:", error)
       return 0
@@ -603,8 +992,8 @@ export class SuiGameContract {
         
         // Convert room info to legacy treasury format for compatibility
         const legacyInfo = {
-          balance: 1, // Simplified
-          betAmount: 0.1, // Default bet amount
+          balance: roomInfo.escrowBalance,
+          betAmount: roomInfo.betAmount,
           treasuryId: roomId,
           isActive: true,
           roomInfo // Include actual room info
@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from "vitest"
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519"
+import type { SignedMove } from "@/types/game"
+import { encodeMoveMessage } from "./move-signing"
+import { WinnerVerification } from "./winner-verification"
+import type { GameRecord } from "./winner-verification"
+
+// The oracle key is read when the module loads
+const { ORACLE_KEY } = vi.hoisted(() => {
+  const ORACLE_KEY = "suiprivkey1qqgtnyf0lhx8zujurk06eanz6gjpmvrx82jrsw6qguxzta040kmszmlkf64"
+  process.env.ORACLE_PRIVATE_KEY = ORACLE_KEY
+  return { ORACLE_KEY }
+})
+
+const oraclePublicKey = Ed25519Keypair.fromSecretKey(ORACLE_KEY).getPublicKey().toBase64()
+
+const alice = new Ed25519Keypair()
+const bob = new Ed25519Keypair()
+const ALICE = alice.toSuiAddress()
+const BOB = bob.toSuiAddress()
+
+// Rejected proofs are logged
+vi.spyOn(console, "error").mockImplementation(() => {})
+
+async function signedMoves(positions: number[]): Promise<SignedMove[]> {
+  return Promise.all(
+    positions.map(async (position, seq) => {
+      const [keypair, player] = seq % 2 === 0 ? [alice, ALICE] : [bob, BOB]
+      const move = { roomId: "room", seq, position, player }
+      return { ...move, signature: (await keypair.signPersonalMessage(encodeMoveMessage(move))).signature }
+    }),
+  )
+}
+
+// ALICE plays X and takes the top row
+async function aliceWins(): Promise<GameRecord> {
+  return { roomId: "room", players: [ALICE, BOB], betAmount: 1, moveLog: await signedMoves([0, 3, 1, 4, 2]), winner: ALICE }
+}
+
+describe("WinnerVerification", () => {
+  it("verifies a proof it generated for the game", async () => {
+    const record = await aliceWins()
+    const proof = await WinnerVerification.generateGameProof(record)
+
+    expect(proof.publicKey).toBe(oraclePublicKey)
+    expect(await WinnerVerification.verifyGameProof(proof, record, oraclePublicKey)).toBe(true)
+  })
+
+  it("verifies a draw", async () => {
+    const record: GameRecord = {
+      roomId: "room",
+      players: [ALICE, BOB],
+      betAmount: 1,
+      moveLog: await signedMoves([0, 1, 2, 4, 3, 5, 7, 6, 8]),
+      winner: null,
+    }
+    const proof = await WinnerVerification.generateGameProof(record)
+    expect(await WinnerVerification.verifyGameProof(proof, record, oraclePublicKey)).toBe(true)
+  })
+
+  it("rejects a proof whose winner was swapped", async () => {
+    const record = await aliceWins()
+    const proof = await WinnerVerification.generateGameProof(record)
+
+    expect(await WinnerVerification.verifyGameProof({ ...proof, winner: BOB }, record, oraclePublicKey)).toBe(false)
+    expect(await WinnerVerification.verifyGameProof(proof, { ...record, winner: BOB }, oraclePublicKey)).toBe(false)
+  })
+
+  it("rejects a record whose moves were reordered", async () => {
+    const record = await aliceWins()
+    const proof = await WinnerVerification.generateGameProof(record)
+
+    // ALICE's first two moves swap places, keeping their signatures
+    const [first, , third] = record.moveLog
+    const reordered = record.moveLog.map((move) =>
+      move === first ? { ...third, seq: first.seq } : move === third ? { ...first, seq: third.seq } : move,
+    )
+    expect(await WinnerVerification.verifyGameProof(proof, { ...record, moveLog: reordered }, oraclePublicKey)).toBe(false)
+  })
+
+  it("rejects a proof checked against another oracle key", async () => {
+    const record = await aliceWins()
+    const proof = await WinnerVerification.generateGameProof(record)
+    const otherKey = new Ed25519Keypair().getPublicKey().toBase64()
+
+    expect(await WinnerVerification.verifyGameProof(proof, record, otherKey)).toBe(false)
+    expect(await WinnerVerification.verifyGameProof({ ...proof, publicKey: otherKey }, record, otherKey)).toBe(false)
+  })
+})
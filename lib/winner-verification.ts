@@ -1,67 +1,110 @@
-import type { Room } from "@/types/game"
-
-export interface GameProof {
-  gameHash: string
-  merkleRoot: string
-  proof: string[]
-  signature: string
-  winner: string | null
-  timestamp: number
+import { Ed25519Keypair, Ed25519PublicKey } from "@mysten/sui/keypairs/ed25519"
+import type { BoardVariant, GameProof, GameRule, GameType, SignedMove } from "@/types/game"
+import { isClassicBoard } from "./game-logic"
+import type { GameSetup } from "./game-logic"
+import { verifyMoveLog, verifySeriesLog } from "./move-signing"
+
+// Ed25519 oracle key. The private key only exists on the server; the public key is
+// published so anyone can check a game proof.
+const ORACLE_PRIVATE_KEY = process.env.ORACLE_PRIVATE_KEY
+const ORACLE_PUBLIC_KEY = process.env.NEXT_PUBLIC_ORACLE_PUBLIC_KEY
+
+/**
+ * Everything needed to re-derive a game's result: who played, for what stake,
+ * and the full signed move sequence
+ */
+export interface GameRecord {
+  roomId: string
+  players: string[]
+  betAmount: number
+  moveLog: SignedMove[]
+  winner?: string | null
+  forfeit?: { player: string } // The player who lost on time or resigned, if the game did not finish on the board
+  bestOf?: number // Number of games in a match series; a single game when unset
+  variant?: BoardVariant // The classic 3x3 board when unset
+  gameType?: GameType // Classic TicTacToe when unset
+  rules?: GameRule[]
+  firstPlayer?: string // Who played X in the first game; players[0] when unset
 }
 
 export class WinnerVerification {
-  static async generateGameProof(room: Room): Promise<GameProof> {
-    const { gameState, id: roomId } = room
-
-    // Generate game hash from all moves
-    const gameData = {
-      board: gameState.board,
-      moves: gameState.moves,
-      roomId,
-      players: room.players,
-      betAmount: room.betAmount,
-    }
+  static async generateGameProof(record: GameRecord): Promise<GameProof> {
+    const moveLog = [...record.moveLog].sort((a, b) => a.seq - b.seq)
 
-    const gameHash = await this.hashData(JSON.stringify(gameData))
+    // Hash the canonical encoding of the full move sequence
+    const gameHash = await this.hashData(this.encodeGameRecord(record))
 
-    // Create Merkle tree for proof
+    // One leaf per move plus a final leaf for the result
     const leaves = [
-      gameHash,
-      await this.hashData(JSON.stringify(gameState.board)),
-      await this.hashData(gameState.winner || "draw"),
-      await this.hashData(roomId),
+      ...(await Promise.all(moveLog.map((move) => this.hashData(this.encodeMove(move))))),
+      await this.hashData(`result:${record.winner || "draw"}`),
     ]
 
     const merkleRoot = await this.buildMerkleRoot(leaves)
-    const proof = await this.generateMerkleProof(leaves, 0) // Proof for game hash
-
-    // Generate signature (mock - use actual crypto in production)
-    const signature = await this.signData(merkleRoot)
+    const proof = await this.generateMerkleProof(leaves, leaves.length - 1) // Proof for the result leaf
 
-    return {
+    const unsignedProof = {
       gameHash,
       merkleRoot,
       proof,
-      signature,
-      winner: gameState.winner === "draw" ? null : gameState.winner,
+      winner: record.winner || null,
       timestamp: Date.now(),
     }
+
+    const keypair = this.getOracleKeypair()
+    const { signature } = await keypair.signPersonalMessage(this.encodeProofMessage(record.roomId, unsignedProof))
+
+    return {
+      ...unsignedProof,
+      signature,
+      publicKey: keypair.getPublicKey().toBase64(),
+    }
   }
 
-  static async verifyGameProof(proof: GameProof, room: Room): Promise<boolean> {
+  /**
+   * Check a proof against the published oracle public key and the room's signed move log
+   */
+  static async verifyGameProof(proof: GameProof, record: GameRecord, publicKey = ORACLE_PUBLIC_KEY): Promise<boolean> {
     try {
-      // Verify Merkle proof
-      const isValidProof = await this.verifyMerkleProof(proof.gameHash, proof.proof, proof.merkleRoot)
+      if (!publicKey) {
+        throw new Error("Oracle public key not configured. Set NEXT_PUBLIC_ORACLE_PUBLIC_KEY.")
+      }
+
+      // The proof must come from the published oracle key
+      if (proof.publicKey !== publicKey) return false
+
+      // The proof must commit to exactly this move sequence and result
+      const expectedHash = await this.hashData(this.encodeGameRecord(record))
+      if (proof.gameHash !== expectedHash) return false
+
+      const resultLeaf = await this.hashData(`result:${proof.winner || "draw"}`)
+      const isValidProof = await this.verifyMerkleProof(resultLeaf, proof.proof, proof.merkleRoot)
 
       if (!isValidProof) return false
 
-      // Verify signature
-      const isValidSignature = await this.verifySignature(proof.merkleRoot, proof.signature)
+      // Verify the oracle signature
+      const isValidSignature = await new Ed25519PublicKey(publicKey).verifyPersonalMessage(
+        this.encodeProofMessage(record.roomId, proof),
+        proof.signature,
+      )
 
       if (!isValidSignature) return false
 
-      // Verify game state matches
-      const expectedWinner = room.gameState.winner === "draw" ? null : room.gameState.winner
+      if (record.bestOf && record.bestOf > 1) {
+        return await this.verifySeriesResult(proof, record, record.bestOf)
+      }
+
+      // Replay the player-signed moves and make sure they produce the proven winner
+      const players = this.getPlayersInTurnOrder(record)
+      const gameState = await verifyMoveLog(record.roomId, record.moveLog, players, this.getGameSetup(record))
+
+      if (record.forfeit) {
+        // A forfeit on time is only valid while the board game was still undecided
+        if (gameState.gameOver || !record.players.includes(record.forfeit.player)) return false
+        return proof.winner === record.players.find((player) => player !== record.forfeit!.player)
+      }
+
+      const expectedWinner = gameState.winner === "X" ? players[0] : gameState.winner === "O" ? players[1] : null
       return proof.winner === expectedWinner
     } catch (error) {
       console.error("Proof verification failed:", error)
@@ -69,6 +112,81 @@ export class WinnerVerification {
     }
   }
 
+  // Replay a match series game by game and make sure it produces the proven series winner
+  private static async verifySeriesResult(proof: GameProof, record: GameRecord, bestOf: number): Promise<boolean> {
+    const players = this.getPlayersInTurnOrder(record)
+    const series = await verifySeriesLog(record.roomId, record.moveLog, players, bestOf, this.getGameSetup(record))
+
+    if (record.forfeit) {
+      // A forfeit ends the series early, so it is only valid while the series was undecided
+      if (series.result !== null || !record.players.includes(record.forfeit.player)) return false
+      return proof.winner === record.players.find((player) => player !== record.forfeit!.player)
+    }
+
+    if (series.result === null) return false
+    const expectedWinner = series.result === "draw" ? null : players[series.result]
+    return proof.winner === expectedWinner
+  }
+
+  private static getGameSetup(record: GameRecord): GameSetup {
+    return { gameType: record.gameType, variant: record.variant, rules: record.rules }
+  }
+
+  // Replays expect the first game's X player first
+  private static getPlayersInTurnOrder(record: GameRecord): string[] {
+    const { players, firstPlayer } = record
+    return firstPlayer && firstPlayer !== players[0] ? [firstPlayer, ...players.filter((p) => p !== firstPlayer)] : players
+  }
+
+  /**
+   * Whether this process can sign proofs (only true on the server with ORACLE_PRIVATE_KEY set)
+   */
+  static isOracleConfigured(): boolean {
+    return !!ORACLE_PRIVATE_KEY
+  }
+
+  private static getOracleKeypair(): Ed25519Keypair {
+    if (!ORACLE_PRIVATE_KEY) {
+      throw new Error("Oracle key not configured. Set ORACLE_PRIVATE_KEY on the server.")
+    }
+    return Ed25519Keypair.fromSecretKey(ORACLE_PRIVATE_KEY)
+  }
+
+  // Canonical encodings use a fixed field order so every verifier hashes the same bytes
+  private static encodeMove(move: SignedMove): string {
+    const fields: unknown[] = [move.roomId, move.seq, move.position, move.player, move.signature]
+    return JSON.stringify(move.mark ? [...fields, move.mark] : fields)
+  }
+
+  private static encodeGameRecord(record: GameRecord): string {
+    const moves = [...record.moveLog].sort((a, b) => a.seq - b.seq).map((move) => this.encodeMove(move))
+    const fields: unknown[] = [record.roomId, record.players, record.betAmount, moves, record.winner || null]
+    // Optional fields are only appended when set, so proofs of single classic games decided on the board keep their encoding
+    if (record.forfeit) fields.push(`forfeit:${record.forfeit.player}`)
+    if (record.bestOf && record.bestOf > 1) fields.push(`bestOf:${record.bestOf}`)
+    if (record.gameType === "ultimate") {
+      fields.push("game:ultimate")
+    } else if (!isClassicBoard(record.variant)) {
+      const { width, height, k } = record.variant!
+      fields.push(`board:${width}x${height}x${k}`)
+    }
+    if (record.rules?.length) fields.push(`rules:${record.rules.join(",")}`)
+    if (record.firstPlayer && record.firstPlayer !== record.players[0]) fields.push(`first:${record.firstPlayer}`)
+    return JSON.stringify(fields)
+  }
+
+  private static encodeProofMessage(roomId: string, proof: Omit<GameProof, "signature" | "publicKey">): Uint8Array {
+    const message = [
+      "ProjetoBet TicTacToe game proof",
+      `room: ${roomId}`,
+      `gameHash: ${proof.gameHash}`,
+      `merkleRoot: ${proof.merkleRoot}`,
+      `winner: ${proof.winner || "draw"}`,
+      `timestamp: ${proof.timestamp}`,
+    ].join("\n")
+    return new TextEncoder().encode(message)
+  }
+
   private static async hashData(data: string): Promise<string> {
     // Use Web Crypto API for real hashing
     const encoder = new TextEncoder()
@@ -78,6 +196,11 @@ export class WinnerVerification {
     return hashArray.map((b) => b.toString(16).padStart(2, "0")).join("")
   }
 
+  // Pairs are hashed in sorted order so a proof does not need to carry left/right positions
+  private static async hashPair(left: string, right: string): Promise<string> {
+    return left < right ? this.hashData(left + right) : this.hashData(right + left)
+  }
+
   private static async buildMerkleRoot(leaves: string[]): Promise<string> {
     if (leaves.length === 0) return ""
     if (leaves.length === 1) return leaves[0]
@@ -86,7 +209,7 @@ export class WinnerVerification {
     for (let i = 0; i < leaves.length; i += 2) {
       const left = leaves[i]
       const right = leaves[i + 1] || left
-      const combined = await this.hashData(left + right)
+      const combined = await this.hashPair(left, right)
       nextLevel.push(combined)
     }
 
@@ -105,16 +228,13 @@ export class WinnerVerification {
         const left = currentLevel[i]
         const right = currentLevel[i + 1] || left
 
-        if (i === currentIndex || i + 1 === currentIndex) {
-          // Add sibling to proof
-          if (i === currentIndex && i + 1 < currentLevel.length) {
-            proof.push(right)
-          } else if (i + 1 === currentIndex) {
-            proof.push(left)
-          }
+        if (i === currentIndex) {
+          proof.push(right)
+        } else if (i + 1 === currentIndex) {
+          proof.push(left)
         }
 
-        const combined = await this.hashData(left + right)
+        const combined = await this.hashPair(left, right)
         nextLevel.push(combined)
       }
 
@@ -129,24 +249,9 @@ export class WinnerVerification {
     let current = leaf
 
     for (const sibling of proof) {
-      // Determine order and hash
-      const combined =
-        current < sibling ? await this.hashData(current + sibling) : await this.hashData(sibling + current)
-      current = combined
+      current = await this.hashPair(current, sibling)
     }
 
     return current === root
   }
-
-  private static async signData(data: string): Promise<string> {
-    // Mock signature - use actual crypto signing in production
-    const hash = await this.hashData(data + "secret_key")
-    return hash.substring(0, 32)
-  }
-
-  private static async verifySignature(data: string, signature: string): Promise<boolean> {
-    // Mock verification - use actual crypto verification in production
-    const expectedSignature = await this.signData(data)
-    return signature === expectedSignature
-  }
 }
@@ -1,13 +1,54 @@
 export type Player = "X" | "O" | null
 
+// An m,n,k board: width x height cells, k marks in a row to win
+export interface BoardVariant {
+  width: number
+  height: number
+  k: number
+}
+
+// Rule variants a room can be played with:
+// - misere: completing a line loses instead of winning
+// - wild: each move may place either X or O; whoever completes a line wins (or loses, in misère)
+// - random-first-player: the player who opens the first game is drawn at random
+export type GameRule = "misere" | "wild" | "random-first-player"
+
 export interface GameState {
   board: Player[]
+  currentPlayer: Player // Whose turn it is; in wild games the mark placed may differ
+  winner: Player | "draw" | null
+  gameOver: boolean
+  moves: number
+  variant?: BoardVariant // The classic 3x3 board when unset
+  rules?: GameRule[]
+}
+
+export type GameType = "tictactoe" | "ultimate"
+
+// Ultimate TicTacToe: nine classic sub-boards in a 3x3 grid. The cell a player picks
+// inside a sub-board decides which sub-board the opponent must play in next.
+export interface UltimateGameState {
+  board: Player[] // 81 cells, sub-board by sub-board: cell c of sub-board b is board[b * 9 + c]
+  subBoardWinners: (Player | "draw")[] // null while a sub-board is still open
+  activeSubBoard: number | null // Where the next move must go; null lets the player pick any open sub-board
   currentPlayer: Player
   winner: Player | "draw" | null
   gameOver: boolean
   moves: number
 }
 
+export interface SignedMove {
+  roomId: string
+  seq: number
+  position: number
+  player: string
+  mark?: "X" | "O" // The mark placed, in wild games only
+  signature: string
+}
+
+/**
+ * @deprecated Legacy room shape; use Room from lib/room (convert with fromLegacyRoom)
+ */
 export interface Room {
   id: string
   name: string
@@ -31,11 +72,17 @@ export interface Room {
   createdAt: Date
   totalPrize: number
   gameHash?: string
-  winnerProof?: {
-    merkleRoot: string
-    proof: string[]
-    signature: string
-  }
+  winnerProof?: GameProof
+}
+
+export interface GameProof {
+  gameHash: string
+  merkleRoot: string
+  proof: string[]
+  signature: string
+  publicKey: string
+  winner: string | null
+  timestamp: number
 }
 
 export interface WalletState {